@@ -0,0 +1,319 @@
+// Daily Rhythm reminder worker.
+//
+// The page posts the upcoming reminder schedule here; the worker stores it in IndexedDB, shows
+// notifications when entries come due and records what happened in an outbox the page drains when
+// it is next open. The worker wakes on page ticks, periodic background sync and notification
+// clicks, and uses Notification Triggers where the browser supports them.
+//
+// It also keeps the app shell in Cache Storage so the installed app opens without a network: pages are
+// fetched network-first with the last copy as a fallback, and hashed build assets, fonts and icons are
+// served from the cache once seen. Registering with `?cache=off` (as development builds do) skips this.
+
+const DB_NAME = "daily-rhythm-reminders";
+const DB_VERSION = 1;
+const PERIODIC_SYNC_TAG = "daily-rhythm-reminders";
+// Keep in sync with MISSED_GRACE_MS in src/lib/reminders.ts.
+const MISSED_GRACE_MS = 5 * 60 * 1000;
+const SNOOZE_MINUTES = { "snooze-5": 5, "snooze-10": 10 };
+const MISSED_TAG = "daily-rhythm-missed";
+// Bump the version when the shell list changes so old caches are dropped on activate.
+const SHELL_CACHE = "daily-rhythm-shell-v2";
+const SHELL_URLS = ["/", "/share", "/manifest.webmanifest", "/icons/icon-192.png", "/icons/icon-512.png"];
+const CACHE_ENABLED = new URL(self.location.href).searchParams.get("cache") !== "off";
+
+const openDatabase = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains("schedule")) db.createObjectStore("schedule", { keyPath: "key" });
+      if (!db.objectStoreNames.contains("outbox")) db.createObjectStore("outbox", { autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async (name, mode, run) => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = run(transaction.objectStore(name));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Several stores in one transaction; `run` fills in what it returns from its request callbacks, and that
+// is handed back once the transaction has committed.
+const withStores = async (names, run) => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(names, "readwrite");
+    const result = run(...names.map((name) => transaction.objectStore(name)));
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const addToOutbox = (actions) =>
+  withStore("outbox", "readwrite", (store) => {
+    actions.forEach((action) => store.add(action));
+  });
+
+const toAction = (type, entry, extra = {}) => ({
+  type,
+  key: entry.key,
+  occurrenceKey: entry.occurrenceKey,
+  taskId: entry.taskId,
+  date: entry.date,
+  offset: entry.offset,
+  at: Date.now(),
+  ...extra,
+});
+
+const notifyClients = async () => {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage({ type: "sync" }));
+};
+
+const showReminder = async (entry, extra = {}) => {
+  try {
+    await self.registration.showNotification(entry.title, {
+      body: entry.body,
+      tag: entry.key,
+      data: entry,
+      requireInteraction: true,
+      // Browsers reject a vibration pattern on a silent notification.
+      ...(entry.silent ? { silent: true } : { vibrate: entry.urgent ? [300, 100, 300, 100, 300] : [200] }),
+      actions: [
+        { action: "done", title: "Done" },
+        { action: "snooze-5", title: "Snooze 5 min" },
+        { action: "snooze-10", title: "Snooze 10 min" },
+        { action: "open", title: "Open" },
+      ],
+      ...extra,
+    });
+  } catch (error) {
+    // Without notification permission the page still picks the reminder up from the outbox.
+    console.warn("Unable to show reminder", error);
+  }
+};
+
+const scheduleTriggers = async (entries) => {
+  if (!("TimestampTrigger" in self)) return;
+
+  const now = Date.now();
+  const existing = await self.registration.getNotifications({ includeTriggered: true });
+  existing
+    .filter((notification) => notification.showTrigger && notification.showTrigger.timestamp > now)
+    .forEach((notification) => notification.close());
+
+  for (const entry of entries) {
+    if (entry.fireAt > now) {
+      await showReminder(entry, { showTrigger: new self.TimestampTrigger(entry.fireAt) });
+    }
+  }
+};
+
+// Due entries move from the schedule to the outbox in one transaction, so a tick and a reschedule
+// arriving together cannot both claim the same reminder.
+const claimDue = (now) =>
+  withStores(["schedule", "outbox"], (schedule, outbox) => {
+    const due = [];
+    const request = schedule.getAll();
+    request.onsuccess = () => {
+      request.result
+        .filter((entry) => entry.fireAt <= now)
+        .forEach((entry) => {
+          due.push(entry);
+          schedule.delete(entry.key);
+          outbox.add(toAction(now - entry.fireAt <= MISSED_GRACE_MS ? "notified" : "missed", entry));
+        });
+    };
+    return due;
+  });
+
+const checkDue = async () => {
+  const now = Date.now();
+  const due = await claimDue(now);
+  if (due.length === 0) return;
+
+  const fresh = due.filter((entry) => now - entry.fireAt <= MISSED_GRACE_MS);
+  const missed = due.filter((entry) => now - entry.fireAt > MISSED_GRACE_MS);
+
+  for (const entry of fresh) {
+    await showReminder(entry);
+  }
+
+  if (missed.length > 0) {
+    // One summary instead of a burst of stale alarms after the device wakes up.
+    try {
+      await self.registration.showNotification(
+        missed.length === 1 ? `Missed: ${missed[0].title}` : `${missed.length} reminders missed`,
+        {
+          body: missed.map((entry) => entry.title).join(", "),
+          tag: MISSED_TAG,
+        },
+      );
+    } catch (error) {
+      console.warn("Unable to show missed reminders", error);
+    }
+  }
+
+  await notifyClients();
+};
+
+const replaceSchedule = async (entries) => {
+  const keys = new Set(entries.map((entry) => entry.key));
+  const stored = await withStores(["schedule", "outbox"], (schedule, outbox) => {
+    const kept = [];
+    const current = schedule.getAll();
+    const waiting = outbox.getAll();
+    // Requests in a transaction complete in order, so the schedule has been read by now.
+    waiting.onsuccess = () => {
+      // Snoozed reminders outlive a reschedule as long as their occurrence is still pending.
+      const snoozed = current.result.filter((entry) => entry.snoozed && keys.has(entry.key));
+      // Fired reminders stay out until the page has collected them and marked them delivered.
+      const fired = waiting.result.filter((action) => action.type === "notified" || action.type === "missed");
+      const skipped = new Set([...snoozed, ...fired].map((item) => item.key));
+      const pending = entries.filter((entry) => !entry.delivered && !skipped.has(entry.key));
+
+      schedule.clear();
+      [...pending, ...snoozed].forEach((entry) => {
+        schedule.put(entry);
+        kept.push(entry);
+      });
+    };
+    return kept;
+  });
+  await scheduleTriggers(stored);
+  await checkDue();
+};
+
+// Read and clear in one transaction so an action added in between is neither lost nor sent twice.
+const drainOutbox = async (client) => {
+  const actions = await withStore("outbox", "readwrite", (store) => {
+    const request = store.getAll();
+    request.onsuccess = () => store.clear();
+    return request;
+  });
+  client.postMessage({ type: "actions", actions });
+};
+
+const focusOrOpen = async () => {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  if (windows.length > 0) {
+    await windows[0].focus();
+    return;
+  }
+  await self.clients.openWindow("/");
+};
+
+const precacheShell = async () => {
+  if (!CACHE_ENABLED) return;
+  try {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_URLS);
+  } catch (error) {
+    // The shell is cached again from the first successful page load.
+    console.warn("Unable to precache the app shell", error);
+  }
+};
+
+const dropStaleCaches = async () => {
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith("daily-rhythm-shell-") && (name !== SHELL_CACHE || !CACHE_ENABLED))
+      .map((name) => caches.delete(name)),
+  );
+};
+
+const putInCache = async (request, response) => {
+  if (!response.ok || response.type !== "basic") return;
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.put(request, response);
+};
+
+const networkFirst = async (event) => {
+  try {
+    const response = await fetch(event.request);
+    event.waitUntil(putInCache(event.request, response.clone()));
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(event.request)) ?? (await caches.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (event) => {
+  const cached = await caches.match(event.request);
+  if (cached) return cached;
+  const response = await fetch(event.request);
+  event.waitUntil(putInCache(event.request, response.clone()));
+  return response;
+};
+
+// Build output under /_next/static is content-hashed, so a cached copy never goes stale.
+const isImmutableAsset = (url) => url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/icons/");
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell());
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(dropStaleCaches().then(() => self.clients.claim()).then(checkDue));
+});
+
+self.addEventListener("fetch", (event) => {
+  if (!CACHE_ENABLED || event.request.method !== "GET") return;
+  const url = new URL(event.request.url);
+  // The sync API must always see the network so offline changes stay queued in the page.
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (event.request.mode === "navigate") event.respondWith(networkFirst(event));
+  else if (isImmutableAsset(url)) event.respondWith(cacheFirst(event));
+  else event.respondWith(networkFirst(event));
+});
+
+self.addEventListener("message", (event) => {
+  const message = event.data ?? {};
+  if (message.type === "schedule") event.waitUntil(replaceSchedule(message.entries ?? []));
+  if (message.type === "tick") event.waitUntil(checkDue());
+  if (message.type === "drain" && event.source) event.waitUntil(drainOutbox(event.source));
+});
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) event.waitUntil(checkDue());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  const entry = event.notification.data;
+  event.notification.close();
+
+  event.waitUntil(
+    (async () => {
+      if (entry && entry.key && event.action === "done") {
+        await withStore("schedule", "readwrite", (store) => store.delete(entry.key));
+        await addToOutbox([toAction("completed", entry)]);
+      }
+
+      if (entry && entry.key && event.action in SNOOZE_MINUTES) {
+        const until = Date.now() + SNOOZE_MINUTES[event.action] * 60 * 1000;
+        await withStore("schedule", "readwrite", (store) => store.put({ ...entry, fireAt: until, snoozed: true }));
+        await addToOutbox([toAction("snoozed", entry, { until })]);
+        if ("TimestampTrigger" in self) {
+          await showReminder(entry, { showTrigger: new self.TimestampTrigger(until) });
+        }
+      }
+
+      if (!event.action || event.action === "open") {
+        await focusOrOpen();
+      }
+
+      await notifyClients();
+    })(),
+  );
+});
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { readChanges, syncMutations } from "@/lib/serverTaskStore";
+import type { SyncRequest } from "@/lib/sync";
+
+const parseSince = (value: unknown) => {
+  const since = Number(value ?? 0);
+  return Number.isInteger(since) && since >= 0 ? since : 0;
+};
+
+export async function GET(request: Request) {
+  const since = parseSince(new URL(request.url).searchParams.get("since"));
+  return NextResponse.json(await readChanges(since));
+}
+
+export async function POST(request: Request) {
+  let body: Partial<SyncRequest>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  if (!Array.isArray(body.mutations)) {
+    return NextResponse.json({ error: "mutations must be a list" }, { status: 400 });
+  }
+
+  const mutations = body.mutations.filter(
+    (mutation) =>
+      typeof mutation?.taskId === "string" &&
+      (mutation.type === "upsert" || mutation.type === "delete") &&
+      typeof mutation.at === "number",
+  );
+  return NextResponse.json(await syncMutations(parseSince(body.since), mutations));
+}
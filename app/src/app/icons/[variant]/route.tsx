@@ -0,0 +1,72 @@
+import { ImageResponse } from "next/og";
+import { iconSizes, THEME_COLOR } from "@/lib/pwa";
+
+type IconVariant = { size: number; maskable: boolean };
+
+const variants: Record<string, IconVariant> = {
+  ...Object.fromEntries(iconSizes.map((size) => [`icon-${size}.png`, { size, maskable: false }])),
+  ...Object.fromEntries(iconSizes.map((size) => [`maskable-${size}.png`, { size, maskable: true }])),
+  "apple-touch-icon.png": { size: 180, maskable: true },
+};
+
+export const dynamic = "force-static";
+
+export const generateStaticParams = () => Object.keys(variants).map((variant) => ({ variant }));
+
+// A clock face reading ten past ten; maskable icons keep it inside the 80% safe zone and fill the corners.
+const renderIcon = ({ size, maskable }: IconVariant) => {
+  const face = Math.round(size * (maskable ? 0.56 : 0.72));
+  const stroke = Math.max(2, Math.round(face * 0.08));
+  const center = face / 2 - stroke; // hands are placed inside the border
+  const hand = (length: number, angle: number) => (
+    <div
+      style={{
+        position: "absolute",
+        left: center - stroke / 2,
+        top: center - length,
+        width: stroke,
+        height: length,
+        borderRadius: stroke,
+        background: "#e0f2fe",
+        transform: `rotate(${angle}deg)`,
+        transformOrigin: "50% 100%",
+      }}
+    />
+  );
+
+  return (
+    <div
+      style={{
+        width: size,
+        height: size,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: `linear-gradient(135deg, ${THEME_COLOR}, #1e293b)`,
+        borderRadius: maskable ? 0 : size * 0.22,
+      }}
+    >
+      <div
+        style={{
+          position: "relative",
+          display: "flex",
+          boxSizing: "border-box",
+          width: face,
+          height: face,
+          borderRadius: face,
+          border: `${stroke}px solid #38bdf8`,
+          background: "rgba(56, 189, 248, 0.15)",
+        }}
+      >
+        {hand(face * 0.26, -60)}
+        {hand(face * 0.36, 60)}
+      </div>
+    </div>
+  );
+};
+
+export async function GET(_request: Request, { params }: { params: Promise<{ variant: string }> }) {
+  const variant = variants[(await params).variant];
+  if (!variant) return new Response("Not found", { status: 404 });
+  return new ImageResponse(renderIcon(variant), { width: variant.size, height: variant.size });
+}
@@ -0,0 +1,33 @@
+import type { MetadataRoute } from "next";
+import { APP_NAME, iconSizes, THEME_COLOR } from "@/lib/pwa";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    id: "/",
+    name: `${APP_NAME} | Intelligent Day Planner`,
+    short_name: APP_NAME,
+    description: "Schedule your day in advance and receive smart alerts right on time.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    display_override: ["window-controls-overlay", "standalone"],
+    orientation: "any",
+    background_color: THEME_COLOR,
+    theme_color: THEME_COLOR,
+    categories: ["productivity", "utilities"],
+    icons: [
+      ...iconSizes.map((size) => ({
+        src: `/icons/icon-${size}.png`,
+        sizes: `${size}x${size}`,
+        type: "image/png",
+        purpose: "any" as const,
+      })),
+      ...iconSizes.map((size) => ({
+        src: `/icons/maskable-${size}.png`,
+        sizes: `${size}x${size}`,
+        type: "image/png",
+        purpose: "maskable" as const,
+      })),
+    ],
+  };
+}
@@ -1,111 +1,249 @@
 "use client";
 
 import { FormEvent, startTransition, useCallback, useEffect, useMemo, useRef, useState } from "react";
-
-type Task = {
-  id: string;
-  title: string;
-  description: string;
-  date: string; // YYYY-MM-DD
-  time: string; // HH:MM
-  remindBefore: number; // minutes
-  completed: boolean;
-  notified: boolean;
-};
-
-type Alert = {
-  id: string;
-  taskId: string;
-  message: string;
-  scheduledAt: string; // ISO string
-};
-
-const STORAGE_KEY = "daily-rhythm-tasks";
-
-const templateBlueprint = [
-  {
-    title: "Morning Stretch",
-    time: "07:00",
-    description: "Loosen up with a 10 minute stretch routine.",
-    remindBefore: 10,
-  },
-  {
-    title: "Focus Block #1",
-    time: "09:00",
-    description: "Deep work session on priority project.",
-    remindBefore: 15,
-  },
-  {
-    title: "Lunch Break",
-    time: "12:30",
-    description: "Step away from the desk and recharge.",
-    remindBefore: 10,
-  },
-  {
-    title: "Afternoon Check-in",
-    time: "15:00",
-    description: "Review progress and adjust the plan.",
-    remindBefore: 10,
-  },
-  {
-    title: "Wrap-up & Plan Tomorrow",
-    time: "18:00",
-    description: "Log wins and prep tomorrow's priorities.",
-    remindBefore: 15,
-  },
-];
-
-const minutesOptions = [0, 5, 10, 15, 30, 45, 60];
-
-const formatDateInput = (value: Date) => {
-  const year = value.getFullYear();
-  const month = `${value.getMonth() + 1}`.padStart(2, "0");
-  const day = `${value.getDate()}`.padStart(2, "0");
-  return `${year}-${month}-${day}`;
-};
-
-const combineDateTime = (date: string, time: string) => {
-  const [hours = "00", minutes = "00"] = time.split(":");
-  const [year, month, day] = date.split("-").map((part) => Number(part));
-  return new Date(year, (month ?? 1) - 1, day ?? 1, Number(hours), Number(minutes), 0, 0);
-};
-
-const sortTasks = (data: Task[]) =>
-  [...data].sort((a, b) => combineDateTime(a.date, a.time).getTime() - combineDateTime(b.date, b.time).getTime());
-
-const getSoonestTask = (tasks: Task[]) => {
-  const upcoming = tasks
-    .filter((task) => !task.completed)
-    .sort((a, b) => combineDateTime(a.date, a.time).getTime() - combineDateTime(b.date, b.time).getTime());
-  return upcoming[0] ?? null;
-};
-
-const formatTimeLabel = (dateTime: Date) =>
-  dateTime.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-
-const formatDateLabel = (date: string) => {
-  const [year, month, day] = date.split("-").map(Number);
-  const dateObj = new Date(year, (month ?? 1) - 1, day ?? 1);
-  return dateObj.toLocaleDateString(undefined, {
-    weekday: "short",
-    month: "short",
-    day: "numeric",
-  });
-};
-
-const normalizeTimeValue = (value: string) => {
-  if (!value) return "";
-  const [hours = "00", minutes = "00"] = value.split(":");
-  return `${hours.padStart(2, "0")}:${minutes.padStart(2, "0")}`;
-};
-
-const createId = () =>
-  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
-    ? crypto.randomUUID()
-    : Math.random().toString(36).slice(2);
+import AlertSettingsPanel from "@/components/AlertSettingsPanel";
+import AnalyticsPanel from "@/components/AnalyticsPanel";
+import BacklogPanel from "@/components/BacklogPanel";
+import CalendarTransfer from "@/components/CalendarTransfer";
+import CategoryManager from "@/components/CategoryManager";
+import ChecklistEditor from "@/components/ChecklistEditor";
+import DataTransfer from "@/components/DataTransfer";
+import DayColumn from "@/components/DayColumn";
+import FocusTimer from "@/components/FocusTimer";
+import HistoryToast from "@/components/HistoryToast";
+import InstallPrompt from "@/components/InstallPrompt";
+import MonthGrid from "@/components/MonthGrid";
+import NotificationCenter from "@/components/NotificationCenter";
+import QuickAddBar from "@/components/QuickAddBar";
+import RecurrenceFields from "@/components/RecurrenceFields";
+import ReminderOffsetsPicker from "@/components/ReminderOffsetsPicker";
+import RolloverPanel from "@/components/RolloverPanel";
+import SettingsPanel from "@/components/SettingsPanel";
+import SharePanel from "@/components/SharePanel";
+import SoundSelect from "@/components/SoundSelect";
+import StorageRecovery from "@/components/StorageRecovery";
+import SyncPanel from "@/components/SyncPanel";
+import TaskFilters from "@/components/TaskFilters";
+import TemplateLibrary from "@/components/TemplateLibrary";
+import WeekGrid from "@/components/WeekGrid";
+import {
+  ALERTS_STORAGE_KEY,
+  clearResolvedAlerts,
+  createAlert,
+  isOpenAlert,
+  logAlert,
+  readAlertLog,
+  reconcileAlerts,
+  resolveAlert,
+  snoozeMatchingAlert,
+  writeAlertLog,
+} from "@/lib/alertLog";
+import { taskFromBlock, type BacklogItem, type PlannedBlock } from "@/lib/backlog";
+import type { RestorePlan } from "@/lib/backupFile";
+import {
+  ALERT_SETTINGS_STORAGE_KEY,
+  alertSound,
+  defaultAlertSettings,
+  isSilenced,
+  readAlertSettings,
+  writeAlertSettings,
+  type AlertSettings,
+} from "@/lib/alertSettings";
+import { completionTiming, tallyOccurrences } from "@/lib/analytics";
+import {
+  DEFAULT_DAY_END,
+  DEFAULT_DAY_START,
+  dayDensity,
+  endTimeOf,
+  findFreeGaps,
+  formatMinutes,
+  monthWeeks,
+  occurrencesAround,
+  shiftPeriod,
+  visibleHours,
+  weekDates,
+  type CalendarView,
+  type DayMode,
+  type OccurrenceDragPayload,
+} from "@/lib/calendar";
+import type { CsvImportResult } from "@/lib/csv";
+import { checklistProgress, checklistUpdate, formatProgress, parseChecklist, type ChecklistItem } from "@/lib/checklist";
+import {
+  clearCategory,
+  collectTags,
+  defaultCategories,
+  describeFilter,
+  emptyFilter,
+  filterOccurrences,
+  isFilterActive,
+  matchesFilter,
+  normalizeTags,
+  priorities,
+  priorityLabels,
+  priorityOf,
+  searchAllDates,
+  type Category,
+  type FilterScope,
+  type Priority,
+  type TaskFilter,
+} from "@/lib/categories";
+import {
+  FOCUS_SESSION_STORAGE_KEY,
+  advanceFocusSession,
+  pauseFocusSession,
+  phaseEndsAt,
+  readFocusSession,
+  resumeFocusSession,
+  skipBreak,
+  startFocusSession,
+  totalFocusMinutes,
+  writeFocusSession,
+  type FocusMode,
+  type FocusSession,
+} from "@/lib/focus";
+import {
+  emptyHistory,
+  readHistory,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+  writeHistory,
+  type History,
+} from "@/lib/history";
+import { commitImport, type ImportPreviewEntry } from "@/lib/ical";
+import { electLeader } from "@/lib/leader";
+import { findConflicts, findOverlaps, resolutionOptions } from "@/lib/overlaps";
+import {
+  addDays,
+  applyOccurrenceUpdate,
+  buildRecurrenceRule,
+  defaultRecurrenceDraft,
+  describeRecurrence,
+  expandTasks,
+  removeOccurrence,
+  type EditScope,
+  type RecurrenceDraft,
+} from "@/lib/recurrence";
+import {
+  ROLLOVER_STORAGE_KEY,
+  applyRollover,
+  emptyRolloverState,
+  logRollover,
+  moveTo,
+  overdueOccurrences,
+  planBulkReschedule,
+  planDayStart,
+  pushMove,
+  readRolloverState,
+  rolloverPolicyLabels,
+  rolloverReasonLabels,
+  undoRollover,
+  writeRolloverState,
+  type RolloverBatch,
+  type RolloverMove,
+  type RolloverPolicy,
+  type RolloverReason,
+  type RolloverState,
+} from "@/lib/rollover";
+import {
+  SETTINGS_STORAGE_KEY,
+  defaultSettings,
+  displayFormatOf,
+  readSettings,
+  writeSettings,
+  type Settings,
+} from "@/lib/settings";
+import {
+  backlogSchema,
+  categorySchema,
+  clearQuarantine,
+  createBackup,
+  isScheduledBackupDue,
+  loadCollection,
+  maybeCreateScheduledBackup,
+  readBackups,
+  readQuarantine,
+  restoreBackup,
+  saveCollection,
+  snapshotPayloads,
+  templateSchema,
+  type Backup,
+  type QuarantinedRecord,
+} from "@/lib/storage";
+import { deleteSoundFile, listSoundFiles, saveSoundFile, type SoundFile } from "@/lib/soundLibrary";
+import { fileSoundId, playSound, unlockAudio, type SoundId } from "@/lib/sounds";
+import { diffTasks, mergeServerChanges, type SyncConflict } from "@/lib/sync";
+import {
+  enqueueMutations,
+  readOutbox,
+  readSyncState,
+  seedOutbox,
+  syncWithServer,
+  type SyncStatus,
+} from "@/lib/syncClient";
+import {
+  DEFAULT_DURATION_MINUTES,
+  combineDateTime,
+  createId,
+  durationOptions,
+  formatDateInput,
+  formatDateLabel,
+  formatTimeLabel,
+  getSoonestTask,
+  markCompleted,
+  normalizeTimeValue,
+  snoozeOptions,
+  sortTasks,
+  startInstant,
+  zoneHint,
+  type Alert,
+  type Task,
+  type TaskFields,
+  type TaskOccurrence,
+} from "@/lib/tasks";
+import { openTaskRepository, type TaskRepository } from "@/lib/taskRepository";
+import { deviceTimeZone, isValidTimeZone, timeZoneOptions } from "@/lib/timeZones";
+import { pendingCountOn, updateAppBadge } from "@/lib/pwa";
+import {
+  buildReminderSchedule,
+  collectDueReminders,
+  describeReminders,
+  findOccurrence,
+  reminderKey,
+  reminderMessage,
+  updateReminderDelivery,
+} from "@/lib/reminders";
+import {
+  postToReminderWorker,
+  registerReminderWorker,
+  type WorkerAction,
+  type WorkerMessage,
+} from "@/lib/reminderWorker";
+import {
+  applyTemplate,
+  createTasksFromTemplate,
+  createTemplateFromDay,
+  defaultTemplates,
+  type ApplyMode,
+  type Template,
+} from "@/lib/templates";
+
+const TOAST_MS = 6000;
+
+// Text fields keep the browser's own undo; everywhere else the shortcuts drive the plan history.
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement && !["checkbox", "radio", "button", "submit", "range", "color"].includes(target.type)));
 
 export default function Home() {
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [templates, setTemplates] = useState<Template[]>(defaultTemplates);
+  const [categories, setCategories] = useState<Category[]>(defaultCategories);
+  const [backlog, setBacklog] = useState<BacklogItem[]>([]);
+  const [filter, setFilter] = useState<TaskFilter>(emptyFilter);
+  const [filterScope, setFilterScope] = useState<FilterScope>("day");
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>(() => formatDateInput(new Date()));
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(
@@ -116,103 +254,170 @@ export default function Home() {
     description: "",
     date: "",
     time: "",
-    remindBefore: 15,
+    timeZone: "",
+    duration: DEFAULT_DURATION_MINUTES,
+    reminders: defaultSettings.defaultReminders,
+    categoryId: "",
+    priority: "normal" as Priority,
+    tags: "",
+    checklist: "",
+    autoComplete: true,
   });
+  const [customSnooze, setCustomSnooze] = useState<Record<string, number>>({});
+  const [recurrenceDraft, setRecurrenceDraft] = useState<RecurrenceDraft>(defaultRecurrenceDraft);
+  const [editScopes, setEditScopes] = useState<Record<string, EditScope>>({});
+  const [calendarView, setCalendarView] = useState<CalendarView>("day");
+  const [dayMode, setDayMode] = useState<DayMode>("list");
+  const [showInsights, setShowInsights] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [highlightedKey, setHighlightedKey] = useState<string | null>(null);
+  const [settings, setSettings] = useState<Settings>(defaultSettings);
+  const [focusSession, setFocusSession] = useState<FocusSession | null>(null);
+  const [rollover, setRollover] = useState<RolloverState>(emptyRolloverState);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(defaultAlertSettings);
+  const [soundFiles, setSoundFiles] = useState<SoundFile[]>([]);
+  const [audioBlocked, setAudioBlocked] = useState(false);
+  const [history, setHistory] = useState<History>(emptyHistory);
+  const [toast, setToast] = useState<{ id: string; message: string; action: "undo" | "redo" } | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
+  const [workerReady, setWorkerReady] = useState(false);
+  const [isLeader, setIsLeader] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("idle");
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [pendingMutations, setPendingMutations] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | undefined>();
   const [now, setNow] = useState(() => new Date());
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const repeatCountsRef = useRef<Record<string, number>>({});
   const hasInitialisedTemplate = useRef(false);
+  const repositoryRef = useRef<TaskRepository | null>(null);
+  const remoteTasksRef = useRef<Task[] | null>(null);
+  const serverTasksRef = useRef<Task[] | null>(null);
+  const baselineRef = useRef<Task[] | null>(null);
+  const remoteTemplatesRef = useRef<Template[] | null>(null);
+  const remoteCategoriesRef = useRef<Category[] | null>(null);
+  const remoteBacklogRef = useRef<BacklogItem[] | null>(null);
+  // Timers and worker messages read the latest tasks here, so their alerts never run inside a state updater.
+  const tasksRef = useRef<Task[]>([]);
 
   const saveTasks = useCallback((draft: Task[]) => {
     setTasks(sortTasks(draft));
   }, []);
 
-  const playTone = useCallback(async () => {
-    if (typeof window === "undefined") return;
-
-    try {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new AudioContext();
-      }
-
-      const context = audioContextRef.current;
-      if (context.state === "suspended") {
-        await context.resume();
-      }
-
-      const oscillator = context.createOscillator();
-      const gain = context.createGain();
-
-      oscillator.type = "triangle";
-      oscillator.frequency.setValueAtTime(880, context.currentTime);
+  useEffect(() => {
+    tasksRef.current = tasks;
+  }, [tasks]);
 
-      gain.gain.setValueAtTime(0.0001, context.currentTime);
-      gain.gain.exponentialRampToValueAtTime(0.2, context.currentTime + 0.02);
-      gain.gain.exponentialRampToValueAtTime(0.0001, context.currentTime + 1.1);
+  const format = useMemo(() => displayFormatOf(settings), [settings]);
 
-      oscillator.connect(gain);
-      gain.connect(context.destination);
+  // Every alert sound goes through the user's alert settings, so mute and quiet hours apply everywhere.
+  const playAlertSound = useCallback(
+    async (occurrence: TaskFields | null, repeat = 0) => {
+      if (typeof window === "undefined") return;
+      const planned = alertSound(alertSettings, occurrence, new Date(), repeat);
+      if (!planned) return;
+      const result = await playSound(planned.sound, planned.volume);
+      if (result === "blocked") setAudioBlocked(true);
+    },
+    [alertSettings],
+  );
 
-      oscillator.start();
-      oscillator.stop(context.currentTime + 1.2);
-    } catch (error) {
-      console.error("Unable to play notification chime", error);
-    }
-  }, []);
+  const pushAlert = useCallback(
+    (task: TaskOccurrence, offset: number, missed = false) => {
+      const message = missed ? `Missed while away: ${task.title}` : reminderMessage(task, offset, format);
+      const alert = createAlert(task, offset, message, missed, new Date());
+      setAlerts((current) => logAlert(current, alert));
+    },
+    [format],
+  );
 
   const triggerNotification = useCallback(
-    (task: Task) => {
-      const scheduled = combineDateTime(task.date, task.time);
-      const message = `${task.title} starts at ${formatTimeLabel(scheduled)}${
-        task.remindBefore ? ` (notified ${task.remindBefore} min early)` : ""
-      }`;
-
-      setAlerts((current) => {
-        if (current.some((item) => item.taskId === task.id)) {
-          return current;
-        }
-        return [
-          ...current,
-          {
-            id: createId(),
-            taskId: task.id,
-            message,
-            scheduledAt: scheduled.toISOString(),
-          },
-        ];
-      });
+    (task: TaskOccurrence, offset: number) => {
+      pushAlert(task, offset);
 
       if (typeof window !== "undefined" && "Notification" in window) {
         if (Notification.permission === "granted") {
           new Notification(task.title, {
-            body: message,
-            tag: task.id,
+            body: reminderMessage(task, offset, format),
+            tag: reminderKey(task.key, offset),
+            requireInteraction: priorityOf(task) === "high",
+            silent: isSilenced(alertSettings, new Date(), priorityOf(task) === "high"),
           });
         }
       }
 
-      playTone();
+      playAlertSound(task);
     },
-    [playTone],
+    [alertSettings, format, playAlertSound, pushAlert],
+  );
+
+  const applyWorkerActions = useCallback(
+    (actions: WorkerAction[]) => {
+      if (actions.length === 0) return;
+
+      actions.forEach((action) => {
+        const occurrence = findOccurrence(tasksRef.current, action.occurrenceKey, action.date);
+        if (!occurrence) return;
+
+        switch (action.type) {
+          case "notified":
+            pushAlert(occurrence, action.offset);
+            playAlertSound(occurrence);
+            break;
+          case "missed":
+            pushAlert(occurrence, action.offset, true);
+            break;
+          case "snoozed":
+            setAlerts((log) =>
+              snoozeMatchingAlert(log, action.occurrenceKey, action.offset, new Date(action.until ?? action.at), new Date(action.at)),
+            );
+            break;
+        }
+      });
+
+      setTasks((current) => {
+        const next = actions.reduce((draft, action) => {
+          const occurrence = findOccurrence(draft, action.occurrenceKey, action.date);
+          if (!occurrence) return draft;
+          const at = new Date(action.at).toISOString();
+          const { occurrenceKey, date, offset } = action;
+
+          switch (action.type) {
+            case "notified":
+              return updateReminderDelivery(draft, occurrenceKey, date, offset, { state: "delivered", at });
+            case "missed":
+              return updateReminderDelivery(draft, occurrenceKey, date, offset, { state: "missed", at });
+            case "completed":
+              return applyOccurrenceUpdate(draft, occurrence, markCompleted(true, new Date(action.at)));
+            case "snoozed":
+              return updateReminderDelivery(draft, occurrenceKey, date, offset, {
+                state: "snoozed",
+                at,
+                snoozedUntil: new Date(action.until ?? action.at).toISOString(),
+              });
+          }
+        }, current);
+
+        return next === current ? current : sortTasks(next);
+      });
+    },
+    [playAlertSound, pushAlert],
   );
 
   const ensureTemplate = useCallback(
     (targetDate: string) => {
       if (hasInitialisedTemplate.current) return;
-      const blueprint = templateBlueprint.map((entry) => ({
-        id: createId(),
-        title: entry.title,
-        description: entry.description,
-        date: targetDate,
-        time: entry.time,
-        remindBefore: entry.remindBefore,
-        completed: false,
-        notified: false,
-      }));
-      saveTasks(blueprint);
+      const template = settings.autoSeedTemplate
+        ? (templates.find((item) => item.id === settings.seedTemplateId) ?? templates[0])
+        : undefined;
+      if (template) {
+        saveTasks(createTasksFromTemplate(template, targetDate));
+      }
       hasInitialisedTemplate.current = true;
     },
-    [saveTasks],
+    [saveTasks, templates, settings.autoSeedTemplate, settings.seedTemplateId],
   );
 
   useEffect(() => {
@@ -220,25 +425,192 @@ export default function Home() {
       return;
     }
 
-    const stored = window.localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed: Task[] = JSON.parse(stored);
-        startTransition(() => {
-          saveTasks(parsed);
-        });
-        hasInitialisedTemplate.current = true;
-      } catch (error) {
-        console.warn("Unable to read stored tasks, resetting", error);
-        window.localStorage.removeItem(STORAGE_KEY);
-      }
+    const storedTemplates = loadCollection<Template>(templateSchema);
+    if (storedTemplates.found) {
+      startTransition(() => {
+        setTemplates(storedTemplates.records);
+      });
+    }
+
+    const storedCategories = loadCollection<Category>(categorySchema);
+    if (storedCategories.found) {
+      startTransition(() => {
+        setCategories(storedCategories.records);
+      });
+    }
+
+    const storedBacklog = loadCollection<BacklogItem>(backlogSchema);
+    if (storedBacklog.found) {
+      startTransition(() => {
+        setBacklog(storedBacklog.records);
+      });
     }
 
+    const storedSettings = readSettings();
     startTransition(() => {
-      setIsHydrated(true);
+      setSettings(storedSettings);
+      setFormState((prev) => ({ ...prev, reminders: storedSettings.defaultReminders, timeZone: deviceTimeZone() }));
     });
+
+    let cancelled = false;
+    let unsubscribe = () => {};
+    openTaskRepository().then(async (repository) => {
+      const storedTasks = await repository.load();
+      if (cancelled) {
+        repository.close();
+        return;
+      }
+
+      repositoryRef.current = repository;
+      unsubscribe = repository.subscribe((records) => {
+        const next = sortTasks(records);
+        remoteTasksRef.current = next;
+        setTasks(next);
+      });
+      if (storedTasks.found) {
+        hasInitialisedTemplate.current = true;
+      }
+      seedOutbox(storedTasks.records);
+
+      startTransition(() => {
+        saveTasks(storedTasks.records);
+        setQuarantined(readQuarantine());
+        setBackups(readBackups());
+        setPendingMutations(readOutbox().length);
+        setLastSyncedAt(readSyncState().lastSyncedAt);
+        setFocusSession(readFocusSession());
+        setRollover(readRolloverState());
+        setHistory(readHistory());
+        setAlertSettings(readAlertSettings());
+        setAlerts(readAlertLog());
+        setIsHydrated(true);
+      });
+    });
+
+    const handleTemplatesStorage = (event: StorageEvent) => {
+      if (event.key !== templateSchema.key) return;
+      const next = loadCollection<Template>(templateSchema).records;
+      remoteTemplatesRef.current = next;
+      setTemplates(next);
+    };
+    window.addEventListener("storage", handleTemplatesStorage);
+
+    const handleCategoriesStorage = (event: StorageEvent) => {
+      if (event.key !== categorySchema.key) return;
+      const next = loadCollection<Category>(categorySchema).records;
+      remoteCategoriesRef.current = next;
+      setCategories(next);
+    };
+    window.addEventListener("storage", handleCategoriesStorage);
+
+    const handleBacklogStorage = (event: StorageEvent) => {
+      if (event.key !== backlogSchema.key) return;
+      const next = loadCollection<BacklogItem>(backlogSchema).records;
+      remoteBacklogRef.current = next;
+      setBacklog(next);
+    };
+    window.addEventListener("storage", handleBacklogStorage);
+
+    const handleFocusStorage = (event: StorageEvent) => {
+      if (event.key === FOCUS_SESSION_STORAGE_KEY) setFocusSession(readFocusSession());
+    };
+    window.addEventListener("storage", handleFocusStorage);
+
+    const handleRolloverStorage = (event: StorageEvent) => {
+      if (event.key === ROLLOVER_STORAGE_KEY) setRollover(readRolloverState());
+    };
+    window.addEventListener("storage", handleRolloverStorage);
+
+    const handleAlertSettingsStorage = (event: StorageEvent) => {
+      if (event.key === ALERT_SETTINGS_STORAGE_KEY) setAlertSettings(readAlertSettings());
+    };
+    window.addEventListener("storage", handleAlertSettingsStorage);
+
+    const handleSettingsStorage = (event: StorageEvent) => {
+      if (event.key === SETTINGS_STORAGE_KEY) setSettings(readSettings());
+    };
+    window.addEventListener("storage", handleSettingsStorage);
+
+    const handleAlertsStorage = (event: StorageEvent) => {
+      if (event.key === ALERTS_STORAGE_KEY) setAlerts(readAlertLog());
+    };
+    window.addEventListener("storage", handleAlertsStorage);
+
+    listSoundFiles()
+      .then((files) => {
+        if (!cancelled) setSoundFiles(files);
+      })
+      .catch((error) => console.warn("Unable to read uploaded sounds", error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener("storage", handleTemplatesStorage);
+      window.removeEventListener("storage", handleCategoriesStorage);
+      window.removeEventListener("storage", handleBacklogStorage);
+      window.removeEventListener("storage", handleFocusStorage);
+      window.removeEventListener("storage", handleRolloverStorage);
+      window.removeEventListener("storage", handleAlertSettingsStorage);
+      window.removeEventListener("storage", handleSettingsStorage);
+      window.removeEventListener("storage", handleAlertsStorage);
+      repositoryRef.current?.close();
+      repositoryRef.current = null;
+    };
   }, [saveTasks]);
 
+  useEffect(() => electLeader(setIsLeader), []);
+
+  const runSync = useCallback(async () => {
+    setSyncStatus("syncing");
+    try {
+      const result = await syncWithServer();
+      if (result.status !== "synced") {
+        setSyncStatus(result.status);
+        return;
+      }
+
+      const { changes, conflicts } = result.response;
+      if (changes.length > 0) {
+        setTasks((current) => {
+          const next = mergeServerChanges(current, changes, result.pending);
+          serverTasksRef.current = next;
+          return next;
+        });
+      }
+      if (conflicts.length > 0) {
+        setSyncConflicts((current) => [...current, ...conflicts]);
+      }
+      setPendingMutations(result.pending.length);
+      setLastSyncedAt(readSyncState().lastSyncedAt);
+      setSyncStatus("idle");
+    } catch (error) {
+      // Whatever went wrong, the next tick tries again rather than leaving the panel stuck on "syncing".
+      console.error("Unable to sync", error);
+      setSyncStatus("error");
+    }
+  }, []);
+
+  // The leader tab talks to the server for every open tab; the others only queue their changes.
+  useEffect(() => {
+    if (!isHydrated || !isLeader) return;
+
+    const first = window.setTimeout(runSync, 0);
+    const interval = window.setInterval(runSync, 1000 * 30);
+    window.addEventListener("online", runSync);
+
+    return () => {
+      window.clearTimeout(first);
+      window.clearInterval(interval);
+      window.removeEventListener("online", runSync);
+    };
+  }, [isHydrated, isLeader, runSync]);
+
+  useEffect(() => {
+    if (!isLeader || pendingMutations === 0) return;
+    const timeout = window.setTimeout(runSync, 2000);
+    return () => window.clearTimeout(timeout);
+  }, [isLeader, pendingMutations, runSync]);
+
   useEffect(() => {
     if (!isHydrated) return;
 
@@ -253,41 +625,271 @@ export default function Home() {
 
   useEffect(() => {
     if (!isHydrated) return;
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
+    const previous = baselineRef.current;
+    baselineRef.current = tasks;
+    // Changes that arrived from another tab are already stored and queued there.
+    if (tasks === remoteTasksRef.current) return;
+    repositoryRef.current?.save(tasks).catch((error) => console.error("Unable to save tasks", error));
+    if (previous && tasks !== serverTasksRef.current) {
+      const pending = enqueueMutations(diffTasks(previous, tasks, new Date().getTime()));
+      startTransition(() => {
+        setPendingMutations(pending);
+      });
+    }
   }, [tasks, isHydrated]);
 
+  useEffect(() => {
+    if (!isHydrated || templates === remoteTemplatesRef.current) return;
+    saveCollection(templateSchema, templates);
+  }, [templates, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated || categories === remoteCategoriesRef.current) return;
+    saveCollection(categorySchema, categories);
+  }, [categories, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated || backlog === remoteBacklogRef.current) return;
+    saveCollection(backlogSchema, backlog);
+  }, [backlog, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    writeFocusSession(focusSession);
+  }, [focusSession, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    writeRolloverState(rollover);
+  }, [rollover, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    writeAlertSettings(alertSettings);
+  }, [alertSettings, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    writeSettings(settings);
+  }, [settings, isHydrated]);
+
   useEffect(() => {
     if (!isHydrated) return;
+    writeAlertLog(alerts);
+  }, [alerts, isHydrated]);
+
+  // The leader closes alerts whose activity was deleted, moved or finished, whichever tab made the change.
+  useEffect(() => {
+    if (!isHydrated || !isLeader) return;
+    startTransition(() => {
+      setAlerts((current) => reconcileAlerts(current, tasks, new Date()));
+    });
+  }, [tasks, isHydrated, isLeader]);
+
+  useEffect(() => {
+    if (!highlightedKey) return;
+    document.getElementById(`occurrence-${highlightedKey}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = window.setTimeout(() => setHighlightedKey(null), TOAST_MS);
+    return () => window.clearTimeout(timeout);
+  }, [highlightedKey]);
+
+  // "system" follows the OS appearance live, so a scheduled dark mode switches the page with it.
+  useEffect(() => {
+    const root = document.documentElement;
+    const media = window.matchMedia("(prefers-color-scheme: light)");
+    const applyTheme = () => {
+      root.dataset.theme = settings.theme === "system" ? (media.matches ? "light" : "dark") : settings.theme;
+    };
+    applyTheme();
+    if (settings.theme !== "system") return;
+    media.addEventListener("change", applyTheme);
+    return () => media.removeEventListener("change", applyTheme);
+  }, [settings.theme]);
+
+  // Unacknowledged alerts ring again on an interval; all open alerts share one count so several never ring at once.
+  useEffect(() => {
+    const { repeat } = alertSettings;
+    if (!isLeader || !repeat.enabled) return;
+    const ringing = alerts.filter((alert) => isOpenAlert(alert) && !alert.missed);
+    if (ringing.length === 0) return;
 
     const interval = window.setInterval(() => {
-      const now = new Date();
-      const nowTime = now.getTime();
+      const counts = repeatCountsRef.current;
+      const pending = ringing.filter((alert) => (counts[alert.id] ?? 0) < repeat.maxRepeats);
+      const latest = pending[pending.length - 1];
+      if (!latest) {
+        window.clearInterval(interval);
+        return;
+      }
+      const count = (counts[latest.id] ?? 0) + 1;
+      pending.forEach((alert) => {
+        counts[alert.id] = Math.max(counts[alert.id] ?? 0, count);
+      });
+      playAlertSound(findOccurrence(tasks, latest.occurrenceKey, latest.date), count);
+    }, repeat.intervalSeconds * 1000);
 
-      setTasks((current) => {
-        let touched = false;
-        const next = current.map((task) => {
-          if (task.completed || task.notified) {
-            return task;
-          }
+    return () => window.clearInterval(interval);
+  }, [alerts, alertSettings, isLeader, playAlertSound, tasks]);
 
-          const scheduled = combineDateTime(task.date, task.time);
-          const triggerTime = scheduled.getTime() - task.remindBefore * 60 * 1000;
+  useEffect(() => {
+    if (!isHydrated) return;
+    writeHistory(history);
+  }, [history, isHydrated]);
 
-          if (nowTime >= triggerTime) {
-            touched = true;
-            triggerNotification(task);
-            return { ...task, notified: true };
-          }
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = window.setTimeout(() => setToast(null), TOAST_MS);
+    return () => window.clearTimeout(timeout);
+  }, [toast]);
 
-          return task;
-        });
+  const today = formatDateInput(now);
+
+  // Once per day the leader carries unfinished work forward; "ask" items wait for an answer in the panel.
+  useEffect(() => {
+    if (!isHydrated || !isLeader || rollover.lastRun === today) return;
+    const plan = planDayStart(tasks, new Date());
+    const { tasks: next, batch } = applyRollover(tasks, plan.roll, "dayStart", new Date());
+    startTransition(() => {
+      if (batch) setTasks(next);
+      setRollover((current) => ({
+        ...(batch ? logRollover(current, batch) : current),
+        lastRun: today,
+        asking: plan.ask.map((occurrence) => ({ key: occurrence.key, date: occurrence.date })),
+      }));
+    });
+  }, [isHydrated, isLeader, rollover.lastRun, tasks, today]);
+
+  const pendingToday = useMemo(() => pendingCountOn(tasks, today), [tasks, today]);
+
+  // Installed apps show how much of today is still open on their icon.
+  useEffect(() => {
+    if (!isHydrated) return;
+    updateAppBadge(pendingToday);
+  }, [isHydrated, pendingToday]);
+
+  // The logged total is absolute, so every tab that sees the session end writes the same value.
+  const recordFocus = useCallback((session: FocusSession, at: number, complete: boolean) => {
+    setTasks((current) => {
+      const occurrence = findOccurrence(current, session.occurrenceKey, session.date);
+      if (!occurrence) return current;
+      return sortTasks(
+        applyOccurrenceUpdate(current, occurrence, {
+          focusMinutes: totalFocusMinutes(session, at),
+          ...(complete && !occurrence.completed ? markCompleted(true, new Date(at)) : {}),
+        }),
+      );
+    });
+  }, []);
 
-        return touched ? sortTasks(next) : current;
+  useEffect(() => {
+    if (!focusSession || focusSession.pausedAt) return;
+    const timeout = window.setTimeout(
+      () => {
+        const at = new Date().getTime();
+        const { session, transitions, finished } = advanceFocusSession(focusSession, at);
+        if (isLeader && (finished || transitions.length > 0)) playAlertSound(null);
+        if (finished) {
+          recordFocus(session, at, true);
+          setFocusSession(null);
+        } else {
+          setFocusSession(session);
+        }
+      },
+      Math.max(0, phaseEndsAt(focusSession) - new Date().getTime()),
+    );
+    return () => window.clearTimeout(timeout);
+  }, [focusSession, isLeader, playAlertSound, recordFocus]);
+
+  useEffect(() => {
+    if (!isHydrated || !isLeader) return;
+    const now = new Date();
+    // The listed backups rule out most edits; storage is only read, and checked again, once one looks due.
+    if (!isScheduledBackupDue(now, backups)) return;
+    if (maybeCreateScheduledBackup(now, () => snapshotPayloads({ tasks, templates, categories, backlog, settings }))) {
+      startTransition(() => {
+        setBackups(readBackups());
       });
-    }, 1000 * 30);
+    }
+  }, [tasks, templates, categories, backlog, settings, backups, isHydrated, isLeader]);
+
+  useEffect(() => {
+    if (!isHydrated || !isLeader) return;
+
+    const checkReminders = () => {
+      // The worker owns the schedule when it is available; the page only keeps it awake.
+      if (workerReady) {
+        postToReminderWorker({ type: "tick" });
+        return;
+      }
+
+      const now = new Date();
+      const at = now.toISOString();
+      const { due, missed } = collectDueReminders(tasksRef.current, now);
+      if (due.length === 0 && missed.length === 0) {
+        return;
+      }
+
+      due.forEach(({ occurrence, offset }) => triggerNotification(occurrence, offset));
+      missed.forEach(({ occurrence, offset }) => pushAlert(occurrence, offset, true));
+
+      setTasks((current) => {
+        const afterDue = due.reduce(
+          (draft, { occurrence, offset }) =>
+            updateReminderDelivery(draft, occurrence.key, occurrence.date, offset, { state: "delivered", at }),
+          current,
+        );
+        const next = missed.reduce(
+          (draft, { occurrence, offset }) =>
+            updateReminderDelivery(draft, occurrence.key, occurrence.date, offset, { state: "missed", at }),
+          afterDue,
+        );
+
+        return sortTasks(next);
+      });
+    };
+
+    const interval = window.setInterval(checkReminders, 1000 * settings.pollSeconds);
 
     return () => window.clearInterval(interval);
-  }, [isHydrated, triggerNotification]);
+  }, [isHydrated, isLeader, workerReady, triggerNotification, pushAlert, settings.pollSeconds]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    let cancelled = false;
+    registerReminderWorker().then((registration) => {
+      if (cancelled || !registration) return;
+      setWorkerReady(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isHydrated]);
+
+  // Only the leader tab drains the worker outbox, so each chime and alert happens in one tab.
+  useEffect(() => {
+    if (!workerReady || !isLeader) return;
+
+    const handleMessage = (event: MessageEvent<WorkerMessage>) => {
+      if (event.data?.type === "actions") applyWorkerActions(event.data.actions);
+      if (event.data?.type === "sync") postToReminderWorker({ type: "drain" });
+    };
+
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    postToReminderWorker({ type: "drain" });
+
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+  }, [workerReady, isLeader, applyWorkerActions]);
+
+  useEffect(() => {
+    if (!workerReady || !isLeader) return;
+    const entries = buildReminderSchedule(tasks, new Date(), format).map((entry) => ({
+      ...entry,
+      silent: isSilenced(alertSettings, new Date(entry.fireAt), entry.urgent),
+    }));
+    postToReminderWorker({ type: "schedule", entries });
+  }, [tasks, workerReady, isLeader, alertSettings, format]);
 
   useEffect(() => {
     if (!isHydrated) return;
@@ -304,26 +906,112 @@ export default function Home() {
   useEffect(() => {
     const tick = window.setInterval(() => {
       setNow(new Date());
-    }, 1000 * 30);
+    }, 1000 * settings.pollSeconds);
 
     return () => window.clearInterval(tick);
-  }, []);
+  }, [settings.pollSeconds]);
+
+  const selectedDayTasks = useMemo(() => expandTasks(tasks, selectedDate, selectedDate), [tasks, selectedDate]);
 
-  const selectedDayTasks = useMemo(() => tasks.filter((task) => task.date === selectedDate), [tasks, selectedDate]);
+  const visibleDayTasks = useMemo(
+    () => filterOccurrences(selectedDayTasks, filter, categories),
+    [selectedDayTasks, filter, categories],
+  );
+
+  // Blocks from a neighbouring day or zone can spill into the selected day, so layout and overlaps look one day either side.
+  const dayNeighbourhood = useMemo(() => occurrencesAround(tasks, selectedDate, selectedDate), [tasks, selectedDate]);
+
+  const visibleDayBlocks = useMemo(
+    () => filterOccurrences(dayNeighbourhood, filter, categories),
+    [dayNeighbourhood, filter, categories],
+  );
+
+  const filterActive = isFilterActive(filter);
+
+  const searchResults = useMemo(
+    () => (filterScope === "all" && filterActive ? searchAllDates(tasks, filter, categories, today) : []),
+    [filterScope, filterActive, tasks, filter, categories, today],
+  );
+
+  const allTags = useMemo(() => collectTags(tasks), [tasks]);
+
+  const timeZones = useMemo(() => timeZoneOptions(), []);
+
+  const categoryCounts = useMemo(
+    () =>
+      tasks.reduce<Record<string, number>>((counts, task) => {
+        if (task.categoryId) counts[task.categoryId] = (counts[task.categoryId] ?? 0) + 1;
+        return counts;
+      }, {}),
+    [tasks],
+  );
+
+  const calendarDates = useMemo(
+    () =>
+      calendarView === "month"
+        ? monthWeeks(selectedDate, settings.weekStartsOn).flat()
+        : weekDates(selectedDate, settings.weekStartsOn),
+    [calendarView, selectedDate, settings.weekStartsOn],
+  );
 
+  const calendarOccurrences = useMemo(
+    () => occurrencesAround(tasks, calendarDates[0], calendarDates[calendarDates.length - 1]),
+    [tasks, calendarDates],
+  );
+
+  // Stats follow the active filters, so filtering by a category counts only that slice of the day.
   const stats = useMemo(() => {
-    const total = selectedDayTasks.length;
-    const completed = selectedDayTasks.filter((task) => task.completed).length;
+    const activeTasks = visibleDayTasks.filter((task) => !task.skipped);
+    const total = activeTasks.length;
+    const { completed, onTime, late } = tallyOccurrences(activeTasks);
     const pending = total - completed;
-    const nextTask = getSoonestTask(selectedDayTasks);
+    const nextTask = getSoonestTask(activeTasks);
+    const checklist = checklistProgress(activeTasks);
+    const plannedMinutes = dayDensity(selectedDate, visibleDayBlocks).busyMinutes;
+    const freeMinutes = findFreeGaps(visibleDayBlocks, selectedDate, DEFAULT_DAY_START, DEFAULT_DAY_END, 1).reduce(
+      (sum, gap) => sum + gap.end - gap.start,
+      0,
+    );
 
     return {
       total,
       completed,
+      onTime,
+      late,
       pending,
       nextTask,
+      checklist,
+      plannedMinutes,
+      freeMinutes,
     };
-  }, [selectedDayTasks]);
+  }, [visibleDayTasks, visibleDayBlocks, selectedDate]);
+
+  const overdue = useMemo(() => overdueOccurrences(tasks, now), [tasks, now]);
+
+  const rolloverQuestions = useMemo(
+    () =>
+      rollover.asking.flatMap(({ key, date }) => {
+        const occurrence = findOccurrence(tasks, key, date);
+        return occurrence && !occurrence.completed && !occurrence.skipped ? [occurrence] : [];
+      }),
+    [rollover.asking, tasks],
+  );
+
+  const dayOverlaps = useMemo(() => findOverlaps(dayNeighbourhood), [dayNeighbourhood]);
+
+  const formDraft = {
+    date: formState.date,
+    time: formState.time,
+    timeZone: isValidTimeZone(formState.timeZone) ? formState.timeZone : undefined,
+    duration: formState.duration,
+  };
+  const formZoneHint =
+    formState.date && formState.time && isValidTimeZone(formState.timeZone)
+      ? zoneHint({ date: formState.date, time: formState.time, timeZone: formState.timeZone }, format)
+      : null;
+  const formNeighbourhood = formState.date ? occurrencesAround(tasks, formState.date, formState.date) : [];
+  const formConflicts = formState.date && formState.time ? findConflicts(formDraft, formNeighbourhood) : [];
+  const formResolutions = formConflicts.length > 0 ? resolutionOptions(formDraft, formNeighbourhood, undefined, format) : [];
 
   const requestNotifications = async () => {
     if (typeof window === "undefined" || !("Notification" in window)) return;
@@ -335,45 +1023,154 @@ export default function Home() {
     }
   };
 
-  const resetTemplateForDay = (date: string) => {
-    const blueprint = templateBlueprint.map((entry) => ({
-      id: createId(),
-      title: entry.title,
-      description: entry.description,
-      date,
-      time: entry.time,
-      remindBefore: entry.remindBefore,
-      completed: false,
-      notified: false,
-    }));
+  const handleTemplateApply = (template: Template, dates: string[], mode: ApplyMode) => {
+    const days = dates.length === 1 ? formatDateLabel(dates[0], format) : `${dates.length} days`;
+    commitTasks(
+      mode === "replace" ? `Replace ${days} with ${template.name}` : `Apply ${template.name} to ${days}`,
+      (current) => applyTemplate(current, template, dates, mode),
+      mode === "replace",
+    );
+  };
 
-    setTasks((prev) => {
-      const filtered = prev.filter((task) => task.date !== date);
-      return sortTasks([...filtered, ...blueprint]);
-    });
+  const handleSaveDayAsTemplate = (name: string) => {
+    const template = createTemplateFromDay(name, selectedDayTasks);
+    setTemplates((prev) => [...prev, template]);
+    return template;
+  };
+
+  const handleCalendarImport = (entries: ImportPreviewEntry[]) => {
+    commitTasks(`Import ${entries.length} events`, (current) => commitImport(current, entries));
+  };
+
+  const handleCsvImport = (result: CsvImportResult) => {
+    commitTasks("Import spreadsheet", () => result.tasks);
+  };
+
+  // The current state is kept as a local backup first, so a bad file can be undone from storage recovery.
+  const handleDataRestore = (plan: RestorePlan) => {
+    createBackup("before-restore", snapshotPayloads({ tasks, templates, categories, backlog, settings }));
+    hasInitialisedTemplate.current = true;
+    commitTasks("Restore backup file", () => sortTasks(plan.data.tasks), true);
+    setTemplates(plan.data.templates);
+    setCategories(plan.data.categories);
+    setBacklog(plan.data.backlog);
+    setSettings(plan.data.settings);
+    setBackups(readBackups());
+  };
+
+  const handleBackupNow = () => {
+    createBackup("scheduled", snapshotPayloads({ tasks, templates, categories, backlog, settings }));
+    setBackups(readBackups());
+  };
+
+  const handleBackupRestore = (backupId: string) => {
+    const restored = restoreBackup(backupId, snapshotPayloads({ tasks, templates, categories, backlog, settings }));
+    if (!restored) return;
+    hasInitialisedTemplate.current = true;
+    if (restored.tasks) {
+      saveTasks(restored.tasks.records);
+    }
+    if (restored.templates) {
+      setTemplates(restored.templates.records);
+    }
+    if (restored.categories) {
+      setCategories(restored.categories.records);
+    }
+    if (restored.backlog) {
+      setBacklog(restored.backlog.records);
+    }
+    if (restored.settings) {
+      setSettings(restored.settings);
+    }
+    setQuarantined(readQuarantine());
+    setBackups(readBackups());
+  };
+
+  const handleQuarantineClear = () => {
+    clearQuarantine();
+    setQuarantined([]);
   };
 
   const acknowledgeAlert = (alertId: string) => {
-    setAlerts((current) => current.filter((item) => item.id !== alertId));
+    setAlerts((current) => resolveAlert(current, alertId, "dismissed", new Date()));
   };
 
-  const handleTaskCompletion = (taskId: string, completed: boolean) => {
+  const snoozeAlert = (alert: Alert, minutes: number) => {
+    const now = new Date();
+    const snoozedUntil = new Date(now.getTime() + minutes * 60 * 1000).toISOString();
     setTasks((prev) =>
-      sortTasks(
-        prev.map((task) =>
-          task.id === taskId
-            ? {
-                ...task,
-                completed,
-              }
-            : task,
-        ),
-      ),
+      updateReminderDelivery(prev, alert.occurrenceKey, alert.date, alert.offset, {
+        state: "snoozed",
+        at: now.toISOString(),
+        snoozedUntil,
+      }),
     );
+    setAlerts((current) => resolveAlert(current, alert.id, "snoozed", now, { snoozedUntil }));
   };
 
-  const handleTaskRemoval = (taskId: string) => {
-    setTasks((prev) => prev.filter((task) => task.id !== taskId));
+  // Falls back to the task's own date when the occurrence has moved since the alert fired.
+  const handleAlertJump = (alert: Alert) => {
+    const occurrence = findOccurrence(tasks, alert.occurrenceKey, alert.date);
+    const date = occurrence?.date ?? tasks.find((task) => task.id === alert.taskId)?.date;
+    if (!date) return;
+    setSelectedDate(date);
+    setCalendarView("day");
+    setDayMode("list");
+    setHighlightedKey(occurrence?.key ?? alert.taskId);
+  };
+
+  const handleAlertComplete = (alert: Alert) => {
+    const occurrence = findOccurrence(tasks, alert.occurrenceKey, alert.date);
+    if (!occurrence) return;
+    handleTaskCompletion(occurrence, true);
+    setAlerts((current) => resolveAlert(current, alert.id, "completed", new Date(), { note: "Marked done" }));
+  };
+
+  const scopeFor = (occurrence: TaskOccurrence) => editScopes[occurrence.key] ?? "single";
+
+  // Every user edit to the plan goes through here so it can be undone; background updates bypass history.
+  const commitTasks = (label: string, update: (current: Task[]) => Task[], destructive = false) => {
+    const next = update(tasks);
+    if (next === tasks) return;
+    setTasks(next);
+    setHistory((current) => recordHistory(current, label, tasks, next));
+    if (destructive) setToast({ id: createId(), message: label, action: "undo" });
+  };
+
+  const handleUndo = useCallback(() => {
+    const step = undoHistory(history, tasks);
+    if (!step) return;
+    setTasks(step.tasks);
+    setHistory(step.history);
+    setToast({ id: createId(), message: `Undone: ${step.entry.label}`, action: "redo" });
+  }, [history, tasks]);
+
+  const handleRedo = useCallback(() => {
+    const step = redoHistory(history, tasks);
+    if (!step) return;
+    setTasks(step.tasks);
+    setHistory(step.history);
+    setToast({ id: createId(), message: `Redone: ${step.entry.label}`, action: "undo" });
+  }, [history, tasks]);
+
+  const handleTaskCompletion = (occurrence: TaskOccurrence, completed: boolean) => {
+    commitTasks(`${completed ? "Complete" : "Reopen"} ${occurrence.title}`, (current) =>
+      sortTasks(applyOccurrenceUpdate(current, occurrence, markCompleted(completed))),
+    );
+  };
+
+  const handleTaskRemoval = (occurrence: TaskOccurrence) => {
+    commitTasks(
+      `Remove ${occurrence.title}`,
+      (current) => removeOccurrence(current, occurrence, scopeFor(occurrence)),
+      true,
+    );
+  };
+
+  const handleOccurrenceSkip = (occurrence: TaskOccurrence, skipped: boolean) => {
+    commitTasks(`${skipped ? "Skip" : "Restore"} ${occurrence.title}`, (current) =>
+      applyOccurrenceUpdate(current, occurrence, { skipped }),
+    );
   };
 
   const handleFormSubmit = (event: FormEvent<HTMLFormElement>) => {
@@ -382,43 +1179,212 @@ export default function Home() {
       return;
     }
 
+    const tags = normalizeTags(formState.tags);
+    const checklist = parseChecklist(formState.checklist);
     const newTask: Task = {
       id: createId(),
       title: formState.title.trim(),
       description: formState.description.trim(),
       date: formState.date,
       time: normalizeTimeValue(formState.time),
-      remindBefore: formState.remindBefore,
+      timeZone: isValidTimeZone(formState.timeZone) ? formState.timeZone : deviceTimeZone(),
+      duration: formState.duration,
+      reminders: formState.reminders,
+      deliveries: {},
       completed: false,
-      notified: false,
+      categoryId: formState.categoryId || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      priority: formState.priority === "normal" ? undefined : formState.priority,
+      checklist: checklist.length > 0 ? checklist : undefined,
+      autoComplete: checklist.length > 0 ? formState.autoComplete : undefined,
+      recurrence: buildRecurrenceRule(recurrenceDraft, formState.date),
     };
 
-    setTasks((prev) => sortTasks([...prev, newTask]));
+    commitTasks(`Add ${newTask.title}`, (current) => sortTasks([...current, newTask]));
+    setRecurrenceDraft(defaultRecurrenceDraft);
 
     setFormState((prev) => ({
       ...prev,
       title: "",
       description: "",
       time: "",
+      tags: "",
+      checklist: "",
     }));
   };
 
-  const handleTaskUpdate = (taskId: string, updates: Partial<Omit<Task, "id">>) => {
-    setTasks((prev) =>
-      sortTasks(
-        prev.map((task) =>
-          task.id === taskId
-            ? {
-                ...task,
-                ...updates,
-                notified: updates.time || updates.date ? false : task.notified,
-              }
-            : task,
-        ),
-      ),
+  const handleFocusStart = (occurrence: TaskOccurrence, mode: FocusMode) => {
+    const at = new Date().getTime();
+    if (focusSession) recordFocus(focusSession, at, false);
+    setFocusSession(startFocusSession(occurrence, mode, at));
+    playAlertSound(null);
+  };
+
+  const handleFocusStop = (complete: boolean) => {
+    if (!focusSession) return;
+    recordFocus(focusSession, new Date().getTime(), complete);
+    setFocusSession(null);
+  };
+
+  const commitRollover = (moves: RolloverMove[], reason: RolloverReason) => {
+    const { tasks: next, batch } = applyRollover(tasks, moves, reason, new Date());
+    if (!batch) return;
+    const label =
+      moves.length === 1 ? `${rolloverReasonLabels[reason]}: ${moves[0].title}` : `${rolloverReasonLabels[reason]}: ${moves.length} activities`;
+    commitTasks(label, () => next);
+    setRollover((current) => logRollover(current, batch));
+  };
+
+  const dismissRolloverQuestions = (keys: string[]) =>
+    setRollover((current) => ({ ...current, asking: current.asking.filter((item) => !keys.includes(item.key)) }));
+
+  const handleRolloverAnswer = (occurrence: TaskOccurrence, roll: boolean) => {
+    if (roll) commitRollover([moveTo(occurrence, today)], "ask");
+    dismissRolloverQuestions([occurrence.key]);
+  };
+
+  const handleRolloverAnswerAll = (roll: boolean) => {
+    if (roll) commitRollover(rolloverQuestions.map((occurrence) => moveTo(occurrence, today)), "ask");
+    dismissRolloverQuestions(rolloverQuestions.map((occurrence) => occurrence.key));
+  };
+
+  const handleRolloverUndo = (batch: RolloverBatch) => {
+    commitTasks("Undo rollover", (current) => undoRollover(current, batch));
+    setRollover((current) => ({ ...current, log: current.log.filter((item) => item.id !== batch.id) }));
+  };
+
+  // Series edits that apply to following occurrences shift the whole tail instead of logging a single move.
+  const handlePush = (occurrence: TaskOccurrence) => {
+    if (scopeFor(occurrence) === "following") {
+      handleTaskUpdate(occurrence, { ...markCompleted(false), date: addDays(occurrence.date, 1) }, `Push ${occurrence.title}`);
+      return;
+    }
+    commitRollover([pushMove(occurrence)], "push");
+  };
+
+  // Ticking a step only ever touches this occurrence, whatever the card's edit scope says.
+  const handleChecklistToggle = (occurrence: TaskOccurrence, checklist: ChecklistItem[]) => {
+    const updates = checklistUpdate(occurrence, checklist);
+    const label =
+      updates.completed === undefined
+        ? `Update checklist for ${occurrence.title}`
+        : `${updates.completed ? "Complete" : "Reopen"} ${occurrence.title}`;
+    commitTasks(label, (current) => sortTasks(applyOccurrenceUpdate(current, occurrence, updates, "single")));
+  };
+
+  const handleChecklistChange = (occurrence: TaskOccurrence, checklist: ChecklistItem[]) => {
+    if (checklist.length === 0) {
+      handleTaskUpdate(occurrence, { checklist: undefined, autoComplete: undefined });
+      return;
+    }
+    handleTaskUpdate(occurrence, checklistUpdate(occurrence, checklist));
+  };
+
+  const handleSoundUpload = async (file: File) => {
+    const stored = await saveSoundFile(file);
+    setSoundFiles((current) => [...current, stored]);
+  };
+
+  // Settings that pointed at a deleted upload fall back to the built-in tones; tasks fall back when they play.
+  const handleSoundDelete = (file: SoundFile) => {
+    const sound = fileSoundId(file.id);
+    deleteSoundFile(file.id).catch((error) => console.warn("Unable to delete sound", error));
+    setSoundFiles((current) => current.filter((item) => item.id !== file.id));
+    setAlertSettings((current) => ({
+      ...current,
+      defaultSound: current.defaultSound === sound ? defaultAlertSettings.defaultSound : current.defaultSound,
+      urgentSound: current.urgentSound === sound ? defaultAlertSettings.urgentSound : current.urgentSound,
+      categorySounds: Object.fromEntries(Object.entries(current.categorySounds).filter(([, value]) => value !== sound)),
+    }));
+  };
+
+  const handleSettingsChange = (next: Settings) => {
+    if (next.defaultReminders !== settings.defaultReminders) {
+      setFormState((prev) => ({ ...prev, reminders: next.defaultReminders }));
+    }
+    setSettings(next);
+  };
+
+  const handleSoundPreview = async (sound: SoundId) => {
+    const result = await playSound(sound, alertSettings.volume);
+    setAudioBlocked(result === "blocked");
+  };
+
+  const handleAudioUnlock = async () => {
+    const unlocked = await unlockAudio();
+    setAudioBlocked(!unlocked);
+    if (unlocked) playAlertSound(null);
+  };
+
+  const handleCategoryRemove = (category: Category) => {
+    setCategories((current) => current.filter((item) => item.id !== category.id));
+    if (filter.categoryId === category.id) setFilter((current) => ({ ...current, categoryId: "all" }));
+    if (formState.categoryId === category.id) setFormState((prev) => ({ ...prev, categoryId: "" }));
+    setBacklog((current) =>
+      current.map((item) => (item.categoryId === category.id ? { ...item, categoryId: undefined } : item)),
+    );
+    commitTasks(`Clear category ${category.name}`, (current) => clearCategory(current, category.id));
+  };
+
+  const handleSearchSelect = (occurrence: TaskOccurrence) => {
+    setSelectedDate(occurrence.date);
+    setCalendarView("day");
+    setDayMode("list");
+  };
+
+  const handleQuickAdd = (added: Task[]) => {
+    commitTasks(added.length === 1 ? `Add ${added[0].title}` : `Add ${added.length} activities`, (current) =>
+      sortTasks([...current, ...added]),
+    );
+  };
+
+  // Accepted proposals become ordinary activities and leave the backlog.
+  const handleBacklogAccept = (blocks: PlannedBlock[]) => {
+    const added = blocks.flatMap((block) => {
+      const item = backlog.find((candidate) => candidate.id === block.itemId);
+      return item ? [taskFromBlock(item, block, settings.defaultReminders)] : [];
+    });
+    if (added.length === 0) return;
+    commitTasks(added.length === 1 ? `Plan ${added[0].title}` : `Plan ${added.length} backlog items`, (current) =>
+      sortTasks([...current, ...added]),
     );
+    const planned = new Set(blocks.map((block) => block.itemId));
+    setBacklog((current) => current.filter((item) => !planned.has(item.id)));
+  };
+
+  const handleTaskUpdate = (
+    occurrence: TaskOccurrence,
+    updates: Partial<TaskFields>,
+    label = `Edit ${occurrence.title}`,
+  ) => {
+    commitTasks(label, (current) => sortTasks(applyOccurrenceUpdate(current, occurrence, updates, scopeFor(occurrence))));
   };
 
+  const handleTaskMove = (payload: OccurrenceDragPayload, date: string, time: string) => {
+    if (payload.date === date && payload.time === time) return;
+    const occurrence = findOccurrence(tasks, payload.key, payload.date);
+    if (!occurrence) return;
+    handleTaskUpdate(occurrence, { date, time }, `Move ${occurrence.title}`);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey || isTextEntry(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const openAlerts = alerts.filter(isOpenAlert);
+
   const allDates = useMemo(() => {
     const unique = new Set(tasks.map((task) => task.date));
     const sorted = Array.from(unique).sort((a, b) => (a > b ? 1 : -1));
@@ -439,20 +1405,49 @@ export default function Home() {
               </p>
             </div>
             <div className="flex flex-col items-start gap-2 rounded-2xl border border-white/10 bg-black/20 px-4 py-3 text-sm sm:items-end">
-              <span className="font-medium text-slate-200">{formatDateLabel(selectedDate)}</span>
-              <span className="text-xs text-slate-400">{now.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</span>
+              <span className="font-medium text-slate-200">{formatDateLabel(selectedDate, format)}</span>
+              <span className="text-xs text-slate-400">{formatTimeLabel(now, format)}</span>
+              <div className="flex gap-1">
+                <button
+                  onClick={handleUndo}
+                  disabled={history.past.length === 0}
+                  title={history.past[0] ? `Undo ${history.past[0].label} (Ctrl+Z)` : "Nothing to undo"}
+                  className="rounded-full border border-white/10 px-3 py-1 text-xs text-slate-200 transition hover:border-sky-400/40 disabled:opacity-40"
+                >
+                  ↶ Undo
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={history.future.length === 0}
+                  title={history.future[0] ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                  className="rounded-full border border-white/10 px-3 py-1 text-xs text-slate-200 transition hover:border-sky-400/40 disabled:opacity-40"
+                >
+                  Redo ↷
+                </button>
+              </div>
+              <InstallPrompt />
             </div>
           </div>
           <div className="grid gap-4 sm:grid-cols-3">
             <div className="rounded-2xl border border-white/10 bg-black/30 p-4">
               <p className="text-xs uppercase tracking-widest text-slate-400">Tasks planned</p>
               <p className="mt-2 text-3xl font-semibold">{stats.total}</p>
-              <p className="mt-1 text-xs text-slate-400">Keep your day intentional.</p>
+              <p className="mt-1 text-xs text-slate-400">
+                {formatMinutes(stats.plannedMinutes)} planned · {formatMinutes(stats.freeMinutes)} free
+              </p>
+              {filterActive && (
+                <p className="mt-1 truncate text-xs text-sky-200/80">Filtered: {describeFilter(filter, categories)}</p>
+              )}
             </div>
             <div className="rounded-2xl border border-emerald-400/20 bg-emerald-500/10 p-4">
               <p className="text-xs uppercase tracking-widest text-emerald-200">Completed</p>
               <p className="mt-2 text-3xl font-semibold text-emerald-200">{stats.completed}</p>
-              <p className="mt-1 text-xs text-emerald-200/80">Celebrate progress as you go.</p>
+              <p className="mt-1 text-xs text-emerald-200/80">
+                {stats.onTime + stats.late > 0
+                  ? `${stats.onTime} on time · ${stats.late} late`
+                  : "Celebrate progress as you go."}
+                {stats.checklist.total > 0 && ` · ${formatProgress(stats.checklist)} checklist steps`}
+              </p>
             </div>
             <div className="rounded-2xl border border-amber-400/20 bg-amber-500/10 p-4">
               <p className="text-xs uppercase tracking-widest text-amber-200">Up next</p>
@@ -460,7 +1455,7 @@ export default function Home() {
                 <div className="mt-2 text-sm text-amber-100">
                   <p className="text-base font-semibold">{stats.nextTask.title}</p>
                   <p className="text-xs text-amber-200/70">
-                    {formatTimeLabel(combineDateTime(stats.nextTask.date, stats.nextTask.time))}
+                    {formatTimeLabel(combineDateTime(stats.nextTask.date, stats.nextTask.time), format)}
                   </p>
                 </div>
               ) : (
@@ -470,9 +1465,19 @@ export default function Home() {
           </div>
         </header>
 
-        {alerts.length > 0 && (
+        {focusSession && (
+          <FocusTimer
+            session={focusSession}
+            onPause={() => setFocusSession(pauseFocusSession(focusSession, new Date().getTime()))}
+            onResume={() => setFocusSession(resumeFocusSession(focusSession, new Date().getTime()))}
+            onSkipBreak={() => setFocusSession(skipBreak(focusSession, new Date().getTime()))}
+            onStop={handleFocusStop}
+          />
+        )}
+
+        {openAlerts.length > 0 && (
           <section className="grid gap-3 rounded-3xl border border-amber-300/30 bg-amber-400/15 px-5 py-4 text-amber-950 sm:grid-cols-2">
-            {alerts.map((alert) => {
+            {openAlerts.map((alert) => {
               const scheduled = new Date(alert.scheduledAt);
               return (
                 <div
@@ -482,21 +1487,69 @@ export default function Home() {
                   <div>
                     <p className="text-sm font-semibold">{alert.message}</p>
                     <p className="text-xs text-amber-800/70">
-                      Scheduled for {scheduled.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                      {alert.missed ? "Was due at" : "Scheduled for"} {formatTimeLabel(scheduled, format)}
                     </p>
                   </div>
-                  <button
-                    onClick={() => acknowledgeAlert(alert.id)}
-                    className="rounded-full bg-amber-900/10 px-3 py-1 text-xs font-semibold text-amber-900 hover:bg-amber-900/20"
-                  >
-                    Dismiss
-                  </button>
+                  <div className="flex flex-col items-end gap-2">
+                    <button
+                      onClick={() => acknowledgeAlert(alert.id)}
+                      className="rounded-full bg-amber-900/10 px-3 py-1 text-xs font-semibold text-amber-900 hover:bg-amber-900/20"
+                    >
+                      Dismiss
+                    </button>
+                    <div className="flex flex-wrap items-center justify-end gap-1 text-xs text-amber-900">
+                      <span className="font-semibold">Snooze</span>
+                      {snoozeOptions.map((minutes) => (
+                        <button
+                          key={minutes}
+                          onClick={() => snoozeAlert(alert, minutes)}
+                          className="rounded-full bg-amber-900/10 px-2 py-0.5 font-semibold hover:bg-amber-900/20"
+                        >
+                          {minutes}m
+                        </button>
+                      ))}
+                      <input
+                        type="number"
+                        min={1}
+                        value={customSnooze[alert.id] ?? ""}
+                        onChange={(event) =>
+                          setCustomSnooze((prev) => ({ ...prev, [alert.id]: Number(event.target.value) }))
+                        }
+                        placeholder="min"
+                        aria-label="Custom snooze minutes"
+                        className="w-14 rounded-full border border-amber-900/20 bg-white/60 px-2 py-0.5 text-amber-900"
+                      />
+                      <button
+                        onClick={() => customSnooze[alert.id] > 0 && snoozeAlert(alert, customSnooze[alert.id])}
+                        className="rounded-full bg-amber-900/10 px-2 py-0.5 font-semibold hover:bg-amber-900/20"
+                      >
+                        Go
+                      </button>
+                    </div>
+                  </div>
                 </div>
               );
             })}
           </section>
         )}
 
+        {audioBlocked && (
+          <section className="rounded-3xl border border-rose-400/25 bg-rose-500/10 px-5 py-4 text-sm text-rose-100">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <p className="font-semibold">Alert sounds are blocked</p>
+                <p className="text-rose-100/80">The browser stopped this page from playing audio until you interact with it.</p>
+              </div>
+              <button
+                onClick={handleAudioUnlock}
+                className="h-10 rounded-full bg-rose-400 px-5 text-sm font-semibold text-slate-950 transition hover:bg-rose-300"
+              >
+                Enable sound
+              </button>
+            </div>
+          </section>
+        )}
+
         {typeof window !== "undefined" && "Notification" in window && notificationPermission !== "granted" && (
           <section className="rounded-3xl border border-sky-400/25 bg-sky-500/10 px-5 py-4 text-sm text-sky-100">
             <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -520,18 +1573,77 @@ export default function Home() {
               <label className="flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-slate-300">
                 Active day
               </label>
-              <input
-                type="date"
-                value={selectedDate}
-                onChange={(event) => setSelectedDate(event.target.value)}
-                className="rounded-full border border-white/10 bg-black/40 px-4 py-2 text-sm text-slate-100 focus:border-sky-400 focus:outline-none"
-              />
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setSelectedDate((date) => shiftPeriod(date, calendarView, -1))}
+                  className="rounded-full border border-white/10 px-3 py-2 text-xs text-slate-200 hover:border-sky-400/40"
+                  aria-label="Previous"
+                >
+                  ‹
+                </button>
+                <input
+                  type="date"
+                  value={selectedDate}
+                  onChange={(event) => setSelectedDate(event.target.value)}
+                  className="rounded-full border border-white/10 bg-black/40 px-4 py-2 text-sm text-slate-100 focus:border-sky-400 focus:outline-none"
+                />
+                <button
+                  onClick={() => setSelectedDate((date) => shiftPeriod(date, calendarView, 1))}
+                  className="rounded-full border border-white/10 px-3 py-2 text-xs text-slate-200 hover:border-sky-400/40"
+                  aria-label="Next"
+                >
+                  ›
+                </button>
+              </div>
+              <div className="flex gap-1 rounded-full border border-white/10 bg-black/30 p-1 text-xs">
+                {(["day", "week", "month"] as CalendarView[]).map((view) => (
+                  <button
+                    key={view}
+                    onClick={() => setCalendarView(view)}
+                    className={`rounded-full px-3 py-1 capitalize transition ${
+                      calendarView === view ? "bg-sky-500 text-slate-950" : "text-slate-300 hover:text-sky-200"
+                    }`}
+                  >
+                    {view}
+                  </button>
+                ))}
+              </div>
               <button
-                onClick={() => resetTemplateForDay(selectedDate)}
-                className="rounded-full border border-white/10 bg-black/30 px-4 py-2 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400 hover:text-sky-200"
+                onClick={() => setShowInsights((value) => !value)}
+                className={`rounded-full border px-3 py-1 text-xs transition ${
+                  showInsights ? "border-sky-400 bg-sky-400/20 text-sky-100" : "border-white/10 text-slate-300 hover:text-sky-200"
+                }`}
               >
-                Load daily template
+                Insights
               </button>
+              <button
+                onClick={() => setShowSettings((value) => !value)}
+                className={`rounded-full border px-3 py-1 text-xs transition ${
+                  showSettings ? "border-sky-400 bg-sky-400/20 text-sky-100" : "border-white/10 text-slate-300 hover:text-sky-200"
+                }`}
+              >
+                Settings
+              </button>
+              <button
+                onClick={() => setShowNotifications((value) => !value)}
+                className={`rounded-full border px-3 py-1 text-xs transition ${
+                  showNotifications
+                    ? "border-sky-400 bg-sky-400/20 text-sky-100"
+                    : "border-white/10 text-slate-300 hover:text-sky-200"
+                }`}
+              >
+                Notifications{openAlerts.length > 0 && ` (${openAlerts.length})`}
+              </button>
+              {calendarView === "day" && (
+                <label className="flex items-center gap-2 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={dayMode === "timeline"}
+                    onChange={(event) => setDayMode(event.target.checked ? "timeline" : "list")}
+                  />
+                  Timeline
+                </label>
+              )}
               {allDates.length > 1 && (
                 <div className="flex flex-wrap gap-2 text-xs text-slate-400">
                   {allDates.map((date) => (
@@ -544,125 +1656,455 @@ export default function Home() {
                           : "border-white/5 bg-white/0 hover:border-sky-400/40 hover:text-sky-200"
                       }`}
                     >
-                      {formatDateLabel(date)}
+                      {formatDateLabel(date, format)}
                     </button>
                   ))}
                 </div>
               )}
             </div>
 
-            <div className="flex flex-col gap-4">
-              {selectedDayTasks.length === 0 ? (
-                <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-12 text-center text-slate-300">
-                  <p className="text-lg font-medium">No tasks yet</p>
-                  <p className="mt-2 text-sm">Add a block using the planner and Daily Rhythm will remind you when it matters.</p>
-                </div>
-              ) : (
-                selectedDayTasks.map((task) => {
-                  const scheduled = combineDateTime(task.date, task.time);
-                  const isPast = scheduled.getTime() < now.getTime();
-                  return (
-                    <article
-                      key={task.id}
-                      className="group grid gap-4 rounded-3xl border border-white/10 bg-black/30 px-6 py-5 transition hover:border-sky-400/50 hover:bg-black/20 md:grid-cols-[auto,1fr,auto] md:items-center"
-                    >
-                      <div className="flex flex-col gap-1">
-                        <p className="text-xs uppercase tracking-widest text-slate-400">{formatDateLabel(task.date)}</p>
-                        <p className="text-xl font-semibold text-slate-100">{formatTimeLabel(scheduled)}</p>
-                      </div>
-
-                      <div className="flex flex-col gap-2">
-                        <div className="flex items-center gap-2">
-                          <input
-                            type="checkbox"
-                            className="h-5 w-5 rounded border border-white/20 bg-black/40 text-sky-500"
-                            checked={task.completed}
-                            onChange={(event) => handleTaskCompletion(task.id, event.target.checked)}
-                          />
-                          <h2 className={`text-lg font-semibold ${task.completed ? "text-slate-400 line-through" : "text-slate-100"}`}>
-                            {task.title}
-                          </h2>
+            <TaskFilters
+              filter={filter}
+              scope={filterScope}
+              categories={categories}
+              tags={allTags}
+              results={filterScope === "all" ? searchResults : null}
+              format={format}
+              onChange={setFilter}
+              onScopeChange={setFilterScope}
+              onSelect={handleSearchSelect}
+            />
+
+            {showInsights && (
+              <AnalyticsPanel
+                tasks={tasks}
+                templates={templates}
+                now={now}
+                include={
+                  filter.query.trim() || filter.categoryId !== "all" || filter.tag || filter.priority !== "all"
+                    ? (occurrence) => matchesFilter(occurrence, { ...filter, status: "all" }, categories)
+                    : undefined
+                }
+                filterLabel={describeFilter({ ...filter, status: "all" }, categories)}
+                weekStartsOn={settings.weekStartsOn}
+                format={format}
+              />
+            )}
+
+            {showSettings && <SettingsPanel settings={settings} templates={templates} onChange={handleSettingsChange} />}
+
+            {showNotifications && (
+              <NotificationCenter
+                alerts={alerts}
+                tasks={tasks}
+                format={format}
+                onJump={handleAlertJump}
+                onComplete={handleAlertComplete}
+                onDismiss={acknowledgeAlert}
+                onClear={() => setAlerts(clearResolvedAlerts)}
+              />
+            )}
+
+            {calendarView === "week" && (
+              <WeekGrid
+                dates={calendarDates}
+                occurrences={calendarOccurrences}
+                selectedDate={selectedDate}
+                today={today}
+                format={format}
+                onMove={handleTaskMove}
+                onSelectDate={(date) => {
+                  setSelectedDate(date);
+                  setCalendarView("day");
+                }}
+              />
+            )}
+
+            {calendarView === "month" && (
+              <MonthGrid
+                weeks={monthWeeks(selectedDate, settings.weekStartsOn)}
+                month={selectedDate.slice(0, 7)}
+                occurrences={calendarOccurrences}
+                selectedDate={selectedDate}
+                today={today}
+                onMove={handleTaskMove}
+                onSelectDate={(date) => {
+                  setSelectedDate(date);
+                  setCalendarView("day");
+                }}
+              />
+            )}
+
+            {calendarView === "day" && dayMode === "timeline" && (
+              <div className="rounded-3xl border border-white/10 bg-white/5 p-4">
+                <DayColumn
+                  showGaps
+                  date={selectedDate}
+                  hours={visibleHours(visibleDayBlocks, [selectedDate])}
+                  occurrences={visibleDayBlocks}
+                  format={format}
+                  onMove={handleTaskMove}
+                  onOpen={() => setDayMode("list")}
+                />
+              </div>
+            )}
+
+            {calendarView === "day" && dayMode === "list" && (
+              <div className="flex flex-col gap-4">
+                {selectedDayTasks.length === 0 ? (
+                  <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-12 text-center text-slate-300">
+                    <p className="text-lg font-medium">No tasks yet</p>
+                    <p className="mt-2 text-sm">Add a block using the planner and Daily Rhythm will remind you when it matters.</p>
+                  </div>
+                ) : visibleDayTasks.length === 0 ? (
+                  <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-12 text-center text-slate-300">
+                    <p className="text-lg font-medium">Nothing matches the filters</p>
+                    <p className="mt-2 text-sm">
+                      {selectedDayTasks.length} {selectedDayTasks.length === 1 ? "activity is" : "activities are"} hidden on this day.
+                    </p>
+                  </div>
+                ) : (
+                  visibleDayTasks.map((task) => {
+                    const scheduled = combineDateTime(task.date, task.time);
+                    const isPast = startInstant(task).getTime() < now.getTime();
+                    const hint = zoneHint(task, format);
+                    const series = tasks.find((item) => item.id === task.taskId);
+                    const category = categories.find((item) => item.id === task.categoryId);
+                    const priority = priorityOf(task);
+                    const overlaps = dayOverlaps.get(task.key) ?? [];
+                    return (
+                      <article
+                        key={task.key}
+                        id={`occurrence-${task.key}`}
+                        className={`group grid gap-4 rounded-3xl border border-white/10 bg-black/30 px-6 py-5 transition hover:border-sky-400/50 hover:bg-black/20 md:grid-cols-[auto,1fr,auto] md:items-center ${
+                          task.skipped ? "opacity-50" : ""
+                        } ${highlightedKey === task.key || highlightedKey === task.taskId ? "ring-2 ring-amber-300/70" : ""}`}
+                      >
+                        <div className="flex flex-col gap-1">
+                          <p className="text-xs uppercase tracking-widest text-slate-400">{formatDateLabel(task.date, format)}</p>
+                          <p className="text-xl font-semibold text-slate-100">
+                            {formatTimeLabel(scheduled, format)}
+                            {hint && <span className="ml-1 text-xs font-normal text-slate-400">{hint.zone}</span>}
+                          </p>
+                          <p className="text-xs text-slate-400">
+                            until {formatTimeLabel(combineDateTime(task.date, endTimeOf(task)), format)} · {formatMinutes(task.duration)}
+                          </p>
+                          {hint && <p className="text-xs text-sky-200/80">{hint.local} your time</p>}
                         </div>
-                        {task.description && (
-                          <p className="text-sm text-slate-300/80">{task.description}</p>
-                        )}
-                        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
-                          <span className="rounded-full border border-white/10 bg-white/5 px-3 py-1">
-                            Remind {task.remindBefore} min before
-                          </span>
-                          {isPast && !task.completed && (
-                            <span className="rounded-full border border-amber-400/30 bg-amber-500/20 px-3 py-1 text-amber-200">
-                              Past due
-                            </span>
+
+                        <div className="flex flex-col gap-2">
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              className="h-5 w-5 rounded border border-white/20 bg-black/40 text-sky-500"
+                              checked={task.completed}
+                              disabled={task.skipped}
+                              onChange={(event) => handleTaskCompletion(task, event.target.checked)}
+                            />
+                            <h2 className={`text-lg font-semibold ${task.completed ? "text-slate-400 line-through" : "text-slate-100"}`}>
+                              {task.title}
+                            </h2>
+                          </div>
+                          {task.description && (
+                            <p className="text-sm text-slate-300/80">{task.description}</p>
                           )}
-                          {task.completed && (
-                            <span className="rounded-full border border-emerald-400/20 bg-emerald-500/10 px-3 py-1 text-emerald-200">
-                              Completed
+                          <ChecklistEditor
+                            items={task.checklist ?? []}
+                            autoComplete={task.autoComplete ?? false}
+                            disabled={task.skipped}
+                            onToggle={(checklist) => handleChecklistToggle(task, checklist)}
+                            onChange={(checklist) => handleChecklistChange(task, checklist)}
+                            onAutoCompleteChange={(autoComplete) =>
+                              handleTaskUpdate(task, {
+                                ...checklistUpdate({ ...task, autoComplete }, task.checklist ?? []),
+                                autoComplete,
+                              })
+                            }
+                          />
+                          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                            {category && (
+                              <span
+                                className="rounded-full border px-3 py-1 text-slate-100"
+                                style={{ borderColor: `${category.color}66`, backgroundColor: `${category.color}26` }}
+                              >
+                                {category.name}
+                              </span>
+                            )}
+                            {priority !== "normal" && (
+                              <span
+                                className={`rounded-full border px-3 py-1 ${
+                                  priority === "high"
+                                    ? "border-rose-400/40 bg-rose-500/20 text-rose-100"
+                                    : "border-white/10 bg-white/5 text-slate-400"
+                                }`}
+                              >
+                                {priorityLabels[priority]} priority
+                              </span>
+                            )}
+                            {task.tags?.map((tag) => (
+                              <button
+                                key={tag}
+                                onClick={() => setFilter((current) => ({ ...current, tag }))}
+                                className="rounded-full border border-white/10 px-3 py-1 text-slate-300 hover:border-sky-400/40 hover:text-sky-200"
+                              >
+                                #{tag}
+                              </button>
+                            ))}
+                            <span className="rounded-full border border-white/10 bg-white/5 px-3 py-1">
+                              {describeReminders(task.reminders)}
                             </span>
+                            {series?.recurrence && (
+                              <span className="rounded-full border border-sky-400/20 bg-sky-500/10 px-3 py-1 text-sky-200">
+                                {describeRecurrence(series.recurrence, series.date, format)}
+                              </span>
+                            )}
+                            {task.skipped && (
+                              <span className="rounded-full border border-white/10 bg-white/5 px-3 py-1">Skipped</span>
+                            )}
+                            {isPast && !task.completed && !task.skipped && (
+                              <span className="rounded-full border border-amber-400/30 bg-amber-500/20 px-3 py-1 text-amber-200">
+                                Past due
+                              </span>
+                            )}
+                            {overlaps.length > 0 && !task.skipped && (
+                              <span className="rounded-full border border-amber-400/30 bg-amber-500/10 px-3 py-1 text-amber-200">
+                                Overlaps {overlaps.map((overlap) => overlap.title).join(", ")}
+                              </span>
+                            )}
+                            {focusSession?.occurrenceKey === task.key && (
+                              <span className="rounded-full border border-sky-400/30 bg-sky-500/20 px-3 py-1 text-sky-100">
+                                In focus
+                              </span>
+                            )}
+                            {(task.focusMinutes ?? 0) > 0 && (
+                              <span className="rounded-full border border-white/10 bg-white/5 px-3 py-1">
+                                {formatMinutes(task.focusMinutes ?? 0)} focused
+                              </span>
+                            )}
+                            {task.completed && (
+                              <span className="rounded-full border border-emerald-400/20 bg-emerald-500/10 px-3 py-1 text-emerald-200">
+                                Completed
+                                {task.completedAt &&
+                                  ` ${formatTimeLabel(new Date(task.completedAt), format)}${
+                                    completionTiming(task) === "late" ? " · late" : ""
+                                  }`}
+                              </span>
+                            )}
+                          </div>
+                          {overlaps.length > 0 && !task.skipped && (
+                            <div className="flex flex-wrap gap-2 text-xs">
+                              {resolutionOptions(task, dayNeighbourhood, task.key, format).map((option) => (
+                                <button
+                                  key={option.kind}
+                                  onClick={() => handleTaskUpdate(task, option.updates)}
+                                  className="rounded-full border border-amber-300/30 px-3 py-1 font-semibold text-amber-100 transition hover:bg-amber-400/20"
+                                >
+                                  {option.label}
+                                </button>
+                              ))}
+                            </div>
                           )}
                         </div>
-                      </div>
-
-                      <div className="flex flex-col items-end gap-3 text-xs text-slate-400">
-                        <div className="flex gap-2">
-                          <button
-                            onClick={() => handleTaskRemoval(task.id)}
-                            className="rounded-full border border-white/10 px-4 py-2 font-semibold uppercase tracking-widest text-slate-200 transition hover:border-rose-400/40 hover:text-rose-200"
-                          >
-                            Remove
-                          </button>
-                          <button
-                            onClick={() =>
-                              handleTaskUpdate(task.id, {
-                                notified: false,
-                                completed: false,
-                                date: formatDateInput(new Date(Date.now() + 24 * 60 * 60 * 1000)),
-                              })
-                            }
-                            className="rounded-full border border-white/10 px-4 py-2 font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200"
-                          >
-                            Push to tomorrow
-                          </button>
+
+                        <div className="flex flex-col items-end gap-3 text-xs text-slate-400">
+                          {task.isRecurring && (
+                            <label className="flex items-center gap-2">
+                              <span className="text-xs uppercase tracking-[0.3em]">Edits</span>
+                              <select
+                                value={scopeFor(task)}
+                                onChange={(event) =>
+                                  setEditScopes((prev) => ({ ...prev, [task.key]: event.target.value as EditScope }))
+                                }
+                                className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                              >
+                                <option value="single">This occurrence</option>
+                                <option value="following">This and following</option>
+                              </select>
+                            </label>
+                          )}
+                          {!task.completed && !task.skipped && focusSession?.occurrenceKey !== task.key && (
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleFocusStart(task, "countdown")}
+                                className="rounded-full border border-sky-400/30 px-4 py-2 font-semibold uppercase tracking-widest text-sky-200 transition hover:bg-sky-500/20"
+                              >
+                                Focus {formatMinutes(task.duration)}
+                              </button>
+                              <button
+                                onClick={() => handleFocusStart(task, "pomodoro")}
+                                className="rounded-full border border-sky-400/30 px-4 py-2 font-semibold uppercase tracking-widest text-sky-200 transition hover:bg-sky-500/20"
+                              >
+                                Pomodoro
+                              </button>
+                            </div>
+                          )}
+                          <div className="flex gap-2">
+                            {task.isRecurring && (
+                              <button
+                                onClick={() => handleOccurrenceSkip(task, !task.skipped)}
+                                className="rounded-full border border-white/10 px-4 py-2 font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200"
+                              >
+                                {task.skipped ? "Restore" : "Skip"}
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleTaskRemoval(task)}
+                              className="rounded-full border border-white/10 px-4 py-2 font-semibold uppercase tracking-widest text-slate-200 transition hover:border-rose-400/40 hover:text-rose-200"
+                            >
+                              Remove
+                            </button>
+                            <button
+                              onClick={() => handlePush(task)}
+                              className="rounded-full border border-white/10 px-4 py-2 font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200"
+                            >
+                              Push a day
+                            </button>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">Remind</span>
+                            <ReminderOffsetsPicker
+                              compact
+                              value={task.reminders}
+                              options={settings.reminderOptions}
+                              onChange={(reminders) => handleTaskUpdate(task, { reminders })}
+                            />
+                          </div>
+                          <label className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">Time</span>
+                            <input
+                              type="time"
+                              value={task.time}
+                              onChange={(event) =>
+                                handleTaskUpdate(task, {
+                                  time: normalizeTimeValue(event.target.value),
+                                })
+                              }
+                              className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">Zone</span>
+                            <input
+                              key={task.timeZone ?? ""}
+                              list="time-zones"
+                              defaultValue={task.timeZone ?? ""}
+                              onBlur={(event) => {
+                                const timeZone = event.target.value.trim();
+                                if (timeZone === (task.timeZone ?? "")) return;
+                                if (!isValidTimeZone(timeZone)) {
+                                  event.target.value = task.timeZone ?? "";
+                                  return;
+                                }
+                                handleTaskUpdate(task, { timeZone });
+                              }}
+                              placeholder="This device"
+                              className="w-40 rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">Length</span>
+                            <select
+                              value={task.duration}
+                              onChange={(event) => handleTaskUpdate(task, { duration: Number(event.target.value) })}
+                              className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                            >
+                              {[...new Set([...durationOptions, task.duration])]
+                                .sort((a, b) => a - b)
+                                .map((minutes) => (
+                                  <option key={minutes} value={minutes}>
+                                    {formatMinutes(minutes)}
+                                  </option>
+                                ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">Category</span>
+                            <select
+                              value={task.categoryId ?? ""}
+                              onChange={(event) => handleTaskUpdate(task, { categoryId: event.target.value || undefined })}
+                              className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                            >
+                              <option value="">None</option>
+                              {categories.map((item) => (
+                                <option key={item.id} value={item.id}>
+                                  {item.name}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">Priority</span>
+                            <select
+                              value={priority}
+                              onChange={(event) => {
+                                const next = event.target.value as Priority;
+                                handleTaskUpdate(task, { priority: next === "normal" ? undefined : next });
+                              }}
+                              className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                            >
+                              {priorities.map((option) => (
+                                <option key={option} value={option}>
+                                  {priorityLabels[option]}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">Sound</span>
+                            <SoundSelect
+                              value={task.sound}
+                              files={soundFiles}
+                              inheritLabel="Default"
+                              onChange={(sound) => handleTaskUpdate(task, { sound })}
+                              className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">Tags</span>
+                            {/* Committed on blur so commas and spaces can be typed freely. */}
+                            <input
+                              key={(task.tags ?? []).join(",")}
+                              defaultValue={(task.tags ?? []).join(", ")}
+                              onBlur={(event) => {
+                                const tags = normalizeTags(event.target.value);
+                                if (tags.join(",") === (task.tags ?? []).join(",")) return;
+                                handleTaskUpdate(task, { tags: tags.length > 0 ? tags : undefined });
+                              }}
+                              placeholder="deep, team"
+                              className="w-32 rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <span className="text-xs uppercase tracking-[0.3em]">If missed</span>
+                            <select
+                              value={task.rollover ?? "ask"}
+                              onChange={(event) => handleTaskUpdate(task, { rollover: event.target.value as RolloverPolicy })}
+                              className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+                            >
+                              {(Object.keys(rolloverPolicyLabels) as RolloverPolicy[]).map((policy) => (
+                                <option key={policy} value={policy}>
+                                  {rolloverPolicyLabels[policy]}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
                         </div>
-                        <label className="flex items-center gap-2">
-                          <span className="text-xs uppercase tracking-[0.3em]">Remind</span>
-                          <select
-                            value={task.remindBefore}
-                            onChange={(event) =>
-                              handleTaskUpdate(task.id, { remindBefore: Number(event.target.value), notified: false })
-                            }
-                            className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
-                          >
-                            {minutesOptions.map((value) => (
-                              <option key={value} value={value}>
-                                {value === 0 ? "At start" : `${value} min early`}
-                              </option>
-                            ))}
-                          </select>
-                        </label>
-                        <label className="flex items-center gap-2">
-                          <span className="text-xs uppercase tracking-[0.3em]">Time</span>
-                          <input
-                            type="time"
-                            value={task.time}
-                            onChange={(event) =>
-                              handleTaskUpdate(task.id, {
-                                time: normalizeTimeValue(event.target.value),
-                                notified: false,
-                              })
-                            }
-                            className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
-                          />
-                        </label>
-                      </div>
-                    </article>
-                  );
-                })
-              )}
-            </div>
+                      </article>
+                    );
+                  })
+                )}
+              </div>
+            )}
           </div>
 
           <aside className="flex flex-col gap-6">
+            <QuickAddBar
+              selectedDate={selectedDate}
+              defaults={{ duration: DEFAULT_DURATION_MINUTES, reminders: formState.reminders }}
+              format={format}
+              onAdd={handleQuickAdd}
+            />
+
             <form
               onSubmit={handleFormSubmit}
               className="rounded-3xl border border-white/10 bg-white/10 px-6 py-6 text-sm backdrop-blur"
@@ -715,18 +2157,133 @@ export default function Home() {
                 </div>
               </div>
 
-              <label className="mt-4 block text-xs uppercase tracking-[0.3em] text-slate-200">Remind me</label>
-              <select
-                value={formState.remindBefore}
-                onChange={(event) => setFormState((prev) => ({ ...prev, remindBefore: Number(event.target.value) }))}
+              <label className="mt-4 block text-xs uppercase tracking-[0.3em] text-slate-200">Time zone</label>
+              <input
+                list="time-zones"
+                value={formState.timeZone}
+                onChange={(event) => setFormState((prev) => ({ ...prev, timeZone: event.target.value }))}
+                onBlur={() =>
+                  setFormState((prev) => (isValidTimeZone(prev.timeZone) ? prev : { ...prev, timeZone: deviceTimeZone() }))
+                }
                 className="mt-2 w-full rounded-2xl border border-white/15 bg-black/30 px-4 py-3 text-sm text-white focus:border-sky-400 focus:outline-none"
-              >
-                {minutesOptions.map((value) => (
-                  <option key={value} value={value}>
-                    {value === 0 ? "At start time" : `${value} minutes early`}
-                  </option>
-                ))}
-              </select>
+              />
+              {formZoneHint && (
+                <p className="mt-1 text-xs text-slate-400">
+                  {formZoneHint.zone} · {formZoneHint.local} your time
+                </p>
+              )}
+
+              <label className="mt-4 block text-xs uppercase tracking-[0.3em] text-slate-200">Duration</label>
+              <div className="mt-2 flex items-center gap-2">
+                <select
+                  value={formState.duration}
+                  onChange={(event) => setFormState((prev) => ({ ...prev, duration: Number(event.target.value) }))}
+                  className="rounded-2xl border border-white/15 bg-black/30 px-4 py-3 text-sm text-white focus:border-sky-400 focus:outline-none"
+                >
+                  {[...new Set([...durationOptions, formState.duration])]
+                    .sort((a, b) => a - b)
+                    .map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {formatMinutes(minutes)}
+                      </option>
+                    ))}
+                </select>
+                {formState.date && formState.time && (
+                  <span className="text-xs text-slate-300">
+                    Ends {formatTimeLabel(combineDateTime(formState.date, endTimeOf(formState)), format)}
+                  </span>
+                )}
+              </div>
+
+              <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                <div>
+                  <label className="block text-xs uppercase tracking-[0.3em] text-slate-200">Category</label>
+                  <select
+                    value={formState.categoryId}
+                    onChange={(event) => setFormState((prev) => ({ ...prev, categoryId: event.target.value }))}
+                    className="mt-2 w-full rounded-2xl border border-white/15 bg-black/30 px-4 py-3 text-sm text-white focus:border-sky-400 focus:outline-none"
+                  >
+                    <option value="">None</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs uppercase tracking-[0.3em] text-slate-200">Priority</label>
+                  <select
+                    value={formState.priority}
+                    onChange={(event) => setFormState((prev) => ({ ...prev, priority: event.target.value as Priority }))}
+                    className="mt-2 w-full rounded-2xl border border-white/15 bg-black/30 px-4 py-3 text-sm text-white focus:border-sky-400 focus:outline-none"
+                  >
+                    {priorities.map((priority) => (
+                      <option key={priority} value={priority}>
+                        {priorityLabels[priority]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className="mt-4 block text-xs uppercase tracking-[0.3em] text-slate-200">Tags</label>
+              <input
+                type="text"
+                value={formState.tags}
+                onChange={(event) => setFormState((prev) => ({ ...prev, tags: event.target.value }))}
+                placeholder="deep, team"
+                className="mt-2 w-full rounded-2xl border border-white/15 bg-black/30 px-4 py-3 text-sm text-white focus:border-sky-400 focus:outline-none"
+              />
+
+              {formConflicts.length > 0 && (
+                <div className="mt-3 rounded-2xl border border-amber-400/40 bg-amber-400/10 px-4 py-3 text-xs text-amber-100">
+                  <p className="font-semibold">
+                    Overlaps {formConflicts.map((conflict) => conflict.title).join(", ")}
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {formResolutions.map((option) => (
+                      <button
+                        key={option.kind}
+                        type="button"
+                        onClick={() => setFormState((prev) => ({ ...prev, ...option.updates }))}
+                        className="rounded-full border border-amber-300/40 px-3 py-1 font-semibold hover:bg-amber-400/20"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <label className="mt-4 block text-xs uppercase tracking-[0.3em] text-slate-200">Remind me</label>
+              <div className="mt-2">
+                <ReminderOffsetsPicker
+                  value={formState.reminders}
+                  options={settings.reminderOptions}
+                  onChange={(reminders) => setFormState((prev) => ({ ...prev, reminders }))}
+                />
+              </div>
+
+              <label className="mt-4 block text-xs uppercase tracking-[0.3em] text-slate-200">Checklist</label>
+              <textarea
+                value={formState.checklist}
+                onChange={(event) => setFormState((prev) => ({ ...prev, checklist: event.target.value }))}
+                placeholder={"One step per line\nLog today's wins\nPick tomorrow's top three"}
+                className="mt-2 h-24 w-full rounded-2xl border border-white/15 bg-black/30 px-4 py-3 text-sm text-white focus:border-sky-400 focus:outline-none"
+              />
+              {formState.checklist.trim() && (
+                <label className="mt-2 flex items-center gap-2 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={formState.autoComplete}
+                    onChange={(event) => setFormState((prev) => ({ ...prev, autoComplete: event.target.checked }))}
+                  />
+                  Complete the activity when every step is ticked
+                </label>
+              )}
+
+              <RecurrenceFields draft={recurrenceDraft} onChange={setRecurrenceDraft} />
 
               <button
                 type="submit"
@@ -736,10 +2293,103 @@ export default function Home() {
               </button>
             </form>
 
+            <BacklogPanel
+              items={backlog}
+              tasks={tasks}
+              categories={categories}
+              selectedDate={selectedDate}
+              weekStartsOn={settings.weekStartsOn}
+              workingHours={settings.workingHours}
+              format={format}
+              onAdd={(item) => setBacklog((current) => [...current, item])}
+              onRemove={(itemId) => setBacklog((current) => current.filter((item) => item.id !== itemId))}
+              onAccept={handleBacklogAccept}
+            />
+
+            <RolloverPanel
+              overdue={overdue}
+              asking={rolloverQuestions}
+              log={rollover.log}
+              format={format}
+              onAnswer={handleRolloverAnswer}
+              onAnswerAll={handleRolloverAnswerAll}
+              onRescheduleAll={() => commitRollover(planBulkReschedule(tasks, new Date()), "bulk")}
+              onUndo={handleRolloverUndo}
+            />
+
+            <CategoryManager
+              categories={categories}
+              counts={categoryCounts}
+              onChange={setCategories}
+              onRemove={handleCategoryRemove}
+            />
+
+            <AlertSettingsPanel
+              settings={alertSettings}
+              categories={categories}
+              files={soundFiles}
+              onChange={setAlertSettings}
+              onPreview={handleSoundPreview}
+              onUpload={handleSoundUpload}
+              onDeleteFile={handleSoundDelete}
+            />
+
+            <TemplateLibrary
+              templates={templates}
+              selectedDate={selectedDate}
+              reminderOptions={settings.reminderOptions}
+              defaultReminders={settings.defaultReminders}
+              onTemplatesChange={setTemplates}
+              onApply={handleTemplateApply}
+              onSaveDay={handleSaveDayAsTemplate}
+            />
+
+            <CalendarTransfer tasks={tasks} selectedDate={selectedDate} format={format} onImport={handleCalendarImport} />
+
+            <DataTransfer
+              tasks={tasks}
+              templates={templates}
+              categories={categories}
+              backlog={backlog}
+              settings={settings}
+              selectedDate={selectedDate}
+              format={format}
+              onRestore={handleDataRestore}
+              onImportCsv={handleCsvImport}
+            />
+
+            <SharePanel
+              tasks={tasks}
+              categories={categories}
+              selectedDate={selectedDate}
+              weekStartsOn={settings.weekStartsOn}
+            />
+
+            <SyncPanel
+              status={syncStatus}
+              pending={pendingMutations}
+              lastSyncedAt={lastSyncedAt}
+              conflicts={syncConflicts}
+              format={format}
+              onSyncNow={runSync}
+              onDismissConflict={(conflictId) =>
+                setSyncConflicts((current) => current.filter((conflict) => conflict.id !== conflictId))
+              }
+            />
+
+            <StorageRecovery
+              backups={backups}
+              quarantined={quarantined}
+              format={format}
+              onBackupNow={handleBackupNow}
+              onRestore={handleBackupRestore}
+              onClearQuarantine={handleQuarantineClear}
+            />
+
             <div className="rounded-3xl border border-white/10 bg-black/20 px-6 py-6 text-sm text-slate-200">
               <h3 className="text-base font-semibold text-white">Stay on top of your rhythm</h3>
               <ul className="mt-3 space-y-2 text-xs text-slate-300">
-                <li>• Keep the tab open to hear the audio chimes as activities begin.</li>
+                <li>• Reminders arrive as system notifications while Daily Rhythm is open, even in a background tab; sounds play too. Ones that fall due while it is closed show as missed when you come back, unless your browser wakes it for a scheduled notification.</li>
                 <li>• Grant browser notification permission for background alerts.</li>
                 <li>• Adjust reminder offsets per activity to match the prep time you need.</li>
               </ul>
@@ -747,6 +2397,24 @@ export default function Home() {
           </aside>
         </section>
       </main>
+
+      {isHydrated && (
+        <datalist id="time-zones">
+          {timeZones.map((timeZone) => (
+            <option key={timeZone} value={timeZone} />
+          ))}
+        </datalist>
+      )}
+
+      {toast && (
+        <HistoryToast
+          key={toast.id}
+          message={toast.message}
+          actionLabel={toast.action === "undo" ? "Undo" : "Redo"}
+          onAction={toast.action === "undo" ? handleUndo : handleRedo}
+          onDismiss={() => setToast(null)}
+        />
+      )}
     </div>
   );
 }
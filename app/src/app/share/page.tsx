@@ -0,0 +1,230 @@
+"use client";
+
+import Link from "next/link";
+import { startTransition, useEffect, useState } from "react";
+import SharedTaskCard from "@/components/SharedTaskCard";
+import { defaultCategories, type Category } from "@/lib/categories";
+import { commitImport, type ImportPreviewEntry } from "@/lib/ical";
+import { displayFormatOf, readSettings } from "@/lib/settings";
+import { decodeSharedPlan, planSharedImport, type SharedPlan } from "@/lib/share";
+import { categorySchema, loadCollection } from "@/lib/storage";
+import { diffTasks } from "@/lib/sync";
+import { enqueueMutations } from "@/lib/syncClient";
+import { openTaskRepository, type TaskRepository } from "@/lib/taskRepository";
+import { combineDateTime, formatDateLabel, formatTimeLabel, type DisplayFormat } from "@/lib/tasks";
+
+type ViewerState = { status: "loading" } | { status: "invalid" } | { status: "ready"; plan: SharedPlan };
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const statusStyles: Record<ImportPreviewEntry["status"], string> = {
+  new: "border-emerald-400/40 text-emerald-200",
+  duplicate: "border-white/10 text-slate-400",
+  conflict: "border-amber-400/40 text-amber-200",
+};
+
+const readCategories = () => {
+  const stored = loadCollection<Category>(categorySchema);
+  return stored.found ? stored.records : defaultCategories;
+};
+
+export default function SharedPlanPage() {
+  const [state, setState] = useState<ViewerState>({ status: "loading" });
+  const [format, setFormat] = useState<DisplayFormat>({});
+  const [preview, setPreview] = useState<ImportPreviewEntry[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState<number | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    startTransition(() => {
+      setFormat(displayFormatOf(readSettings()));
+    });
+
+    let cancelled = false;
+    const readFragment = () => {
+      decodeSharedPlan(window.location.hash.slice(1)).then((plan) => {
+        if (cancelled) return;
+        setState(plan ? { status: "ready", plan } : { status: "invalid" });
+        setPreview(null);
+        setImported(null);
+      });
+    };
+
+    readFragment();
+    window.addEventListener("hashchange", readFragment);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("hashchange", readFragment);
+    };
+  }, []);
+
+  const plan = state.status === "ready" ? state.plan : null;
+  const days = plan
+    ? [...new Set(plan.tasks.map((task) => task.date))].map((date) => ({
+        date,
+        tasks: plan.tasks.filter((task) => task.date === date),
+      }))
+    : [];
+
+  const handleReview = async () => {
+    if (!plan) return;
+    setImportError(null);
+    let repository: TaskRepository | null = null;
+    try {
+      repository = await openTaskRepository();
+      const { records } = await repository.load();
+      const entries = planSharedImport(records, plan, readCategories());
+      setPreview(entries);
+      setSelected(new Set(entries.flatMap((entry, index) => (entry.status === "duplicate" ? [] : [index]))));
+    } catch (error) {
+      console.error("Unable to read the planner", error);
+      setImportError("Your planner could not be opened in this browser.");
+    } finally {
+      repository?.close();
+    }
+  };
+
+  const toggleEntry = (index: number) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+
+  // Reloads first so activities added in another tab since the review are kept, and queues them for sync like any edit.
+  const handleImport = async () => {
+    if (!preview) return;
+    const entries = preview.filter((_, index) => selected.has(index));
+    setImporting(true);
+    let repository: TaskRepository | null = null;
+    try {
+      repository = await openTaskRepository();
+      const { records } = await repository.load();
+      const next = commitImport(records, entries);
+      enqueueMutations(diffTasks(records, next, new Date().getTime()));
+      await repository.save(next);
+      setImported(entries.length);
+      setPreview(null);
+    } catch (error) {
+      console.error("Unable to import the shared plan", error);
+      setImportError("The activities could not be saved to your planner.");
+    } finally {
+      repository?.close();
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-slate-100">
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-4 py-10 sm:px-6 lg:px-10">
+        <header className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 px-6 py-6 backdrop-blur-md sm:flex-row sm:items-center sm:justify-between sm:px-8">
+          <div>
+            <p className="text-sm uppercase tracking-[0.3em] text-slate-300">Daily Rhythm · Shared plan</p>
+            <h1 className="text-3xl font-semibold">
+              {plan
+                ? plan.from === plan.to
+                  ? formatDateLabel(plan.from, format)
+                  : `${formatDateLabel(plan.from, format)} – ${formatDateLabel(plan.to, format)}`
+                : "Shared plan"}
+            </h1>
+            <p className="mt-2 text-sm text-slate-300">A read-only copy of someone else&apos;s schedule.</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {plan && !preview && (
+              <button type="button" onClick={handleReview} className={actionClassName}>
+                Import into my planner
+              </button>
+            )}
+            <Link href="/" className={actionClassName}>
+              Open my planner
+            </Link>
+          </div>
+        </header>
+
+        {importError ? <p className="text-sm text-rose-200">{importError}</p> : null}
+        {imported !== null ? (
+          <p className="rounded-3xl border border-emerald-400/30 bg-emerald-500/10 px-6 py-4 text-sm text-emerald-100">
+            Added {imported} {imported === 1 ? "activity" : "activities"} to your planner.
+          </p>
+        ) : null}
+
+        {preview ? (
+          <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+            <p className="text-xs text-slate-300">
+              Review {preview.length} {preview.length === 1 ? "activity" : "activities"} before importing. Ones already in
+              your planner are unchecked.
+            </p>
+            <ul className="mt-3 max-h-96 space-y-2 overflow-y-auto pr-1">
+              {preview.map((entry, index) => (
+                <li key={`${entry.task.id}-${index}`} className={`rounded-2xl border p-2 text-xs ${statusStyles[entry.status]}`}>
+                  <label className="flex items-start gap-2">
+                    <input type="checkbox" checked={selected.has(index)} onChange={() => toggleEntry(index)} className="mt-0.5" />
+                    <span className="min-w-0 flex-1">
+                      <span className="block font-semibold text-white">{entry.task.title}</span>
+                      <span className="block">
+                        {formatDateLabel(entry.task.date, format)} ·{" "}
+                        {formatTimeLabel(combineDateTime(entry.task.date, entry.task.time), format)}
+                      </span>
+                      <span className="block uppercase tracking-widest">
+                        {entry.status}
+                        {entry.reason ? ` — ${entry.reason}` : ""}
+                      </span>
+                      {entry.warnings.map((warning) => (
+                        <span key={warning} className="block text-amber-200/80">
+                          {warning}
+                        </span>
+                      ))}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="mt-3 flex gap-2">
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={selected.size === 0 || importing}
+                className="flex-1 rounded-2xl bg-sky-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-sky-400 disabled:opacity-40"
+              >
+                Import {selected.size}
+              </button>
+              <button type="button" onClick={() => setPreview(null)} className={actionClassName}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {state.status === "loading" ? (
+          <p className="text-center text-sm text-slate-400">Opening the shared plan…</p>
+        ) : state.status === "invalid" ? (
+          <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-12 text-center text-slate-300">
+            <p className="text-lg font-medium">This link does not hold a plan</p>
+            <p className="mt-2 text-sm">It may have been cut short when it was copied. Ask for the link again.</p>
+          </div>
+        ) : days.length === 0 ? (
+          <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-12 text-center text-slate-300">
+            <p className="text-lg font-medium">Nothing planned</p>
+            <p className="mt-2 text-sm">This plan was shared without any activities.</p>
+          </div>
+        ) : (
+          days.map((day) => (
+            <section key={day.date} className="flex flex-col gap-4">
+              <h2 className="text-sm uppercase tracking-widest text-slate-400">{formatDateLabel(day.date, format)}</h2>
+              {day.tasks.map((task, index) => (
+                <SharedTaskCard key={`${task.date}-${task.time}-${index}`} task={task} format={format} />
+              ))}
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
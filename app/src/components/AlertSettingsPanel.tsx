@@ -0,0 +1,248 @@
+import { useState, type ChangeEvent } from "react";
+import SoundSelect from "@/components/SoundSelect";
+import {
+  maxRepeatOptions,
+  repeatIntervalOptions,
+  type AlertSettings,
+  type QuietHours,
+  type RepeatSettings,
+} from "@/lib/alertSettings";
+import type { Category } from "@/lib/categories";
+import { MAX_SOUND_BYTES, type SoundFile } from "@/lib/soundLibrary";
+import { fileSoundId, type SoundId } from "@/lib/sounds";
+
+type AlertSettingsPanelProps = {
+  settings: AlertSettings;
+  categories: Category[];
+  files: SoundFile[];
+  onChange: (settings: AlertSettings) => void;
+  onPreview: (sound: SoundId) => void;
+  onUpload: (file: File) => Promise<void>;
+  onDeleteFile: (file: SoundFile) => void;
+};
+
+const fieldClassName =
+  "rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white focus:border-sky-400 focus:outline-none";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const formatSeconds = (seconds: number) => (seconds < 60 ? `${seconds}s` : `${seconds / 60} min`);
+
+export default function AlertSettingsPanel({
+  settings,
+  categories,
+  files,
+  onChange,
+  onPreview,
+  onUpload,
+  onDeleteFile,
+}: AlertSettingsPanelProps) {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const update = (changes: Partial<AlertSettings>) => onChange({ ...settings, ...changes });
+  const updateQuiet = (changes: Partial<QuietHours>) => update({ quietHours: { ...settings.quietHours, ...changes } });
+  const updateRepeat = (changes: Partial<RepeatSettings>) => update({ repeat: { ...settings.repeat, ...changes } });
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      await onUpload(file);
+      setUploadError(null);
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Unable to store that file");
+    }
+  };
+
+  const soundRow = (
+    key: string,
+    label: string,
+    value: SoundId | undefined,
+    onSelect: (sound: SoundId | undefined) => void,
+    inheritLabel?: string,
+  ) => (
+    <div key={key} className="flex items-center gap-2">
+      <span className="w-28 shrink-0 text-xs text-slate-300">{label}</span>
+      <SoundSelect
+        value={value}
+        files={files}
+        onChange={onSelect}
+        inheritLabel={inheritLabel}
+        ariaLabel={`${label} sound`}
+        className={`min-w-0 flex-1 ${fieldClassName}`}
+      />
+      <button
+        type="button"
+        onClick={() => onPreview(value ?? settings.defaultSound)}
+        className={actionClassName}
+        aria-label={`Preview ${label} sound`}
+      >
+        ▶
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-white">Alert sounds</h2>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input type="checkbox" checked={settings.muted} onChange={(event) => update({ muted: event.target.checked })} />
+          Mute
+        </label>
+      </div>
+
+      <label className="mt-4 flex items-center gap-3 text-xs text-slate-300">
+        Volume
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          disabled={settings.muted}
+          onChange={(event) => update({ volume: Number(event.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-10 text-right">{Math.round(settings.volume * 100)}%</span>
+      </label>
+
+      <div className="mt-4 space-y-2">
+        {soundRow("default", "Default", settings.defaultSound, (sound) => update({ defaultSound: sound ?? "chime" }))}
+        {soundRow("urgent", "High priority", settings.urgentSound, (sound) => update({ urgentSound: sound ?? "urgent" }))}
+        {categories.map((category) =>
+          soundRow(
+            category.id,
+            category.name,
+            settings.categorySounds[category.id],
+            (sound) => {
+              const rest = Object.fromEntries(Object.entries(settings.categorySounds).filter(([id]) => id !== category.id));
+              update({ categorySounds: sound ? { ...rest, [category.id]: sound } : rest });
+            },
+            "Same as default",
+          ),
+        )}
+      </div>
+
+      <div className="mt-4 border-t border-white/10 pt-4">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-300">Your sounds</p>
+        {files.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {files.map((file) => (
+              <li key={file.id} className="flex items-center justify-between gap-2 text-xs text-slate-300">
+                <span className="truncate">
+                  {file.name} <span className="text-slate-500">· {Math.ceil(file.size / 1024)} KB</span>
+                </span>
+                <span className="flex shrink-0 gap-1">
+                  <button type="button" onClick={() => onPreview(fileSoundId(file.id))} className={actionClassName}>
+                    ▶
+                  </button>
+                  <button type="button" onClick={() => onDeleteFile(file)} className={actionClassName}>
+                    Delete
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <label className={`mt-2 inline-block cursor-pointer ${actionClassName}`}>
+          Upload audio
+          <input type="file" accept="audio/*" onChange={handleUpload} className="hidden" />
+        </label>
+        <p className="mt-1 text-xs text-slate-500">Stored in this browser only, up to {MAX_SOUND_BYTES / 1024} KB each.</p>
+        {uploadError && <p className="mt-1 text-xs text-rose-300">{uploadError}</p>}
+      </div>
+
+      <div className="mt-4 border-t border-white/10 pt-4 text-xs text-slate-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.quietHours.enabled}
+            onChange={(event) => updateQuiet({ enabled: event.target.checked })}
+          />
+          Quiet hours
+        </label>
+        {settings.quietHours.enabled && (
+          <div className="mt-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={settings.quietHours.start}
+                onChange={(event) => updateQuiet({ start: event.target.value })}
+                aria-label="Quiet hours start"
+                className={fieldClassName}
+              />
+              to
+              <input
+                type="time"
+                value={settings.quietHours.end}
+                onChange={(event) => updateQuiet({ end: event.target.value })}
+                aria-label="Quiet hours end"
+                className={fieldClassName}
+              />
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.quietHours.allowUrgent}
+                onChange={(event) => updateQuiet({ allowUrgent: event.target.checked })}
+              />
+              Let high-priority alerts through
+            </label>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 border-t border-white/10 pt-4 text-xs text-slate-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.repeat.enabled}
+            onChange={(event) => updateRepeat({ enabled: event.target.checked })}
+          />
+          Repeat until acknowledged
+        </label>
+        {settings.repeat.enabled && (
+          <div className="mt-2 space-y-2">
+            <div className="flex items-center gap-2">
+              Every
+              <select
+                value={settings.repeat.intervalSeconds}
+                onChange={(event) => updateRepeat({ intervalSeconds: Number(event.target.value) })}
+                className={fieldClassName}
+              >
+                {repeatIntervalOptions.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {formatSeconds(seconds)}
+                  </option>
+                ))}
+              </select>
+              up to
+              <select
+                value={settings.repeat.maxRepeats}
+                onChange={(event) => updateRepeat({ maxRepeats: Number(event.target.value) })}
+                className={fieldClassName}
+              >
+                {maxRepeatOptions.map((count) => (
+                  <option key={count} value={count}>
+                    {count}×
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.repeat.escalate}
+                onChange={(event) => updateRepeat({ escalate: event.target.checked })}
+              />
+              Get louder with each repeat
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import {
+  analyticsRanges,
+  buildAnalytics,
+  completionRate,
+  onTimeRate,
+  type CompletionTally,
+} from "@/lib/analytics";
+import { weekdayLabels } from "@/lib/recurrence";
+import { formatDateLabel, type DisplayFormat, type Task, type TaskOccurrence } from "@/lib/tasks";
+import type { Template } from "@/lib/templates";
+
+type AnalyticsPanelProps = {
+  tasks: Task[];
+  templates: Template[];
+  now: Date;
+  include?: (occurrence: TaskOccurrence) => boolean;
+  filterLabel?: string;
+  weekStartsOn: number;
+  format: DisplayFormat;
+};
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`);
+
+function RateBar({ tally }: { tally: CompletionTally }) {
+  const rate = completionRate(tally) ?? 0;
+  return (
+    <span className="block h-1.5 overflow-hidden rounded-full bg-white/5">
+      <span className="block h-full rounded-full bg-emerald-400/70" style={{ width: `${rate * 100}%` }} />
+    </span>
+  );
+}
+
+export default function AnalyticsPanel({
+  tasks,
+  templates,
+  now,
+  include,
+  filterLabel,
+  weekStartsOn,
+  format,
+}: AnalyticsPanelProps) {
+  const [weeks, setWeeks] = useState(8);
+  const analytics = buildAnalytics(tasks, templates, now, weeks, include, weekStartsOn);
+  const weekdayOrder = Array.from({ length: 7 }, (_, index) => (weekStartsOn + index) % 7);
+  const { totals } = analytics;
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Insights</h2>
+          <p className="mt-1 text-xs text-slate-200/70">
+            {formatDateLabel(analytics.from, format)} – {formatDateLabel(analytics.to, format)} · {totals.due} activities due
+            {filterLabel ? ` · ${filterLabel}` : ""}
+          </p>
+        </div>
+        <div className="flex gap-1 rounded-full border border-white/10 bg-black/30 p-1 text-xs">
+          {analyticsRanges.map((range) => (
+            <button
+              key={range}
+              type="button"
+              onClick={() => setWeeks(range)}
+              className={`rounded-full px-3 py-1 transition ${
+                weeks === range ? "bg-sky-500 text-slate-950" : "text-slate-300 hover:text-sky-200"
+              }`}
+            >
+              {range}w
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-4">
+        <div className="rounded-2xl border border-white/10 bg-black/30 p-3">
+          <p className="text-[10px] uppercase tracking-widest text-slate-400">Completion</p>
+          <p className="mt-1 text-2xl font-semibold text-emerald-200">{formatRate(completionRate(totals))}</p>
+          <p className="text-xs text-slate-400">
+            {totals.completed} of {totals.due}
+          </p>
+        </div>
+        <div className="rounded-2xl border border-white/10 bg-black/30 p-3">
+          <p className="text-[10px] uppercase tracking-widest text-slate-400">On time</p>
+          <p className="mt-1 text-2xl font-semibold text-sky-200">{formatRate(onTimeRate(totals))}</p>
+          <p className="text-xs text-slate-400">{totals.late} finished late</p>
+        </div>
+        <div className="rounded-2xl border border-white/10 bg-black/30 p-3">
+          <p className="text-[10px] uppercase tracking-widest text-slate-400">Current streak</p>
+          <p className="mt-1 text-2xl font-semibold text-amber-200">{analytics.currentStreak}</p>
+          <p className="text-xs text-slate-400">fully completed days</p>
+        </div>
+        <div className="rounded-2xl border border-white/10 bg-black/30 p-3">
+          <p className="text-[10px] uppercase tracking-widest text-slate-400">Best streak</p>
+          <p className="mt-1 text-2xl font-semibold text-amber-200">{analytics.bestStreak}</p>
+          <p className="text-xs text-slate-400">in this period</p>
+        </div>
+      </div>
+
+      <div className="mt-5 grid gap-5 md:grid-cols-2">
+        <div>
+          <h3 className="text-xs uppercase tracking-[0.3em] text-slate-300">By weekday</h3>
+          <ul className="mt-2 space-y-1.5 text-xs text-slate-300">
+            {weekdayOrder.map((weekday) => {
+              const stat = analytics.weekdays[weekday];
+              return (
+                <li key={weekday} className="grid grid-cols-[3rem,1fr,3rem] items-center gap-2">
+                  <span>{weekdayLabels[weekday]}</span>
+                  <RateBar tally={stat} />
+                  <span className="text-right">{formatRate(completionRate(stat))}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="text-xs uppercase tracking-[0.3em] text-slate-300">Weekly trend</h3>
+          <div className="mt-2 flex h-28 items-end gap-1">
+            {analytics.weeks.map((week) => (
+              <div
+                key={week.weekStart}
+                className="flex h-full flex-1 flex-col justify-end"
+                title={`Week of ${formatDateLabel(week.weekStart, format)}: ${week.completed}/${week.due} done, ${week.late} late`}
+              >
+                <span
+                  className="block rounded-t bg-sky-400/60"
+                  style={{ height: `${(completionRate(week) ?? 0) * 100}%`, minHeight: week.due > 0 ? 2 : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="mt-1 text-[10px] text-slate-500">Completion rate per week, oldest first.</p>
+        </div>
+      </div>
+
+      <div className="mt-5">
+        <h3 className="text-xs uppercase tracking-[0.3em] text-slate-300">Template adherence</h3>
+        {analytics.templateItems.length === 0 ? (
+          <p className="mt-2 text-xs text-slate-400">Plan a day from a template to see how often each block happens.</p>
+        ) : (
+          <ul className="mt-2 space-y-2 text-xs text-slate-300">
+            {analytics.templateItems.map((item) => (
+              <li key={item.itemId}>
+                <span className="flex justify-between gap-2">
+                  <span className="truncate">
+                    <span className="font-semibold text-slate-100">{item.title}</span>
+                    <span className="text-slate-500"> · {item.templateName}</span>
+                  </span>
+                  <span>
+                    {item.completed}/{item.due} · {formatRate(completionRate(item))}
+                  </span>
+                </span>
+                <RateBar tally={item} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
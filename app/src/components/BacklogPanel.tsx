@@ -0,0 +1,261 @@
+import { useState, type FormEvent } from "react";
+import {
+  blockConflicts,
+  createBacklogItem,
+  planBacklog,
+  sortBacklog,
+  type BacklogItem,
+  type BacklogPlan,
+  type PlannedBlock,
+} from "@/lib/backlog";
+import { endTimeOf, formatMinutes, weekDates } from "@/lib/calendar";
+import { priorities, priorityLabels, type Category, type Priority } from "@/lib/categories";
+import { weekdayLabels } from "@/lib/recurrence";
+import type { WorkingHours } from "@/lib/settings";
+import {
+  DEFAULT_DURATION_MINUTES,
+  combineDateTime,
+  durationOptions,
+  formatDateLabel,
+  formatTimeLabel,
+  type DisplayFormat,
+  type Task,
+} from "@/lib/tasks";
+
+type BacklogPanelProps = {
+  items: BacklogItem[];
+  tasks: Task[];
+  categories: Category[];
+  selectedDate: string;
+  weekStartsOn: number;
+  workingHours: WorkingHours;
+  format: DisplayFormat;
+  onAdd: (item: BacklogItem) => void;
+  onRemove: (itemId: string) => void;
+  onAccept: (blocks: PlannedBlock[]) => void;
+};
+
+type PlanScope = "day" | "week";
+
+const fieldClassName =
+  "rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white focus:border-sky-400 focus:outline-none";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const emptyDraft = { title: "", duration: DEFAULT_DURATION_MINUTES, priority: "normal" as Priority, deadline: "", categoryId: "" };
+
+const clockLabel = (date: string, time: string, format: DisplayFormat) =>
+  formatTimeLabel(combineDateTime(date, time), format);
+
+export default function BacklogPanel({
+  items,
+  tasks,
+  categories,
+  selectedDate,
+  weekStartsOn,
+  workingHours,
+  format,
+  onAdd,
+  onRemove,
+  onAccept,
+}: BacklogPanelProps) {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [plan, setPlan] = useState<(BacklogPlan & { scope: PlanScope }) | null>(null);
+
+  // Accepted items leave the backlog, which drops their rows from the proposal too.
+  const backlogIds = new Set(items.map((item) => item.id));
+  const proposed = plan ? plan.blocks.filter((block) => backlogIds.has(block.itemId)) : [];
+  const unplaced = plan ? plan.unplaced.filter((entry) => backlogIds.has(entry.itemId)) : [];
+  const acceptable = proposed.filter((block) => blockConflicts(block, tasks).length === 0);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const title = draft.title.trim();
+    if (!title) return;
+    const item = createBacklogItem({ title, duration: draft.duration, priority: draft.priority, deadline: draft.deadline });
+    onAdd(draft.categoryId ? { ...item, categoryId: draft.categoryId } : item);
+    setDraft((current) => ({ ...emptyDraft, duration: current.duration }));
+  };
+
+  const handlePlan = (scope: PlanScope) => {
+    const dates = scope === "day" ? [selectedDate] : weekDates(selectedDate, weekStartsOn);
+    setPlan({ scope, ...planBacklog(items, tasks, dates, workingHours, new Date()) });
+  };
+
+  const handleSkip = (itemId: string) =>
+    setPlan((current) => current && { ...current, blocks: current.blocks.filter((block) => block.itemId !== itemId) });
+
+  const workingDays = weekdayLabels.filter((_, day) => workingHours.days.includes(day)).join(", ");
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-white">Backlog</h2>
+        <span className="text-xs text-slate-400">{items.length} unscheduled</span>
+      </div>
+      <p className="mt-1 text-xs text-slate-200/70">
+        Park anything without a time yet. Auto-plan fits it into free gaps between {workingHours.start} and{" "}
+        {workingHours.end} on {workingDays || "no days"}.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-4 space-y-2">
+        <input
+          value={draft.title}
+          onChange={(event) => setDraft((current) => ({ ...current, title: event.target.value }))}
+          placeholder="Do this sometime…"
+          className={`w-full ${fieldClassName}`}
+        />
+        <div className="grid grid-cols-2 gap-2 text-xs text-slate-300">
+          <select
+            value={draft.duration}
+            onChange={(event) => setDraft((current) => ({ ...current, duration: Number(event.target.value) }))}
+            aria-label="Estimated duration"
+            className={fieldClassName}
+          >
+            {durationOptions.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                ~{formatMinutes(minutes)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={draft.priority}
+            onChange={(event) => setDraft((current) => ({ ...current, priority: event.target.value as Priority }))}
+            aria-label="Priority"
+            className={fieldClassName}
+          >
+            {priorities.map((priority) => (
+              <option key={priority} value={priority}>
+                {priorityLabels[priority]} priority
+              </option>
+            ))}
+          </select>
+          <label className="flex flex-col gap-1">
+            Deadline
+            <input
+              type="date"
+              value={draft.deadline}
+              onChange={(event) => setDraft((current) => ({ ...current, deadline: event.target.value }))}
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Category
+            <select
+              value={draft.categoryId}
+              onChange={(event) => setDraft((current) => ({ ...current, categoryId: event.target.value }))}
+              className={fieldClassName}
+            >
+              <option value="">None</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <button type="submit" disabled={!draft.title.trim()} className={actionClassName}>
+          Add to backlog
+        </button>
+      </form>
+
+      {items.length > 0 && (
+        <ul className="mt-4 space-y-2 border-t border-white/10 pt-4">
+          {sortBacklog(items).map((item) => (
+            <li key={item.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="min-w-0">
+                <span className="block truncate font-semibold text-white">{item.title}</span>
+                <span className="block text-slate-400">
+                  ~{formatMinutes(item.duration)}
+                  {item.priority && item.priority !== "normal" && ` · ${priorityLabels[item.priority]} priority`}
+                  {item.deadline && ` · due ${formatDateLabel(item.deadline, format)}`}
+                </span>
+              </span>
+              <button type="button" onClick={() => onRemove(item.id)} className={actionClassName}>
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <button type="button" onClick={() => handlePlan("day")} disabled={items.length === 0} className={actionClassName}>
+          Auto-plan {formatDateLabel(selectedDate, format)}
+        </button>
+        <button type="button" onClick={() => handlePlan("week")} disabled={items.length === 0} className={actionClassName}>
+          Auto-plan week
+        </button>
+      </div>
+
+      {plan && (
+        <div className="mt-4 border-t border-white/10 pt-4">
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-300">
+            Proposed plan · {plan.scope === "day" ? formatDateLabel(selectedDate, format) : "this week"}
+          </p>
+          {proposed.length === 0 && unplaced.length === 0 && (
+            <p className="mt-2 text-xs text-slate-400">Nothing left to review.</p>
+          )}
+          <ul className="mt-2 space-y-2 font-mono text-xs">
+            {proposed.map((block) => {
+              const conflicts = blockConflicts(block, tasks);
+              return (
+                <li
+                  key={block.itemId}
+                  className={`flex items-center justify-between gap-2 rounded-2xl border p-2 ${
+                    conflicts.length > 0 ? "border-rose-400/40 bg-rose-500/10" : "border-emerald-400/30 bg-emerald-500/10"
+                  }`}
+                >
+                  <span className="min-w-0">
+                    <span className="block truncate text-emerald-100">+ {block.title}</span>
+                    <span className="block text-emerald-200/70">
+                      {formatDateLabel(block.date, format)} {clockLabel(block.date, block.time, format)}–
+                      {clockLabel(block.date, endTimeOf(block), format)}
+                    </span>
+                    {conflicts.length > 0 && (
+                      <span className="block text-rose-200">Now overlaps {conflicts[0].title}; plan again.</span>
+                    )}
+                  </span>
+                  <span className="flex shrink-0 gap-1 font-sans">
+                    <button
+                      type="button"
+                      onClick={() => onAccept([block])}
+                      disabled={conflicts.length > 0}
+                      className={actionClassName}
+                    >
+                      Accept
+                    </button>
+                    <button type="button" onClick={() => handleSkip(block.itemId)} className={actionClassName}>
+                      Skip
+                    </button>
+                  </span>
+                </li>
+              );
+            })}
+            {unplaced.map((entry) => (
+              <li key={entry.itemId} className="rounded-2xl border border-amber-400/30 p-2 text-amber-100">
+                <span className="block truncate">· {entry.title}</span>
+                <span className="block text-amber-200/70">{entry.reason}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-2 flex gap-2">
+            <button
+              type="button"
+              onClick={() => onAccept(acceptable)}
+              disabled={acceptable.length === 0}
+              className={actionClassName}
+            >
+              Accept all
+            </button>
+            <button type="button" onClick={() => setPlan(null)} className={actionClassName}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
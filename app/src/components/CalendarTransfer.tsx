@@ -0,0 +1,185 @@
+import { useState, type ChangeEvent } from "react";
+import { downloadFile } from "@/lib/download";
+import {
+  exportFileName,
+  exportICalendar,
+  parseICalendar,
+  planImport,
+  type ExportScope,
+  type ImportPreviewEntry,
+} from "@/lib/ical";
+import { describeRecurrence } from "@/lib/recurrence";
+import { combineDateTime, formatDateLabel, formatTimeLabel, type DisplayFormat, type Task } from "@/lib/tasks";
+
+type CalendarTransferProps = {
+  tasks: Task[];
+  selectedDate: string;
+  format: DisplayFormat;
+  onImport: (entries: ImportPreviewEntry[]) => void;
+};
+
+type ExportKind = "day" | "range" | "all";
+
+const fieldClassName =
+  "rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white focus:border-sky-400 focus:outline-none";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const statusStyles: Record<ImportPreviewEntry["status"], string> = {
+  new: "border-emerald-400/40 text-emerald-200",
+  duplicate: "border-white/10 text-slate-400",
+  conflict: "border-amber-400/40 text-amber-200",
+};
+
+export default function CalendarTransfer({ tasks, selectedDate, format, onImport }: CalendarTransferProps) {
+  const [kind, setKind] = useState<ExportKind>("day");
+  const [range, setRange] = useState({ from: "", to: "" });
+  const [preview, setPreview] = useState<ImportPreviewEntry[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const from = range.from || selectedDate;
+  const to = range.to && range.to >= from ? range.to : from;
+
+  const handleExport = () => {
+    const scope: ExportScope =
+      kind === "all"
+        ? { kind: "all" }
+        : { kind: "range", from: kind === "day" ? selectedDate : from, to: kind === "day" ? selectedDate : to };
+    downloadFile(exportFileName(scope), exportICalendar(tasks, scope), "text/calendar;charset=utf-8");
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const entries = planImport(tasks, parseICalendar(await file.text()));
+      if (entries.length === 0) {
+        setImportError("No events found in that file.");
+        setPreview(null);
+        return;
+      }
+      setImportError(null);
+      setPreview(entries);
+      setSelected(new Set(entries.flatMap((entry, index) => (entry.status === "duplicate" ? [] : [index]))));
+    } catch (error) {
+      console.error("Calendar import failed", error);
+      setImportError("That file could not be read as a calendar.");
+    }
+  };
+
+  const toggleEntry = (index: number) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+
+  const handleCommit = () => {
+    if (!preview) return;
+    onImport(preview.filter((_, index) => selected.has(index)));
+    setPreview(null);
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Calendar files</h2>
+      <p className="mt-1 text-xs text-slate-200/70">Exchange activities with other calendars as .ics files.</p>
+
+      <div className="mt-4 flex flex-wrap gap-4 text-xs text-slate-200">
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={kind === "day"} onChange={() => setKind("day")} />
+          This day
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={kind === "range"} onChange={() => setKind("range")} />
+          Date range
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={kind === "all"} onChange={() => setKind("all")} />
+          Everything
+        </label>
+      </div>
+      {kind === "range" ? (
+        <div className="mt-3 grid gap-2 sm:grid-cols-2">
+          <input
+            type="date"
+            value={from}
+            onChange={(event) => setRange((prev) => ({ ...prev, from: event.target.value }))}
+            className={fieldClassName}
+          />
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(event) => setRange((prev) => ({ ...prev, to: event.target.value }))}
+            className={fieldClassName}
+          />
+        </div>
+      ) : null}
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button type="button" onClick={handleExport} className={actionClassName}>
+          Export .ics
+        </button>
+        <label className={`cursor-pointer ${actionClassName}`}>
+          Import .ics
+          <input type="file" accept=".ics,text/calendar" onChange={handleFile} className="sr-only" />
+        </label>
+      </div>
+      {importError ? <p className="mt-3 text-xs text-rose-200">{importError}</p> : null}
+
+      {preview ? (
+        <div className="mt-4 border-t border-white/10 pt-4">
+          <p className="text-xs text-slate-300">
+            Review {preview.length} event{preview.length === 1 ? "" : "s"} before importing. Duplicates are unchecked.
+          </p>
+          <ul className="mt-3 max-h-72 space-y-2 overflow-y-auto pr-1">
+            {preview.map((entry, index) => (
+              <li key={`${entry.task.id}-${index}`} className={`rounded-2xl border p-2 text-xs ${statusStyles[entry.status]}`}>
+                <label className="flex items-start gap-2">
+                  <input type="checkbox" checked={selected.has(index)} onChange={() => toggleEntry(index)} className="mt-0.5" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block font-semibold text-white">{entry.task.title}</span>
+                    <span className="block">
+                      {formatDateLabel(entry.task.date, format)} · {formatTimeLabel(combineDateTime(entry.task.date, entry.task.time), format)}
+                      {entry.task.recurrence ? ` · ${describeRecurrence(entry.task.recurrence, entry.task.date, format)}` : ""}
+                    </span>
+                    <span className="block uppercase tracking-widest">
+                      {entry.status}
+                      {entry.reason ? ` — ${entry.reason}` : ""}
+                    </span>
+                    {entry.warnings.map((warning) => (
+                      <span key={warning} className="block text-amber-200/80">
+                        {warning}
+                      </span>
+                    ))}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={selected.size === 0}
+              className="flex-1 rounded-2xl bg-sky-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-sky-400 disabled:opacity-40"
+            >
+              Import {selected.size}
+            </button>
+            <button type="button" onClick={() => setPreview(null)} className={actionClassName}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
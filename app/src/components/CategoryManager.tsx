@@ -0,0 +1,73 @@
+import { useState, type FormEvent } from "react";
+import { createCategory, type Category } from "@/lib/categories";
+
+type CategoryManagerProps = {
+  categories: Category[];
+  counts: Record<string, number>; // activities per category id
+  onChange: (categories: Category[]) => void;
+  onRemove: (category: Category) => void;
+};
+
+const fieldClassName =
+  "rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white focus:border-sky-400 focus:outline-none";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+export default function CategoryManager({ categories, counts, onChange, onRemove }: CategoryManagerProps) {
+  const [name, setName] = useState("");
+
+  const update = (id: string, changes: Partial<Category>) =>
+    onChange(categories.map((category) => (category.id === id ? { ...category, ...changes } : category)));
+
+  const handleAdd = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onChange([...categories, createCategory(trimmed, categories)]);
+    setName("");
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Categories</h2>
+      <p className="mt-1 text-xs text-slate-200/70">Colour-code activities and filter the plan or insights by area of life.</p>
+
+      <ul className="mt-4 space-y-2">
+        {categories.map((category) => (
+          <li key={category.id} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={category.color}
+              onChange={(event) => update(category.id, { color: event.target.value })}
+              aria-label={`${category.name} colour`}
+              className="h-8 w-8 shrink-0 cursor-pointer rounded-full border border-white/15 bg-transparent"
+            />
+            <input
+              value={category.name}
+              onChange={(event) => update(category.id, { name: event.target.value })}
+              aria-label="Category name"
+              className={`min-w-0 flex-1 ${fieldClassName}`}
+            />
+            <span className="w-6 text-right text-xs text-slate-400">{counts[category.id] ?? 0}</span>
+            <button type="button" onClick={() => onRemove(category)} className={actionClassName}>
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAdd} className="mt-3 flex gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="New category"
+          className={`min-w-0 flex-1 ${fieldClassName}`}
+        />
+        <button type="submit" disabled={!name.trim()} className={actionClassName}>
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, type FormEvent } from "react";
+import {
+  checklistProgress,
+  createChecklistItem,
+  formatProgress,
+  toggleChecklistItem,
+  type ChecklistItem,
+} from "@/lib/checklist";
+
+type ChecklistEditorProps = {
+  items: ChecklistItem[];
+  autoComplete: boolean;
+  disabled?: boolean;
+  onToggle: (items: ChecklistItem[]) => void; // ticking and unticking, always for this occurrence only
+  onChange: (items: ChecklistItem[]) => void; // adding and removing, following the card's edit scope
+  onAutoCompleteChange: (autoComplete: boolean) => void;
+};
+
+export default function ChecklistEditor({
+  items,
+  autoComplete,
+  disabled = false,
+  onToggle,
+  onChange,
+  onAutoCompleteChange,
+}: ChecklistEditorProps) {
+  const [draft, setDraft] = useState("");
+  const progress = checklistProgress([{ checklist: items }]);
+
+  const handleAdd = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft.trim()) return;
+    onChange([...items, createChecklistItem(draft)]);
+    setDraft("");
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3 text-xs text-slate-300">
+      {items.length > 0 && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="block h-1.5 flex-1 overflow-hidden rounded-full bg-white/5">
+              <span
+                className="block h-full rounded-full bg-emerald-400/70"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </span>
+            <span>{formatProgress(progress)}</span>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {items.map((item) => (
+              <li key={item.id} className="group/item flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={item.done}
+                  disabled={disabled}
+                  onChange={(event) => onToggle(toggleChecklistItem(items, item.id, event.target.checked))}
+                  className="h-4 w-4 rounded border border-white/20 bg-black/40"
+                />
+                <span className={`flex-1 ${item.done ? "text-slate-500 line-through" : "text-slate-200"}`}>{item.title}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(items.filter((entry) => entry.id !== item.id))}
+                  className="text-slate-500 opacity-0 transition hover:text-rose-200 group-hover/item:opacity-100"
+                  aria-label={`Remove ${item.title}`}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <form onSubmit={handleAdd} className={`flex items-center gap-2 ${items.length > 0 ? "mt-2" : ""}`}>
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Add a checklist step"
+          className="min-w-0 flex-1 rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+        />
+        {items.length > 0 && (
+          <label className="flex shrink-0 items-center gap-1">
+            <input type="checkbox" checked={autoComplete} onChange={(event) => onAutoCompleteChange(event.target.checked)} />
+            Auto-complete
+          </label>
+        )}
+      </form>
+    </div>
+  );
+}
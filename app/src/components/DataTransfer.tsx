@@ -0,0 +1,291 @@
+import { useState, type ChangeEvent } from "react";
+import { agendaDates, agendaFileName, agendaHtml, agendaMarkdown, buildAgenda, type AgendaScope } from "@/lib/agenda";
+import {
+  backupFileName,
+  createBackupFile,
+  parseBackupFile,
+  planRestore,
+  type ParsedBackupFile,
+  type PlannerData,
+  type RestoreMode,
+  type RestorePlan,
+  type TransferReport,
+} from "@/lib/backupFile";
+import type { BacklogItem } from "@/lib/backlog";
+import type { Category } from "@/lib/categories";
+import { csvFileName, importTasksCsv, tasksToCsv, type CsvImportResult } from "@/lib/csv";
+import { downloadFile } from "@/lib/download";
+import type { Settings } from "@/lib/settings";
+import { formatDateTimeLabel, type DisplayFormat, type Task } from "@/lib/tasks";
+import type { Template } from "@/lib/templates";
+
+type DataTransferProps = {
+  tasks: Task[];
+  templates: Template[];
+  categories: Category[];
+  backlog: BacklogItem[];
+  settings: Settings;
+  selectedDate: string;
+  format: DisplayFormat;
+  onRestore: (plan: RestorePlan) => void;
+  onImportCsv: (result: CsvImportResult) => void;
+};
+
+type TransferReportListProps = {
+  reports: TransferReport[];
+};
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const commitClassName =
+  "flex-1 rounded-2xl bg-sky-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-sky-400 disabled:opacity-40";
+
+const countLabel = (count: number, word: string) => `${count} ${word}`;
+
+const hasChanges = (reports: TransferReport[]) =>
+  reports.some((report) => report.added.length + report.updated.length + report.removed.length > 0);
+
+function TransferReportList({ reports }: TransferReportListProps) {
+  if (reports.length === 0) return <p className="mt-3 text-xs text-slate-400">The file holds nothing to restore.</p>;
+
+  return (
+    <ul className="mt-3 max-h-72 space-y-2 overflow-y-auto pr-1">
+      {reports.map((report) => (
+        <li key={report.label} className="rounded-2xl border border-white/10 bg-black/20 p-3 text-xs">
+          <p className="font-semibold text-white">
+            {report.label}: {countLabel(report.added.length, "added")}, {countLabel(report.updated.length, "updated")}
+            {report.removed.length > 0 ? `, ${countLabel(report.removed.length, "removed")}` : ""},{" "}
+            {countLabel(report.skipped.length, "skipped")}
+          </p>
+          {report.added.length > 0 && <p className="mt-1 text-emerald-200">Added: {report.added.join(", ")}</p>}
+          {report.updated.length > 0 && <p className="mt-1 text-sky-200">Updated: {report.updated.join(", ")}</p>}
+          {report.removed.length > 0 && <p className="mt-1 text-rose-200">Removed: {report.removed.join(", ")}</p>}
+          {report.skipped.map((entry, index) => (
+            <p key={`${entry.name}-${index}`} className="mt-1 text-slate-400">
+              Skipped {entry.name} — {entry.reason}
+            </p>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function DataTransfer({
+  tasks,
+  templates,
+  categories,
+  backlog,
+  settings,
+  selectedDate,
+  format,
+  onRestore,
+  onImportCsv,
+}: DataTransferProps) {
+  const [backupFile, setBackupFile] = useState<ParsedBackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [includeSettings, setIncludeSettings] = useState(false);
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [csvPreview, setCsvPreview] = useState<TransferReport | null>(null);
+  const [outcome, setOutcome] = useState<TransferReport[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [agendaScope, setAgendaScope] = useState<AgendaScope>("day");
+
+  const current: PlannerData = { tasks, templates, categories, backlog, settings };
+  const restorePreview = backupFile ? planRestore(backupFile, current, mode, includeSettings) : null;
+
+  const handleBackupDownload = () => {
+    const now = new Date();
+    downloadFile(backupFileName(now), createBackupFile(current, now), "application/json");
+  };
+
+  const handleBackupFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const result = parseBackupFile(await file.text());
+    setOutcome(null);
+    setCsvText(null);
+    setError(result.error);
+    setBackupFile(result.file);
+  };
+
+  const handleRestore = () => {
+    if (!restorePreview) return;
+    onRestore(restorePreview);
+    setOutcome(restorePreview.reports);
+    setBackupFile(null);
+  };
+
+  const handleCsvFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const text = await file.text();
+    setOutcome(null);
+    setBackupFile(null);
+    setError(null);
+    setCsvText(text);
+    setCsvPreview(importTasksCsv(text, tasks, categories, settings.defaultReminders).report);
+  };
+
+  // Re-read against the latest activities so edits made while the preview was open are not overwritten.
+  const handleCsvImport = () => {
+    if (csvText === null) return;
+    const result = importTasksCsv(csvText, tasks, categories, settings.defaultReminders);
+    onImportCsv(result);
+    setOutcome([result.report]);
+    setCsvText(null);
+  };
+
+  const agenda = () => buildAgenda(tasks, agendaDates(selectedDate, agendaScope, settings.weekStartsOn), categories, format);
+
+  const handleAgendaDownload = () => {
+    const days = agenda();
+    downloadFile(
+      agendaFileName(days.map((day) => day.date)),
+      agendaMarkdown(days),
+      "text/markdown;charset=utf-8",
+    );
+  };
+
+  const handleAgendaPrint = () => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      setError("Allow pop-ups for this site to print the agenda.");
+      return;
+    }
+    printWindow.document.write(agendaHtml(agenda(), format.locale));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Your data</h2>
+      <p className="mt-1 text-xs text-slate-200/70">
+        Keep a full backup, move activities through spreadsheets or print an agenda.
+      </p>
+
+      <h3 className="mt-4 text-xs font-semibold uppercase tracking-widest text-slate-300">Backup file</h3>
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button type="button" onClick={handleBackupDownload} className={actionClassName}>
+          Download backup
+        </button>
+        <label className={`cursor-pointer ${actionClassName}`}>
+          Restore backup
+          <input type="file" accept=".json,application/json" onChange={handleBackupFile} className="sr-only" />
+        </label>
+      </div>
+
+      <h3 className="mt-4 text-xs font-semibold uppercase tracking-widest text-slate-300">Spreadsheet</h3>
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => downloadFile(csvFileName(new Date()), tasksToCsv(tasks, categories), "text/csv;charset=utf-8")}
+          className={actionClassName}
+        >
+          Export .csv
+        </button>
+        <label className={`cursor-pointer ${actionClassName}`}>
+          Import .csv
+          <input type="file" accept=".csv,text/csv" onChange={handleCsvFile} className="sr-only" />
+        </label>
+      </div>
+
+      <h3 className="mt-4 text-xs font-semibold uppercase tracking-widest text-slate-300">Agenda</h3>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <div className="flex gap-1 rounded-full border border-white/10 bg-black/30 p-1 text-xs">
+          {(["day", "week"] as AgendaScope[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setAgendaScope(option)}
+              className={`rounded-full px-3 py-1 transition ${
+                agendaScope === option ? "bg-sky-500 text-slate-950" : "text-slate-300 hover:text-sky-200"
+              }`}
+            >
+              {option === "day" ? "This day" : "This week"}
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={handleAgendaDownload} className={actionClassName}>
+          Markdown
+        </button>
+        <button type="button" onClick={handleAgendaPrint} className={actionClassName}>
+          Print
+        </button>
+      </div>
+
+      {error ? <p className="mt-3 text-xs text-rose-200">{error}</p> : null}
+
+      {backupFile && restorePreview ? (
+        <div className="mt-4 border-t border-white/10 pt-4">
+          <p className="text-xs text-slate-300">
+            Backup from {backupFile.exportedAt ? formatDateTimeLabel(new Date(backupFile.exportedAt), format) : "an unknown date"}.
+            Review what restoring it would change.
+          </p>
+          <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-200">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+              Merge with what is here
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+              Replace everything
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeSettings}
+                disabled={!backupFile.settings}
+                onChange={(event) => setIncludeSettings(event.target.checked)}
+              />
+              Include settings
+            </label>
+          </div>
+          <TransferReportList reports={restorePreview.reports} />
+          <div className="mt-3 flex gap-2">
+            <button type="button" onClick={handleRestore} disabled={!hasChanges(restorePreview.reports)} className={commitClassName}>
+              Restore
+            </button>
+            <button type="button" onClick={() => setBackupFile(null)} className={actionClassName}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {csvText !== null && csvPreview ? (
+        <div className="mt-4 border-t border-white/10 pt-4">
+          <p className="text-xs text-slate-300">Rows with a known id update that activity; the rest are added.</p>
+          <TransferReportList reports={[csvPreview]} />
+          <div className="mt-3 flex gap-2">
+            <button type="button" onClick={handleCsvImport} disabled={!hasChanges([csvPreview])} className={commitClassName}>
+              Import
+            </button>
+            <button type="button" onClick={() => setCsvText(null)} className={actionClassName}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {outcome ? (
+        <div className="mt-4 border-t border-white/10 pt-4">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs font-semibold text-emerald-200">Done. Here is what changed.</p>
+            <button type="button" onClick={() => setOutcome(null)} className={actionClassName}>
+              Close
+            </button>
+          </div>
+          <TransferReportList reports={outcome} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
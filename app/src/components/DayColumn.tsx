@@ -0,0 +1,154 @@
+import { useState, type DragEvent } from "react";
+import {
+  OCCURRENCE_DRAG_TYPE,
+  blockRange,
+  findFreeGaps,
+  formatMinutes,
+  readDragPayload,
+  snapMinutes,
+  timeFromMinutes,
+  wallClockIn,
+  type OccurrenceDragPayload,
+  type TimeRange,
+} from "@/lib/calendar";
+import { combineDateTime, formatTimeLabel, type DisplayFormat, type TaskOccurrence } from "@/lib/tasks";
+
+type DayColumnProps = {
+  date: string;
+  occurrences: TaskOccurrence[];
+  hours: TimeRange;
+  format: DisplayFormat;
+  showGaps?: boolean;
+  compact?: boolean;
+  onMove: (payload: OccurrenceDragPayload, date: string, time: string) => void;
+  onOpen?: (occurrence: TaskOccurrence) => void;
+};
+
+const PIXELS_PER_MINUTE = 0.8;
+
+const minuteLabel = (date: string, minutes: number, format: DisplayFormat) =>
+  formatTimeLabel(combineDateTime(date, timeFromMinutes(minutes)), format);
+
+export default function DayColumn({
+  date,
+  occurrences,
+  hours,
+  format,
+  showGaps = false,
+  compact = false,
+  onMove,
+  onOpen,
+}: DayColumnProps) {
+  const [dropPreview, setDropPreview] = useState<number | null>(null);
+  const height = (hours.end - hours.start) * PIXELS_PER_MINUTE;
+  const hourMarks = Array.from({ length: (hours.end - hours.start) / 60 + 1 }, (_, index) => hours.start + index * 60);
+
+  const dropMinutes = (event: DragEvent<HTMLDivElement>, grabOffset: number) => {
+    const offset = event.clientY - event.currentTarget.getBoundingClientRect().top - grabOffset;
+    const minutes = snapMinutes(hours.start + offset / PIXELS_PER_MINUTE);
+    return Math.min(Math.max(minutes, hours.start), hours.end - 15);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes(OCCURRENCE_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    // The grab offset is unreadable until drop, so the preview tracks the pointer itself.
+    setDropPreview(dropMinutes(event, 0));
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDropPreview(null);
+    const payload = readDragPayload(event.dataTransfer);
+    if (!payload) return;
+    // The column is the device's clock; the move is written in the occurrence's own zone.
+    const target = wallClockIn(combineDateTime(date, timeFromMinutes(dropMinutes(event, payload.grabOffset))), payload.timeZone);
+    onMove(payload, target.date, target.time);
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLButtonElement>, occurrence: TaskOccurrence) => {
+    const payload: OccurrenceDragPayload = {
+      key: occurrence.key,
+      date: occurrence.date,
+      time: occurrence.time,
+      timeZone: occurrence.timeZone,
+      grabOffset: event.clientY - event.currentTarget.getBoundingClientRect().top,
+    };
+    event.dataTransfer.setData(OCCURRENCE_DRAG_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDropPreview(null)}
+      onDrop={handleDrop}
+      className="relative rounded-2xl border border-white/10 bg-black/20"
+      style={{ height }}
+    >
+      {hourMarks.map((minutes) => (
+        <div
+          key={minutes}
+          className="absolute inset-x-0 border-t border-white/5"
+          style={{ top: (minutes - hours.start) * PIXELS_PER_MINUTE }}
+        >
+          {!compact && <span className="ml-2 text-[10px] text-slate-500">{minuteLabel(date, minutes, format)}</span>}
+        </div>
+      ))}
+
+      {showGaps &&
+        findFreeGaps(occurrences, date, hours.start, hours.end).map((gap) => (
+          <div
+            key={gap.start}
+            className="absolute inset-x-14 flex items-center justify-center rounded-xl border border-dashed border-emerald-400/30 bg-emerald-400/5 text-[11px] text-emerald-200/80"
+            style={{ top: (gap.start - hours.start) * PIXELS_PER_MINUTE, height: (gap.end - gap.start) * PIXELS_PER_MINUTE }}
+          >
+            {formatMinutes(gap.end - gap.start)} free · {minuteLabel(date, gap.start, format)}–{minuteLabel(date, gap.end, format)}
+          </div>
+        ))}
+
+      {occurrences.map((occurrence) => {
+        const block = blockRange(occurrence, date);
+        if (!block) return null;
+        return (
+          <button
+            key={occurrence.key}
+            type="button"
+            draggable={!occurrence.skipped}
+            onDragStart={(event) => handleDragStart(event, occurrence)}
+            onClick={() => onOpen?.(occurrence)}
+            title={`${occurrence.title} · ${minuteLabel(date, block.start, format)}`}
+            className={`absolute overflow-hidden rounded-xl border px-2 py-1 text-left text-[11px] transition ${
+              compact ? "inset-x-1" : "left-14 right-2"
+            } ${
+              occurrence.skipped
+                ? "border-white/10 bg-white/5 text-slate-500 line-through"
+                : occurrence.completed
+                  ? "border-emerald-400/30 bg-emerald-500/15 text-emerald-100"
+                  : "cursor-grab border-sky-400/40 bg-sky-500/20 text-sky-50 hover:bg-sky-500/30"
+            }`}
+            style={{
+              top: (block.start - hours.start) * PIXELS_PER_MINUTE,
+              height: Math.max((block.end - block.start) * PIXELS_PER_MINUTE, 18),
+            }}
+          >
+            <span className="font-semibold">{occurrence.title}</span>
+            {!compact && <span className="ml-2 text-sky-100/70">{minuteLabel(date, block.start, format)}</span>}
+          </button>
+        );
+      })}
+
+      {dropPreview !== null && (
+        <div
+          className="pointer-events-none absolute inset-x-1 border-t-2 border-sky-300"
+          style={{ top: (dropPreview - hours.start) * PIXELS_PER_MINUTE }}
+        >
+          <span className="rounded bg-sky-300 px-1 text-[10px] font-semibold text-slate-950">
+            {minuteLabel(date, dropPreview, format)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { formatMinutes } from "@/lib/calendar";
+import { focusPhaseLabels, focusedMs, remainingMs, type FocusSession } from "@/lib/focus";
+
+type FocusTimerProps = {
+  session: FocusSession;
+  onPause: () => void;
+  onResume: () => void;
+  onSkipBreak: () => void;
+  onStop: (complete: boolean) => void;
+};
+
+const actionClassName =
+  "rounded-full border border-white/15 px-4 py-2 text-xs font-semibold uppercase tracking-widest text-slate-100 transition hover:border-sky-400/50 hover:text-sky-200";
+
+const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, "0")}`;
+};
+
+export default function FocusTimer({ session, onPause, onResume, onSkipBreak, onStop }: FocusTimerProps) {
+  const [clock, setClock] = useState(() => new Date().getTime());
+
+  useEffect(() => {
+    if (session.pausedAt) return;
+    const interval = window.setInterval(() => setClock(new Date().getTime()), 1000);
+    return () => window.clearInterval(interval);
+  }, [session.pausedAt]);
+
+  const remaining = remainingMs(session, clock);
+  const progress = 1 - remaining / (session.phaseMinutes * 60 * 1000);
+  const onBreak = session.phase !== "focus";
+
+  return (
+    <section
+      className={`flex flex-col gap-4 rounded-3xl border px-6 py-5 sm:flex-row sm:items-center sm:justify-between ${
+        onBreak ? "border-emerald-400/30 bg-emerald-500/10" : "border-sky-400/30 bg-sky-500/10"
+      }`}
+    >
+      <div className="flex flex-col gap-1">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-300">
+          {focusPhaseLabels[session.phase]}
+          {session.mode === "pomodoro" && ` · Round ${session.round} of ${session.rounds}`}
+          {session.pausedAt && " · Paused"}
+        </p>
+        <p className="text-lg font-semibold text-white">{session.title}</p>
+        <p className="text-xs text-slate-400">
+          {formatMinutes(Math.round(focusedMs(session, clock) / 60000))} focused this session
+        </p>
+      </div>
+
+      <div className="flex flex-1 flex-col gap-2 sm:max-w-xs">
+        <p className="text-center text-4xl font-semibold tabular-nums text-white">{formatClock(remaining)}</p>
+        <span className="block h-1.5 overflow-hidden rounded-full bg-white/10">
+          <span
+            className={`block h-full rounded-full ${onBreak ? "bg-emerald-400" : "bg-sky-400"}`}
+            style={{ width: `${Math.min(Math.max(progress, 0), 1) * 100}%` }}
+          />
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {session.pausedAt ? (
+          <button onClick={onResume} className={actionClassName}>
+            Resume
+          </button>
+        ) : (
+          <button onClick={onPause} className={actionClassName}>
+            Pause
+          </button>
+        )}
+        {onBreak && (
+          <button onClick={onSkipBreak} className={actionClassName}>
+            Skip break
+          </button>
+        )}
+        <button onClick={() => onStop(false)} className={actionClassName}>
+          Stop
+        </button>
+        <button
+          onClick={() => onStop(true)}
+          className="rounded-full bg-emerald-400 px-4 py-2 text-xs font-semibold uppercase tracking-widest text-slate-950 transition hover:bg-emerald-300"
+        >
+          Done
+        </button>
+      </div>
+    </section>
+  );
+}
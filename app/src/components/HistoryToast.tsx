@@ -0,0 +1,23 @@
+type HistoryToastProps = {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+  onDismiss: () => void;
+};
+
+export default function HistoryToast({ message, actionLabel, onAction, onDismiss }: HistoryToastProps) {
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 z-50 flex -translate-x-1/2 items-center gap-4 rounded-full border border-white/15 bg-slate-900/95 px-5 py-3 text-sm text-slate-100 shadow-xl shadow-black/40"
+    >
+      <span>{message}</span>
+      <button onClick={onAction} className="font-semibold uppercase tracking-widest text-sky-300 hover:text-sky-200">
+        {actionLabel}
+      </button>
+      <button onClick={onDismiss} className="text-slate-400 hover:text-slate-200" aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+}
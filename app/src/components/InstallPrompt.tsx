@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { APP_NAME, isStandalone, type BeforeInstallPromptEvent } from "@/lib/pwa";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200";
+
+// Offers the browser's install dialog once it says the app qualifies; hidden when already running installed.
+export default function InstallPrompt() {
+  const [deferred, setDeferred] = useState<BeforeInstallPromptEvent | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    if (isStandalone()) return;
+
+    const handleBeforeInstall = (event: Event) => {
+      // Keep the mini-infobar away; the button below asks at a better moment.
+      event.preventDefault();
+      setDeferred(event as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setDeferred(null);
+
+    window.addEventListener("beforeinstallprompt", handleBeforeInstall);
+    window.addEventListener("appinstalled", handleInstalled);
+    return () => {
+      window.removeEventListener("beforeinstallprompt", handleBeforeInstall);
+      window.removeEventListener("appinstalled", handleInstalled);
+    };
+  }, []);
+
+  if (!deferred || dismissed) return null;
+
+  const handleInstall = async () => {
+    await deferred.prompt();
+    const { outcome } = await deferred.userChoice;
+    // A prompt can only be shown once; the browser fires a fresh event if installing is offered again.
+    setDeferred(null);
+    if (outcome === "dismissed") setDismissed(true);
+  };
+
+  return (
+    <div className="flex gap-1">
+      <button type="button" onClick={handleInstall} title={`Install ${APP_NAME} as an app`} className={actionClassName}>
+        ⤓ Install app
+      </button>
+      <button type="button" onClick={() => setDismissed(true)} aria-label="Hide install button" className={actionClassName}>
+        ✕
+      </button>
+    </div>
+  );
+}
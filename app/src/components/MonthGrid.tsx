@@ -0,0 +1,113 @@
+import { useState, type DragEvent } from "react";
+import {
+  OCCURRENCE_DRAG_TYPE,
+  dayDensity,
+  formatMinutes,
+  readDragPayload,
+  type OccurrenceDragPayload,
+} from "@/lib/calendar";
+import { weekdayLabels, weekdayOf } from "@/lib/recurrence";
+import type { TaskOccurrence } from "@/lib/tasks";
+
+type MonthGridProps = {
+  weeks: string[][];
+  month: string; // YYYY-MM
+  occurrences: TaskOccurrence[];
+  selectedDate: string;
+  today: string;
+  onMove: (payload: OccurrenceDragPayload, date: string, time: string) => void;
+  onSelectDate: (date: string) => void;
+};
+
+const VISIBLE_TITLES = 3;
+
+export default function MonthGrid({ weeks, month, occurrences, selectedDate, today, onMove, onSelectDate }: MonthGridProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const densities = weeks.flat().map((date) => dayDensity(date, occurrences));
+  const busiest = Math.max(1, ...densities.map((density) => density.busyMinutes));
+  const headers = weeks[0].map((date) => weekdayLabels[weekdayOf(date)]);
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, date: string) => {
+    if (!event.dataTransfer.types.includes(OCCURRENCE_DRAG_TYPE)) return;
+    event.preventDefault();
+    setDropTarget(date);
+  };
+
+  // Dropping on a day keeps the time of day; only the date changes.
+  const handleDrop = (event: DragEvent<HTMLDivElement>, date: string) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const payload = readDragPayload(event.dataTransfer);
+    if (payload) onMove(payload, date, payload.time);
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLLIElement>, occurrence: TaskOccurrence) => {
+    const payload: OccurrenceDragPayload = { key: occurrence.key, date: occurrence.date, time: occurrence.time, grabOffset: 0 };
+    event.dataTransfer.setData(OCCURRENCE_DRAG_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 p-4">
+      <div className="grid grid-cols-7 gap-2 text-center text-[10px] uppercase tracking-widest text-slate-400">
+        {headers.map((label) => (
+          <span key={label}>{label}</span>
+        ))}
+      </div>
+      <div className="mt-2 grid grid-cols-7 gap-2">
+        {weeks.flat().map((date, index) => {
+          const density = densities[index];
+          const dayOccurrences = occurrences.filter((occurrence) => occurrence.date === date && !occurrence.skipped);
+          const inMonth = date.startsWith(month);
+          return (
+            <div
+              key={date}
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelectDate(date)}
+              onKeyDown={(event) => event.key === "Enter" && onSelectDate(date)}
+              onDragOver={(event) => handleDragOver(event, date)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(event) => handleDrop(event, date)}
+              className={`flex min-h-24 flex-col gap-1 rounded-2xl border p-2 text-left text-[11px] transition ${
+                dropTarget === date
+                  ? "border-sky-300 bg-sky-400/20"
+                  : date === selectedDate
+                    ? "border-sky-400 bg-sky-400/10"
+                    : "border-white/10 hover:border-sky-400/40"
+              } ${inMonth ? "text-slate-200" : "text-slate-500"}`}
+            >
+              <span className="flex items-center justify-between">
+                <span className={`font-semibold ${date === today ? "text-amber-200" : ""}`}>{Number(date.slice(8))}</span>
+                {density.count > 0 && <span className="text-[10px] text-slate-400">{density.count}</span>}
+              </span>
+              <span className="h-1 overflow-hidden rounded-full bg-white/5" title={`${formatMinutes(density.busyMinutes)} busy`}>
+                <span
+                  className="block h-full rounded-full bg-sky-400/70"
+                  style={{ width: `${(density.busyMinutes / busiest) * 100}%` }}
+                />
+              </span>
+              <ul className="space-y-0.5">
+                {dayOccurrences.slice(0, VISIBLE_TITLES).map((occurrence) => (
+                  <li
+                    key={occurrence.key}
+                    draggable
+                    onDragStart={(event) => handleDragStart(event, occurrence)}
+                    className={`cursor-grab truncate rounded px-1 ${
+                      occurrence.completed ? "text-slate-500 line-through" : "bg-sky-500/15 text-sky-100"
+                    }`}
+                  >
+                    {occurrence.title}
+                  </li>
+                ))}
+                {dayOccurrences.length > VISIBLE_TITLES && (
+                  <li className="px-1 text-slate-400">+{dayOccurrences.length - VISIBLE_TITLES} more</li>
+                )}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
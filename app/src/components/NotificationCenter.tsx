@@ -0,0 +1,136 @@
+import { useState } from "react";
+import {
+  alertLogFilterLabels,
+  alertStatusLabels,
+  isOpenAlert,
+  matchesAlertFilter,
+  type AlertLogFilter,
+} from "@/lib/alertLog";
+import { findOccurrence } from "@/lib/reminders";
+import {
+  formatDateTimeLabel,
+  formatReminderOffset,
+  type Alert,
+  type AlertStatus,
+  type DisplayFormat,
+  type Task,
+} from "@/lib/tasks";
+
+type NotificationCenterProps = {
+  alerts: Alert[];
+  tasks: Task[];
+  format: DisplayFormat;
+  onJump: (alert: Alert) => void;
+  onComplete: (alert: Alert) => void;
+  onDismiss: (alertId: string) => void;
+  onClear: () => void;
+};
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const statusClassNames: Record<AlertStatus, string> = {
+  open: "bg-amber-400/20 text-amber-100",
+  snoozed: "bg-sky-400/20 text-sky-100",
+  dismissed: "bg-white/10 text-slate-300",
+  completed: "bg-emerald-400/20 text-emerald-100",
+  cancelled: "bg-white/5 text-slate-400",
+};
+
+export default function NotificationCenter({
+  alerts,
+  tasks,
+  format,
+  onJump,
+  onComplete,
+  onDismiss,
+  onClear,
+}: NotificationCenterProps) {
+  const [filter, setFilter] = useState<AlertLogFilter>("all");
+  const visible = alerts.filter((alert) => matchesAlertFilter(alert, filter));
+  const resolvedCount = alerts.filter((alert) => !isOpenAlert(alert)).length;
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Notifications</h2>
+          <p className="mt-1 text-xs text-slate-200/70">
+            Every reminder that fired, newest first. Entries for deleted or moved activities close on their own.
+          </p>
+        </div>
+        <button type="button" onClick={onClear} disabled={resolvedCount === 0} className={actionClassName}>
+          Clear history
+        </button>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-1 rounded-full border border-white/10 bg-black/30 p-1 text-xs">
+        {(Object.keys(alertLogFilterLabels) as AlertLogFilter[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setFilter(option)}
+            className={`rounded-full px-3 py-1 transition ${
+              filter === option ? "bg-sky-500 text-slate-950" : "text-slate-300 hover:text-sky-200"
+            }`}
+          >
+            {alertLogFilterLabels[option]}
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="mt-4 text-xs text-slate-400">No notifications here yet.</p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {visible.map((alert) => {
+            const occurrence = findOccurrence(tasks, alert.occurrenceKey, alert.date);
+            const taskExists = occurrence !== null || tasks.some((task) => task.id === alert.taskId);
+            return (
+              <li key={alert.id} className="rounded-2xl border border-white/10 bg-black/20 p-3 text-xs">
+                <div className="flex items-start justify-between gap-2">
+                  <span className="min-w-0">
+                    <span className="block truncate font-semibold text-white">{alert.title}</span>
+                    <span className="block text-slate-400">
+                      {alert.missed ? "Missed" : "Fired"} {formatDateTimeLabel(new Date(alert.firedAt), format)} ·{" "}
+                      {formatReminderOffset(alert.offset)} {formatDateTimeLabel(new Date(alert.scheduledAt), format)}
+                    </span>
+                  </span>
+                  <span className={`shrink-0 rounded-full px-2 py-0.5 ${statusClassNames[alert.status]}`}>
+                    {alertStatusLabels[alert.status]}
+                  </span>
+                </div>
+                {alert.status !== "open" && alert.resolvedAt && (
+                  <p className="mt-1 text-slate-500">
+                    {alert.status === "snoozed" && alert.snoozedUntil
+                      ? `Until ${formatDateTimeLabel(new Date(alert.snoozedUntil), format)}`
+                      : (alert.note ?? alertStatusLabels[alert.status])}{" "}
+                    · {formatDateTimeLabel(new Date(alert.resolvedAt), format)}
+                  </p>
+                )}
+                <div className="mt-2 flex flex-wrap gap-1">
+                  <button type="button" onClick={() => onJump(alert)} disabled={!taskExists} className={actionClassName}>
+                    Go to activity
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onComplete(alert)}
+                    disabled={!occurrence || occurrence.completed}
+                    className={actionClassName}
+                  >
+                    Mark done
+                  </button>
+                  {isOpenAlert(alert) && (
+                    <button type="button" onClick={() => onDismiss(alert.id)} className={actionClassName}>
+                      Dismiss
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
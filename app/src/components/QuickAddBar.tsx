@@ -0,0 +1,96 @@
+import { useState, type FormEvent, type KeyboardEvent } from "react";
+import { endTimeOf, formatMinutes } from "@/lib/calendar";
+import { priorityLabels } from "@/lib/categories";
+import { createQuickAddTask, parseQuickAddLines, type QuickAddDefaults } from "@/lib/quickAdd";
+import { describeRecurrence } from "@/lib/recurrence";
+import { describeReminders } from "@/lib/reminders";
+import { combineDateTime, formatDateLabel, formatTimeLabel, type DisplayFormat, type Task } from "@/lib/tasks";
+
+type QuickAddBarProps = {
+  selectedDate: string;
+  defaults: QuickAddDefaults;
+  format: DisplayFormat;
+  onAdd: (tasks: Task[]) => void;
+};
+
+const MAX_VISIBLE_ROWS = 6;
+
+export default function QuickAddBar({ selectedDate, defaults, format, onAdd }: QuickAddBarProps) {
+  const [text, setText] = useState("");
+  const lines = parseQuickAddLines(text, selectedDate, defaults);
+  const ready = lines.flatMap((line) => (line.draft ? [line.draft] : []));
+  const failed = lines.length - ready.length;
+
+  const handleSubmit = (event?: FormEvent<HTMLFormElement>) => {
+    event?.preventDefault();
+    if (ready.length === 0) return;
+    onAdd(ready.map(createQuickAddTask));
+    // Lines that could not be read stay behind so they can be fixed and added afterwards.
+    setText(
+      lines
+        .filter((line) => !line.draft)
+        .map((line) => line.line)
+        .join("\n"),
+    );
+  };
+
+  // Enter adds, Shift+Enter starts another line for batch entry.
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== "Enter" || event.shiftKey) return;
+    event.preventDefault();
+    handleSubmit();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-3xl border border-white/10 bg-white/10 px-6 py-6 text-sm backdrop-blur">
+      <h2 className="text-lg font-semibold text-white">Quick add</h2>
+      <p className="mt-1 text-xs text-slate-200/70">
+        Type or paste one activity per line, e.g. “standup tomorrow 9:15 for 15m remind 5m before every weekday #team !high”.
+      </p>
+      <textarea
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={Math.min(Math.max(text.split("\n").length, 1), MAX_VISIBLE_ROWS)}
+        placeholder="Lunch with Sam at noon for 1h"
+        className="mt-4 w-full resize-none rounded-2xl border border-white/15 bg-black/30 px-4 py-3 text-sm text-white placeholder:text-slate-400 focus:border-sky-400 focus:outline-none"
+      />
+
+      {lines.length > 0 && (
+        <ul className="mt-3 max-h-72 space-y-2 overflow-y-auto pr-1">
+          {lines.map(({ line, draft, error }, index) =>
+            draft ? (
+              <li key={`${line}-${index}`} className="rounded-2xl border border-sky-400/30 p-2 text-xs text-sky-100">
+                <span className="block font-semibold text-white">{draft.title}</span>
+                <span className="block">
+                  {formatDateLabel(draft.date, format)} · {formatTimeLabel(combineDateTime(draft.date, draft.time), format)}–
+                  {formatTimeLabel(combineDateTime(draft.date, endTimeOf(draft)), format)} ({formatMinutes(draft.duration)})
+                </span>
+                <span className="block text-slate-300">
+                  {describeReminders(draft.reminders)}
+                  {draft.recurrence ? ` · ${describeRecurrence(draft.recurrence, draft.date, format)}` : ""}
+                  {draft.priority ? ` · ${priorityLabels[draft.priority]} priority` : ""}
+                  {draft.tags.map((tag) => ` #${tag}`).join("")}
+                </span>
+              </li>
+            ) : (
+              <li key={`${line}-${index}`} className="rounded-2xl border border-rose-400/30 p-2 text-xs text-rose-200">
+                <span className="block font-semibold">{line}</span>
+                <span className="block">{error}</span>
+              </li>
+            ),
+          )}
+        </ul>
+      )}
+
+      <button
+        type="submit"
+        disabled={ready.length === 0}
+        className="mt-3 w-full rounded-2xl bg-sky-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-sky-400 disabled:opacity-40"
+      >
+        {ready.length > 1 ? `Add ${ready.length} activities` : "Add activity"}
+        {failed > 0 ? ` · ${failed} need fixing` : ""}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,123 @@
+import { weekdayLabels, type RecurrenceDraft, type RepeatPreset } from "@/lib/recurrence";
+
+type RecurrenceFieldsProps = {
+  draft: RecurrenceDraft;
+  onChange: (draft: RecurrenceDraft) => void;
+};
+
+const presetOptions: { value: RepeatPreset; label: string }[] = [
+  { value: "none", label: "Does not repeat" },
+  { value: "daily", label: "Every day" },
+  { value: "weekdays", label: "Every weekday" },
+  { value: "everyNDays", label: "Every N days" },
+  { value: "weekly", label: "Weekly on chosen days" },
+  { value: "monthlyDate", label: "Monthly on this date" },
+  { value: "monthlyWeekday", label: "Monthly on this weekday" },
+];
+
+const intervalUnits: Partial<Record<RepeatPreset, string>> = {
+  everyNDays: "days",
+  weekly: "weeks",
+  monthlyDate: "months",
+  monthlyWeekday: "months",
+};
+
+const fieldClassName =
+  "rounded-2xl border border-white/15 bg-black/30 px-4 py-3 text-sm text-white focus:border-sky-400 focus:outline-none";
+
+export default function RecurrenceFields({ draft, onChange }: RecurrenceFieldsProps) {
+  const update = (changes: Partial<RecurrenceDraft>) => onChange({ ...draft, ...changes });
+  const unit = intervalUnits[draft.preset];
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: draft.weekdays.includes(day)
+        ? draft.weekdays.filter((value) => value !== day)
+        : [...draft.weekdays, day].sort(),
+    });
+
+  return (
+    <>
+      <label className="mt-4 block text-xs uppercase tracking-[0.3em] text-slate-200">Repeat</label>
+      <select
+        value={draft.preset}
+        onChange={(event) => update({ preset: event.target.value as RepeatPreset })}
+        className={`mt-2 w-full ${fieldClassName}`}
+      >
+        {presetOptions.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {unit && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-slate-200">
+          <span>Every</span>
+          <input
+            type="number"
+            min={1}
+            value={draft.interval}
+            onChange={(event) => update({ interval: Math.max(1, Number(event.target.value)) })}
+            className={`w-20 ${fieldClassName}`}
+          />
+          <span>{unit}</span>
+        </div>
+      )}
+
+      {draft.preset === "weekly" && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {weekdayLabels.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`rounded-full border px-3 py-1 text-xs transition ${
+                draft.weekdays.includes(day)
+                  ? "border-sky-400 bg-sky-400/20 text-sky-100"
+                  : "border-white/10 text-slate-300 hover:border-sky-400/40"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {draft.preset !== "none" && (
+        <div className="mt-3 grid gap-2 sm:grid-cols-2">
+          <select
+            value={draft.end}
+            onChange={(event) => update({ end: event.target.value as RecurrenceDraft["end"] })}
+            className={fieldClassName}
+          >
+            <option value="never">Never ends</option>
+            <option value="until">Ends on date</option>
+            <option value="count">Ends after</option>
+          </select>
+          {draft.end === "until" && (
+            <input
+              type="date"
+              value={draft.until}
+              onChange={(event) => update({ until: event.target.value })}
+              className={fieldClassName}
+              required
+            />
+          )}
+          {draft.end === "count" && (
+            <label className="flex items-center gap-2 text-xs text-slate-200">
+              <input
+                type="number"
+                min={1}
+                value={draft.count}
+                onChange={(event) => update({ count: Math.max(1, Number(event.target.value)) })}
+                className={`w-20 ${fieldClassName}`}
+              />
+              times
+            </label>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import { sortReminderOffsets } from "@/lib/tasks";
+
+type ReminderOffsetsPickerProps = {
+  value: number[];
+  options: number[];
+  onChange: (offsets: number[]) => void;
+  compact?: boolean;
+};
+
+export default function ReminderOffsetsPicker({ value, options, onChange, compact = false }: ReminderOffsetsPickerProps) {
+  // Offsets set before the options changed stay visible so they can still be switched off.
+  const offsets = [...new Set([...options, ...value])].sort((a, b) => a - b);
+
+  const toggle = (offset: number) =>
+    onChange(
+      value.includes(offset) ? value.filter((item) => item !== offset) : sortReminderOffsets([...value, offset]),
+    );
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {offsets.map((offset) => (
+        <button
+          key={offset}
+          type="button"
+          aria-pressed={value.includes(offset)}
+          onClick={() => toggle(offset)}
+          className={`rounded-full border transition ${compact ? "px-2 py-0.5 text-[11px]" : "px-3 py-1 text-xs"} ${
+            value.includes(offset)
+              ? "border-sky-400 bg-sky-400/20 text-sky-100"
+              : "border-white/10 text-slate-300 hover:border-sky-400/40"
+          }`}
+        >
+          {offset === 0 ? (compact ? "Start" : "At start") : compact ? `${offset}m` : `${offset} min`}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { rolloverReasonLabels, type RolloverBatch } from "@/lib/rollover";
+import { combineDateTime, formatDateLabel, formatTimeLabel, type DisplayFormat, type TaskOccurrence } from "@/lib/tasks";
+
+type RolloverPanelProps = {
+  overdue: TaskOccurrence[];
+  asking: TaskOccurrence[];
+  log: RolloverBatch[];
+  format: DisplayFormat;
+  onAnswer: (occurrence: TaskOccurrence, roll: boolean) => void;
+  onAnswerAll: (roll: boolean) => void;
+  onRescheduleAll: () => void;
+  onUndo: (batch: RolloverBatch) => void;
+};
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const VISIBLE_BATCHES = 5;
+
+const slotLabel = (date: string, time: string, format: DisplayFormat) =>
+  `${formatDateLabel(date, format)} ${formatTimeLabel(combineDateTime(date, time), format)}`;
+
+const describeBatch = (batch: RolloverBatch, format: DisplayFormat) =>
+  batch.moves.length === 1
+    ? `${batch.moves[0].title} → ${slotLabel(batch.moves[0].toDate, batch.moves[0].toTime, format)}`
+    : `${batch.moves.length} activities`;
+
+export default function RolloverPanel({
+  overdue,
+  asking,
+  log,
+  format,
+  onAnswer,
+  onAnswerAll,
+  onRescheduleAll,
+  onUndo,
+}: RolloverPanelProps) {
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Rollover</h2>
+      <p className="mt-1 text-xs text-slate-200/70">
+        {overdue.length === 0
+          ? "Nothing overdue. Unfinished activities follow their own rollover setting each morning."
+          : `${overdue.length} unfinished ${overdue.length === 1 ? "activity is" : "activities are"} overdue.`}
+      </p>
+      <button type="button" onClick={onRescheduleAll} disabled={overdue.length === 0} className={`mt-3 ${actionClassName}`}>
+        Reschedule all into free slots
+      </button>
+
+      {asking.length > 0 && (
+        <div className="mt-4 border-t border-white/10 pt-4">
+          <p className="text-xs text-slate-300">Left unfinished on earlier days. Move them to today?</p>
+          <ul className="mt-2 space-y-2">
+            {asking.map((occurrence) => (
+              <li key={occurrence.key} className="flex items-center justify-between gap-2 rounded-2xl border border-amber-400/30 p-2 text-xs">
+                <span className="min-w-0">
+                  <span className="block truncate font-semibold text-white">{occurrence.title}</span>
+                  <span className="block text-amber-200/80">{slotLabel(occurrence.date, occurrence.time, format)}</span>
+                </span>
+                <span className="flex shrink-0 gap-1">
+                  <button type="button" onClick={() => onAnswer(occurrence, true)} className={actionClassName}>
+                    Today
+                  </button>
+                  <button type="button" onClick={() => onAnswer(occurrence, false)} className={actionClassName}>
+                    Leave
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+          {asking.length > 1 && (
+            <div className="mt-2 flex gap-2">
+              <button type="button" onClick={() => onAnswerAll(true)} className={actionClassName}>
+                Move all
+              </button>
+              <button type="button" onClick={() => onAnswerAll(false)} className={actionClassName}>
+                Leave all
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {log.length > 0 && (
+        <div className="mt-4 border-t border-white/10 pt-4">
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-300">Recent moves</p>
+          <ul className="mt-2 space-y-2">
+            {log.slice(0, VISIBLE_BATCHES).map((batch) => (
+              <li key={batch.id} className="flex items-center justify-between gap-2 text-xs text-slate-300">
+                <span className="min-w-0">
+                  <span className="block truncate">{describeBatch(batch, format)}</span>
+                  <span className="block text-slate-500">
+                    {rolloverReasonLabels[batch.reason]} · {formatTimeLabel(new Date(batch.at), format)}
+                  </span>
+                </span>
+                <button type="button" onClick={() => onUndo(batch)} className={actionClassName}>
+                  Undo
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
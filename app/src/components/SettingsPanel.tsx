@@ -0,0 +1,252 @@
+import { useState } from "react";
+import ReminderOffsetsPicker from "@/components/ReminderOffsetsPicker";
+import { weekdayLabels } from "@/lib/recurrence";
+import {
+  defaultSettings,
+  displayFormatOf,
+  isValidLocale,
+  localeOptions,
+  parseOffsetList,
+  pollIntervalOptions,
+  themeLabels,
+  timeFormatLabels,
+  type Settings,
+  type Theme,
+  type TimeFormat,
+  type WorkingHours,
+} from "@/lib/settings";
+import { combineDateTime, formatDateLabel, formatTimeLabel } from "@/lib/tasks";
+import type { Template } from "@/lib/templates";
+
+type SettingsPanelProps = {
+  settings: Settings;
+  templates: Template[];
+  onChange: (settings: Settings) => void;
+};
+
+const fieldClassName =
+  "rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white focus:border-sky-400 focus:outline-none";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+// A fixed afternoon so the preview shows the hour format without reading the clock during render.
+const PREVIEW_DATE = "2025-03-14";
+const PREVIEW_TIME = "15:30";
+
+export default function SettingsPanel({ settings, templates, onChange }: SettingsPanelProps) {
+  const [localeError, setLocaleError] = useState(false);
+  const format = displayFormatOf(settings);
+
+  const update = (changes: Partial<Settings>) => onChange({ ...settings, ...changes });
+
+  const handleOptionsBlur = (value: string) => {
+    const reminderOptions = parseOffsetList(value);
+    if (reminderOptions.length === 0) return;
+    update({
+      reminderOptions,
+      defaultReminders: settings.defaultReminders.filter((offset) => reminderOptions.includes(offset)),
+    });
+  };
+
+  const updateHours = (changes: Partial<WorkingHours>) => update({ workingHours: { ...settings.workingHours, ...changes } });
+
+  const toggleWorkingDay = (day: number) => {
+    const { days } = settings.workingHours;
+    updateHours({ days: days.includes(day) ? days.filter((item) => item !== day) : [...days, day].sort((a, b) => a - b) });
+  };
+
+  const handleLocaleBlur = (value: string) => {
+    const locale = value.trim();
+    if (!isValidLocale(locale)) {
+      setLocaleError(true);
+      return;
+    }
+    setLocaleError(false);
+    if (locale !== settings.locale) update({ locale });
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-white">Settings</h2>
+        <button type="button" onClick={() => onChange(defaultSettings)} className={actionClassName}>
+          Reset
+        </button>
+      </div>
+
+      <div className="mt-4 grid gap-5 md:grid-cols-2">
+        <div className="space-y-3 text-xs text-slate-300">
+          <h3 className="uppercase tracking-[0.3em]">Reminders</h3>
+          <div className="space-y-1">
+            <p>Preselected for new activities</p>
+            <ReminderOffsetsPicker
+              value={settings.defaultReminders}
+              options={settings.reminderOptions}
+              onChange={(defaultReminders) => update({ defaultReminders })}
+            />
+          </div>
+          <label className="block space-y-1">
+            <span className="block">Offered offsets (minutes)</span>
+            <input
+              key={settings.reminderOptions.join()}
+              defaultValue={settings.reminderOptions.join(", ")}
+              onBlur={(event) => handleOptionsBlur(event.target.value)}
+              className={`w-full ${fieldClassName}`}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Check for due reminders every
+            <select
+              value={settings.pollSeconds}
+              onChange={(event) => update({ pollSeconds: Number(event.target.value) })}
+              className={fieldClassName}
+            >
+              {pollIntervalOptions.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-3 text-xs text-slate-300">
+          <h3 className="uppercase tracking-[0.3em]">Calendar & display</h3>
+          <label className="flex items-center gap-2">
+            Week starts on
+            <select
+              value={settings.weekStartsOn}
+              onChange={(event) => update({ weekStartsOn: Number(event.target.value) })}
+              className={fieldClassName}
+            >
+              {weekdayLabels.map((label, day) => (
+                <option key={label} value={day}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Time format
+            <select
+              value={settings.timeFormat}
+              onChange={(event) => update({ timeFormat: event.target.value as TimeFormat })}
+              className={fieldClassName}
+            >
+              {(Object.keys(timeFormatLabels) as TimeFormat[]).map((timeFormat) => (
+                <option key={timeFormat} value={timeFormat}>
+                  {timeFormatLabels[timeFormat]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="block">Locale</span>
+            <input
+              key={settings.locale}
+              list="settings-locales"
+              defaultValue={settings.locale}
+              placeholder="Browser default"
+              onBlur={(event) => handleLocaleBlur(event.target.value)}
+              className={`w-full ${fieldClassName}`}
+            />
+            <datalist id="settings-locales">
+              {localeOptions.map((locale) => (
+                <option key={locale} value={locale} />
+              ))}
+            </datalist>
+            {localeError && <span className="block text-rose-300">That is not a locale this browser knows.</span>}
+          </label>
+          <p className="text-slate-400">
+            Preview: {formatDateLabel(PREVIEW_DATE, format)} ·{" "}
+            {formatTimeLabel(combineDateTime(PREVIEW_DATE, PREVIEW_TIME), format)}
+          </p>
+          <p>Theme</p>
+          <div className="flex gap-1 rounded-full border border-white/10 bg-black/30 p-1">
+            {(Object.keys(themeLabels) as Theme[]).map((theme) => (
+              <button
+                key={theme}
+                type="button"
+                onClick={() => update({ theme })}
+                className={`flex-1 rounded-full px-3 py-1 transition ${
+                  settings.theme === theme ? "bg-sky-500 text-slate-950" : "text-slate-300 hover:text-sky-200"
+                }`}
+              >
+                {themeLabels[theme]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-5 space-y-2 border-t border-white/10 pt-4 text-xs text-slate-300">
+        <h3 className="uppercase tracking-[0.3em]">Working hours</h3>
+        <p className="text-slate-400">The backlog auto-planner only fills gaps inside these hours.</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="time"
+            value={settings.workingHours.start}
+            onChange={(event) => event.target.value && updateHours({ start: event.target.value })}
+            aria-label="Working hours start"
+            className={fieldClassName}
+          />
+          to
+          <input
+            type="time"
+            value={settings.workingHours.end}
+            onChange={(event) => event.target.value && updateHours({ end: event.target.value })}
+            aria-label="Working hours end"
+            className={fieldClassName}
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {weekdayLabels.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWorkingDay(day)}
+              aria-pressed={settings.workingHours.days.includes(day)}
+              className={`rounded-full border px-3 py-1 transition ${
+                settings.workingHours.days.includes(day)
+                  ? "border-sky-400 bg-sky-400/20 text-sky-100"
+                  : "border-white/10 text-slate-300 hover:text-sky-200"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {settings.workingHours.end <= settings.workingHours.start && (
+          <p className="text-rose-300">The day ends before it starts, so nothing can be planned.</p>
+        )}
+      </div>
+
+      <div className="mt-5 space-y-2 border-t border-white/10 pt-4 text-xs text-slate-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.autoSeedTemplate}
+            onChange={(event) => update({ autoSeedTemplate: event.target.checked })}
+          />
+          Start an empty planner from a template
+        </label>
+        {settings.autoSeedTemplate && (
+          <select
+            value={settings.seedTemplateId}
+            onChange={(event) => update({ seedTemplateId: event.target.value })}
+            aria-label="Starter template"
+            className={fieldClassName}
+          >
+            <option value="">First template</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
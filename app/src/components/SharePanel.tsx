@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { agendaDates, type AgendaScope } from "@/lib/agenda";
+import type { Category } from "@/lib/categories";
+import { encodeSharedPlan, sharedPlanFrom, shareUrl } from "@/lib/share";
+import type { Task } from "@/lib/tasks";
+
+type SharePanelProps = {
+  tasks: Task[];
+  categories: Category[];
+  selectedDate: string;
+  weekStartsOn: number;
+};
+
+const fieldClassName =
+  "rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white focus:border-sky-400 focus:outline-none";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+export default function SharePanel({ tasks, categories, selectedDate, weekStartsOn }: SharePanelProps) {
+  const [scope, setScope] = useState<AgendaScope>("day");
+  const [link, setLink] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    const plan = sharedPlanFrom(tasks, categories, agendaDates(selectedDate, scope, weekStartsOn));
+    if (plan.tasks.length === 0) {
+      setLink(null);
+      setMessage(`Nothing is planned ${scope === "day" ? "on this day" : "this week"} yet.`);
+      return;
+    }
+    try {
+      setLink(shareUrl(window.location.origin, await encodeSharedPlan(plan)));
+      setMessage(null);
+    } catch (error) {
+      console.error("Unable to create share link", error);
+      setMessage("This browser cannot create share links.");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setMessage("Link copied.");
+    } catch {
+      setMessage("Copy the link from the field above.");
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Share a plan</h2>
+      <p className="mt-1 text-xs text-slate-200/70">
+        The plan travels inside the link itself, so nothing is uploaded. Anyone with it sees a read-only copy.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <div className="flex gap-1 rounded-full border border-white/10 bg-black/30 p-1 text-xs">
+          {(["day", "week"] as AgendaScope[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setScope(option);
+                setLink(null);
+              }}
+              className={`rounded-full px-3 py-1 transition ${
+                scope === option ? "bg-sky-500 text-slate-950" : "text-slate-300 hover:text-sky-200"
+              }`}
+            >
+              {option === "day" ? "This day" : "This week"}
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={handleCreate} className={actionClassName}>
+          Create link
+        </button>
+      </div>
+
+      {link ? (
+        <div className="mt-3 flex flex-col gap-2">
+          <input
+            type="text"
+            readOnly
+            value={link}
+            onFocus={(event) => event.target.select()}
+            className={`${fieldClassName} text-xs`}
+          />
+          <div className="flex gap-2">
+            <button type="button" onClick={handleCopy} className={actionClassName}>
+              Copy
+            </button>
+            <a href={link} target="_blank" rel="noreferrer" className={actionClassName}>
+              Preview
+            </a>
+          </div>
+        </div>
+      ) : null}
+      {message ? <p className="mt-3 text-xs text-slate-300">{message}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { endTimeOf, formatMinutes } from "@/lib/calendar";
+import { priorityLabels, priorityOf } from "@/lib/categories";
+import { describeReminders } from "@/lib/reminders";
+import type { SharedTask } from "@/lib/share";
+import { combineDateTime, formatDateLabel, formatTimeLabel, zoneHint, type DisplayFormat } from "@/lib/tasks";
+
+type SharedTaskCardProps = {
+  task: SharedTask;
+  format: DisplayFormat;
+};
+
+// The planner's activity card without any of its controls.
+export default function SharedTaskCard({ task, format }: SharedTaskCardProps) {
+  const hint = zoneHint(task, format);
+  const priority = priorityOf(task);
+
+  return (
+    <article className="grid gap-4 rounded-3xl border border-white/10 bg-black/30 px-6 py-5 md:grid-cols-[auto,1fr] md:items-center">
+      <div className="flex flex-col gap-1">
+        <p className="text-xs uppercase tracking-widest text-slate-400">{formatDateLabel(task.date, format)}</p>
+        <p className="text-xl font-semibold text-slate-100">
+          {formatTimeLabel(combineDateTime(task.date, task.time), format)}
+          {hint && <span className="ml-1 text-xs font-normal text-slate-400">{hint.zone}</span>}
+        </p>
+        <p className="text-xs text-slate-400">
+          until {formatTimeLabel(combineDateTime(task.date, endTimeOf(task)), format)} · {formatMinutes(task.duration)}
+        </p>
+        {hint && <p className="text-xs text-sky-200/80">{hint.local} your time</p>}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            className="h-5 w-5 rounded border border-white/20 bg-black/40 text-sky-500"
+            checked={task.completed}
+            readOnly
+            disabled
+          />
+          <h2 className={`text-lg font-semibold ${task.completed ? "text-slate-400 line-through" : "text-slate-100"}`}>
+            {task.title}
+          </h2>
+        </div>
+        {task.description && <p className="text-sm text-slate-300/80">{task.description}</p>}
+        {task.checklist && task.checklist.length > 0 && (
+          <ul className="space-y-1 text-sm text-slate-300">
+            {task.checklist.map((item, index) => (
+              <li key={`${item.title}-${index}`} className={item.done ? "text-slate-500 line-through" : ""}>
+                {item.done ? "☑" : "☐"} {item.title}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          {task.category && (
+            <span
+              className="rounded-full border px-3 py-1 text-slate-100"
+              style={{ borderColor: `${task.category.color}66`, backgroundColor: `${task.category.color}26` }}
+            >
+              {task.category.name}
+            </span>
+          )}
+          {priority !== "normal" && (
+            <span
+              className={`rounded-full border px-3 py-1 ${
+                priority === "high" ? "border-rose-400/40 bg-rose-500/20 text-rose-100" : "border-white/10 bg-white/5 text-slate-400"
+              }`}
+            >
+              {priorityLabels[priority]} priority
+            </span>
+          )}
+          {task.tags?.map((tag) => (
+            <span key={tag} className="rounded-full border border-white/10 px-3 py-1 text-slate-300">
+              #{tag}
+            </span>
+          ))}
+          <span className="rounded-full border border-white/10 bg-white/5 px-3 py-1">{describeReminders(task.reminders)}</span>
+        </div>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,35 @@
+import type { SoundFile } from "@/lib/soundLibrary";
+import { fileSoundId, toneIds, tones, type SoundId } from "@/lib/sounds";
+
+type SoundSelectProps = {
+  value: SoundId | undefined;
+  files: SoundFile[];
+  onChange: (sound: SoundId | undefined) => void;
+  inheritLabel?: string; // shown for an unset value; omit to require a choice
+  className?: string;
+  ariaLabel?: string;
+};
+
+export default function SoundSelect({ value, files, onChange, inheritLabel, className, ariaLabel }: SoundSelectProps) {
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(event) => onChange((event.target.value || undefined) as SoundId | undefined)}
+      aria-label={ariaLabel}
+      className={className}
+    >
+      {inheritLabel !== undefined && <option value="">{inheritLabel}</option>}
+      {toneIds.map((tone) => (
+        <option key={tone} value={tone}>
+          {tones[tone].label}
+        </option>
+      ))}
+      {files.map((file) => (
+        <option key={file.id} value={fileSoundId(file.id)}>
+          {file.name}
+        </option>
+      ))}
+      <option value="silent">Silent</option>
+    </select>
+  );
+}
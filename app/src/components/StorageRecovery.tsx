@@ -0,0 +1,101 @@
+import { downloadFile } from "@/lib/download";
+import { countBackupRecords, taskSchema, templateSchema, type Backup, type QuarantinedRecord } from "@/lib/storage";
+import { formatDateTimeLabel, type DisplayFormat } from "@/lib/tasks";
+
+type StorageRecoveryProps = {
+  backups: Backup[];
+  quarantined: QuarantinedRecord[];
+  format: DisplayFormat;
+  onBackupNow: () => void;
+  onRestore: (backupId: string) => void;
+  onClearQuarantine: () => void;
+};
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const backupReasonLabels: Record<Backup["reason"], string> = {
+  scheduled: "Automatic",
+  "before-migration": "Before upgrade",
+  "before-restore": "Before restore",
+};
+
+const sourceLabels: Record<string, string> = {
+  [taskSchema.key]: taskSchema.label,
+  [templateSchema.key]: templateSchema.label,
+};
+
+export default function StorageRecovery({
+  backups,
+  quarantined,
+  format,
+  onBackupNow,
+  onRestore,
+  onClearQuarantine,
+}: StorageRecoveryProps) {
+  const formatTimestamp = (value: string) => formatDateTimeLabel(new Date(value), format);
+
+  const handleRestore = (backup: Backup) => {
+    if (window.confirm(`Restore the backup from ${formatTimestamp(backup.createdAt)}? Your current plan is backed up first.`)) {
+      onRestore(backup.id);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Backups</h2>
+      <p className="mt-1 text-xs text-slate-200/70">Snapshots are kept automatically every hour, newest first.</p>
+
+      {quarantined.length > 0 ? (
+        <div className="mt-4 rounded-2xl border border-amber-400/40 bg-amber-400/10 p-3 text-xs text-amber-100">
+          <p className="font-semibold">
+            {quarantined.length} unreadable record{quarantined.length === 1 ? " was" : "s were"} set aside
+          </p>
+          <ul className="mt-2 space-y-1">
+            {quarantined.slice(-5).map((record) => (
+              <li key={record.id}>
+                {sourceLabels[record.source] ?? record.source}: {record.reason}
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                downloadFile("daily-rhythm-quarantine.json", JSON.stringify(quarantined, null, 2), "application/json")
+              }
+              className={actionClassName}
+            >
+              Download
+            </button>
+            <button type="button" onClick={onClearQuarantine} className={actionClassName}>
+              Discard
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {backups.length > 0 ? (
+        <ul className="mt-4 space-y-2">
+          {backups.map((backup) => (
+            <li key={backup.id} className="flex items-center justify-between gap-2 rounded-2xl border border-white/10 p-2 text-xs">
+              <span className="text-slate-200">
+                <span className="block font-semibold text-white">{formatTimestamp(backup.createdAt)}</span>
+                {backupReasonLabels[backup.reason]} · {countBackupRecords(backup, taskSchema.key)} activities ·{" "}
+                {countBackupRecords(backup, templateSchema.key)} templates
+              </span>
+              <button type="button" onClick={() => handleRestore(backup)} className={actionClassName}>
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-xs text-slate-300">No backups yet.</p>
+      )}
+      <button type="button" onClick={onBackupNow} className={`mt-3 ${actionClassName}`}>
+        Back up now
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import type { SyncConflict } from "@/lib/sync";
+import type { SyncStatus } from "@/lib/syncClient";
+import { formatTimeLabel, type DisplayFormat } from "@/lib/tasks";
+
+type SyncPanelProps = {
+  status: SyncStatus;
+  pending: number;
+  lastSyncedAt?: string;
+  conflicts: SyncConflict[];
+  format: DisplayFormat;
+  onSyncNow: () => void;
+  onDismissConflict: (conflictId: string) => void;
+};
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+const statusLabels: Record<SyncStatus, { label: string; className: string }> = {
+  idle: { label: "Up to date", className: "bg-emerald-400" },
+  syncing: { label: "Syncing…", className: "bg-sky-400" },
+  offline: { label: "Offline — changes are queued", className: "bg-amber-400" },
+  error: { label: "Server error — will retry", className: "bg-rose-400" },
+};
+
+export default function SyncPanel({
+  status,
+  pending,
+  lastSyncedAt,
+  conflicts,
+  format,
+  onSyncNow,
+  onDismissConflict,
+}: SyncPanelProps) {
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Sync</h2>
+      <p className="mt-2 flex items-center gap-2 text-xs text-slate-200">
+        <span className={`h-2 w-2 rounded-full ${statusLabels[status].className}`} />
+        {statusLabels[status].label}
+      </p>
+      <p className="mt-1 text-xs text-slate-400">
+        {pending} change{pending === 1 ? "" : "s"} waiting
+        {lastSyncedAt ? ` · last synced ${formatTimeLabel(new Date(lastSyncedAt), format)}` : ""}
+      </p>
+      <button type="button" onClick={onSyncNow} disabled={status === "syncing"} className={`mt-3 ${actionClassName}`}>
+        Sync now
+      </button>
+
+      {conflicts.length > 0 ? (
+        <ul className="mt-4 space-y-2">
+          {conflicts.map((conflict) => (
+            <li
+              key={conflict.id}
+              className="flex items-start justify-between gap-2 rounded-2xl border border-amber-400/40 bg-amber-400/10 p-2 text-xs text-amber-100"
+            >
+              <span>
+                <span className="block font-semibold">
+                  {conflict.title} · {conflict.field}
+                </span>
+                {conflict.reason}
+              </span>
+              <button
+                type="button"
+                onClick={() => onDismissConflict(conflict.id)}
+                className="text-amber-200/70 hover:text-white"
+                aria-label="Dismiss conflict"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
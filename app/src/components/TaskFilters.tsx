@@ -0,0 +1,162 @@
+import {
+  emptyFilter,
+  isFilterActive,
+  priorities,
+  priorityLabels,
+  type Category,
+  type FilterScope,
+  type Priority,
+  type TaskFilter,
+} from "@/lib/categories";
+import { combineDateTime, formatDateLabel, formatTimeLabel, type DisplayFormat, type TaskOccurrence } from "@/lib/tasks";
+
+type TaskFiltersProps = {
+  filter: TaskFilter;
+  scope: FilterScope;
+  categories: Category[];
+  tags: string[];
+  results: TaskOccurrence[] | null; // matches across every date, null while scoped to the day
+  format: DisplayFormat;
+  onChange: (filter: TaskFilter) => void;
+  onScopeChange: (scope: FilterScope) => void;
+  onSelect: (occurrence: TaskOccurrence) => void;
+};
+
+const fieldClassName =
+  "rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none";
+
+const MAX_RESULTS = 50;
+
+export default function TaskFilters({
+  filter,
+  scope,
+  categories,
+  tags,
+  results,
+  format,
+  onChange,
+  onScopeChange,
+  onSelect,
+}: TaskFiltersProps) {
+  const update = (changes: Partial<TaskFilter>) => onChange({ ...filter, ...changes });
+  const dates = results ? [...new Set(results.slice(0, MAX_RESULTS).map((occurrence) => occurrence.date))] : [];
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(event) => update({ query: event.target.value })}
+          placeholder="Search title, notes or #tag"
+          aria-label="Search activities"
+          className={`min-w-40 flex-1 ${fieldClassName}`}
+        />
+        <select value={filter.categoryId} onChange={(event) => update({ categoryId: event.target.value })} className={fieldClassName}>
+          <option value="all">All categories</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+          <option value="none">Uncategorised</option>
+        </select>
+        <select
+          value={filter.priority}
+          onChange={(event) => update({ priority: event.target.value as Priority | "all" })}
+          className={fieldClassName}
+        >
+          <option value="all">Any priority</option>
+          {priorities.map((priority) => (
+            <option key={priority} value={priority}>
+              {priorityLabels[priority]}
+            </option>
+          ))}
+        </select>
+        {tags.length > 0 && (
+          <select value={filter.tag} onChange={(event) => update({ tag: event.target.value })} className={fieldClassName}>
+            <option value="">Any tag</option>
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                #{tag}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={filter.status}
+          onChange={(event) => update({ status: event.target.value as TaskFilter["status"] })}
+          className={fieldClassName}
+        >
+          <option value="all">Open and done</option>
+          <option value="open">Open only</option>
+          <option value="done">Done only</option>
+        </select>
+        <div className="flex gap-1 rounded-full border border-white/10 bg-black/30 p-1 text-xs">
+          {(["day", "all"] as FilterScope[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onScopeChange(option)}
+              className={`rounded-full px-3 py-1 transition ${
+                scope === option ? "bg-sky-500 text-slate-950" : "text-slate-300 hover:text-sky-200"
+              }`}
+            >
+              {option === "day" ? "This day" : "All dates"}
+            </button>
+          ))}
+        </div>
+        {isFilterActive(filter) && (
+          <button type="button" onClick={() => onChange(emptyFilter)} className="text-xs text-slate-400 hover:text-sky-200">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {results && (
+        <div className="mt-3 border-t border-white/10 pt-3">
+          {!isFilterActive(filter) ? (
+            <p className="text-xs text-slate-400">Search or pick a filter to look across every date.</p>
+          ) : results.length === 0 ? (
+            <p className="text-xs text-slate-400">Nothing matches.</p>
+          ) : (
+            <>
+              <p className="text-xs text-slate-400">
+                {results.length} {results.length === 1 ? "match" : "matches"}
+                {results.length > MAX_RESULTS ? `, showing the first ${MAX_RESULTS}` : ""}
+              </p>
+              <ul className="mt-2 max-h-72 space-y-3 overflow-y-auto pr-1">
+                {dates.map((date) => (
+                  <li key={date}>
+                    <p className="text-xs uppercase tracking-[0.3em] text-slate-400">{formatDateLabel(date, format)}</p>
+                    <ul className="mt-1 space-y-1">
+                      {results
+                        .slice(0, MAX_RESULTS)
+                        .filter((occurrence) => occurrence.date === date)
+                        .map((occurrence) => (
+                          <li key={occurrence.key}>
+                            <button
+                              type="button"
+                              onClick={() => onSelect(occurrence)}
+                              className="flex w-full items-center justify-between gap-2 rounded-xl px-2 py-1 text-left text-xs text-slate-200 hover:bg-white/5"
+                            >
+                              <span className={`truncate ${occurrence.completed ? "text-slate-400 line-through" : ""}`}>
+                                {occurrence.title}
+                              </span>
+                              <span className="shrink-0 text-slate-400">
+                                {formatTimeLabel(combineDateTime(occurrence.date, occurrence.time), format)}
+                              </span>
+                            </button>
+                          </li>
+                        ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
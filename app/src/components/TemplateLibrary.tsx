@@ -0,0 +1,306 @@
+import { useState } from "react";
+import ReminderOffsetsPicker from "@/components/ReminderOffsetsPicker";
+import { formatMinutes } from "@/lib/calendar";
+import { DEFAULT_DURATION_MINUTES, createId, durationOptions, normalizeTimeValue } from "@/lib/tasks";
+import {
+  datesInRange,
+  duplicateTemplate,
+  sortTemplateItems,
+  type ApplyMode,
+  type Template,
+  type TemplateItem,
+} from "@/lib/templates";
+
+type TemplateLibraryProps = {
+  templates: Template[];
+  selectedDate: string;
+  reminderOptions: number[];
+  defaultReminders: number[];
+  onTemplatesChange: (templates: Template[]) => void;
+  onApply: (template: Template, dates: string[], mode: ApplyMode) => void;
+  onSaveDay: (name: string) => Template;
+};
+
+const fieldClassName =
+  "rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white focus:border-sky-400 focus:outline-none";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs font-semibold uppercase tracking-widest text-slate-200 transition hover:border-sky-400/40 hover:text-sky-200 disabled:opacity-40";
+
+export default function TemplateLibrary({
+  templates,
+  selectedDate,
+  reminderOptions,
+  defaultReminders,
+  onTemplatesChange,
+  onApply,
+  onSaveDay,
+}: TemplateLibraryProps) {
+  const [activeId, setActiveId] = useState(templates[0]?.id ?? "");
+  const [renameDraft, setRenameDraft] = useState<string | null>(null);
+  const [newTemplateName, setNewTemplateName] = useState("");
+  const [mode, setMode] = useState<ApplyMode>("replace");
+  const [range, setRange] = useState({ from: "", to: "" });
+
+  const activeTemplate = templates.find((template) => template.id === activeId) ?? templates[0];
+  const from = range.from || selectedDate;
+  const to = range.to && range.to >= from ? range.to : from;
+
+  const replaceTemplate = (next: Template) =>
+    onTemplatesChange(templates.map((template) => (template.id === next.id ? next : template)));
+
+  const updateItem = (itemId: string, changes: Partial<TemplateItem>) => {
+    if (!activeTemplate) return;
+    replaceTemplate({
+      ...activeTemplate,
+      items: sortTemplateItems(
+        activeTemplate.items.map((item) => (item.id === itemId ? { ...item, ...changes } : item)),
+      ),
+    });
+  };
+
+  const addItem = () => {
+    if (!activeTemplate) return;
+    replaceTemplate({
+      ...activeTemplate,
+      items: sortTemplateItems([
+        ...activeTemplate.items,
+        {
+          id: createId(),
+          title: "New activity",
+          description: "",
+          time: "09:00",
+          duration: DEFAULT_DURATION_MINUTES,
+          reminders: defaultReminders,
+        },
+      ]),
+    });
+  };
+
+  const removeItem = (itemId: string) => {
+    if (!activeTemplate) return;
+    replaceTemplate({ ...activeTemplate, items: activeTemplate.items.filter((item) => item.id !== itemId) });
+  };
+
+  const handleRename = () => {
+    if (!activeTemplate || renameDraft === null) return;
+    const name = renameDraft.trim();
+    if (name) replaceTemplate({ ...activeTemplate, name });
+    setRenameDraft(null);
+  };
+
+  const handleDuplicate = () => {
+    if (!activeTemplate) return;
+    const copy = duplicateTemplate(activeTemplate);
+    onTemplatesChange([...templates, copy]);
+    setActiveId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!activeTemplate) return;
+    const remaining = templates.filter((template) => template.id !== activeTemplate.id);
+    onTemplatesChange(remaining);
+    setActiveId(remaining[0]?.id ?? "");
+  };
+
+  const handleCreateBlank = () => {
+    const template: Template = { id: createId(), name: newTemplateName.trim() || "Untitled template", items: [] };
+    onTemplatesChange([...templates, template]);
+    setActiveId(template.id);
+    setNewTemplateName("");
+  };
+
+  const handleSaveDay = () => {
+    const template = onSaveDay(newTemplateName.trim() || `Day of ${selectedDate}`);
+    setActiveId(template.id);
+    setNewTemplateName("");
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 px-6 py-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Templates</h2>
+      <p className="mt-1 text-xs text-slate-200/70">Stamp a reusable set of blocks onto one day or a whole range.</p>
+
+      {activeTemplate ? (
+        <>
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            {renameDraft === null ? (
+              <select
+                value={activeTemplate.id}
+                onChange={(event) => setActiveId(event.target.value)}
+                className={`flex-1 ${fieldClassName}`}
+              >
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} ({template.items.length})
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={renameDraft}
+                autoFocus
+                onChange={(event) => setRenameDraft(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") handleRename();
+                  if (event.key === "Escape") setRenameDraft(null);
+                }}
+                className={`flex-1 ${fieldClassName}`}
+              />
+            )}
+          </div>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {renameDraft === null ? (
+              <button type="button" onClick={() => setRenameDraft(activeTemplate.name)} className={actionClassName}>
+                Rename
+              </button>
+            ) : (
+              <button type="button" onClick={handleRename} className={actionClassName}>
+                Save name
+              </button>
+            )}
+            <button type="button" onClick={handleDuplicate} className={actionClassName}>
+              Duplicate
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              className={`${actionClassName} hover:border-rose-400/40 hover:text-rose-200`}
+            >
+              Delete
+            </button>
+          </div>
+
+          <ul className="mt-4 space-y-2">
+            {activeTemplate.items.map((item) => (
+              <li key={item.id} className="space-y-2 rounded-2xl border border-white/10 p-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={item.time}
+                    onChange={(event) => updateItem(item.id, { time: normalizeTimeValue(event.target.value) })}
+                    className={`w-28 ${fieldClassName}`}
+                  />
+                  <input
+                    type="text"
+                    value={item.title}
+                    onChange={(event) => updateItem(item.id, { title: event.target.value })}
+                    className={`min-w-0 flex-1 ${fieldClassName}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeItem(item.id)}
+                    className="text-xs text-slate-400 hover:text-rose-200"
+                    aria-label={`Remove ${item.title}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={item.duration}
+                    onChange={(event) => updateItem(item.id, { duration: Number(event.target.value) })}
+                    className={fieldClassName}
+                    aria-label={`Length of ${item.title}`}
+                  >
+                    {[...new Set([...durationOptions, item.duration])]
+                      .sort((a, b) => a - b)
+                      .map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {formatMinutes(minutes)}
+                        </option>
+                      ))}
+                  </select>
+                  <ReminderOffsetsPicker
+                    compact
+                    value={item.reminders}
+                    options={reminderOptions}
+                    onChange={(reminders) => updateItem(item.id, { reminders })}
+                  />
+                </div>
+                <textarea
+                  key={(item.checklist ?? []).join("\n")}
+                  defaultValue={(item.checklist ?? []).join("\n")}
+                  onBlur={(event) => {
+                    const checklist = event.target.value
+                      .split(/\r?\n/)
+                      .map((line) => line.trim())
+                      .filter(Boolean);
+                    updateItem(item.id, { checklist: checklist.length > 0 ? checklist : undefined });
+                  }}
+                  rows={Math.max((item.checklist ?? []).length, 1)}
+                  placeholder="Checklist, one step per line"
+                  aria-label={`Checklist for ${item.title}`}
+                  className={`w-full resize-none ${fieldClassName}`}
+                />
+              </li>
+            ))}
+          </ul>
+          <button type="button" onClick={addItem} className={`mt-2 ${actionClassName}`}>
+            Add item
+          </button>
+
+          <div className="mt-5 grid gap-2 sm:grid-cols-2">
+            <label className="text-xs uppercase tracking-[0.3em] text-slate-200">
+              From
+              <input
+                type="date"
+                value={from}
+                onChange={(event) => setRange((prev) => ({ ...prev, from: event.target.value }))}
+                className={`mt-2 w-full ${fieldClassName}`}
+              />
+            </label>
+            <label className="text-xs uppercase tracking-[0.3em] text-slate-200">
+              To
+              <input
+                type="date"
+                value={to}
+                min={from}
+                onChange={(event) => setRange((prev) => ({ ...prev, to: event.target.value }))}
+                className={`mt-2 w-full ${fieldClassName}`}
+              />
+            </label>
+          </div>
+          <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-200">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+              Replace the day
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+              Merge, skip duplicates
+            </label>
+          </div>
+          <button
+            type="button"
+            onClick={() => onApply(activeTemplate, datesInRange(from, to), mode)}
+            className="mt-4 w-full rounded-2xl bg-sky-500 px-4 py-3 text-sm font-semibold text-slate-950 transition hover:bg-sky-400"
+          >
+            Apply {activeTemplate.name}
+          </button>
+        </>
+      ) : (
+        <p className="mt-4 text-xs text-slate-300">No templates yet. Save a day or start a blank one below.</p>
+      )}
+
+      <div className="mt-5 border-t border-white/10 pt-4">
+        <input
+          type="text"
+          value={newTemplateName}
+          onChange={(event) => setNewTemplateName(event.target.value)}
+          placeholder="New template name"
+          className={`w-full ${fieldClassName}`}
+        />
+        <div className="mt-2 flex flex-wrap gap-2">
+          <button type="button" onClick={handleSaveDay} className={actionClassName}>
+            Save day as template
+          </button>
+          <button type="button" onClick={handleCreateBlank} className={actionClassName}>
+            New blank template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import DayColumn from "@/components/DayColumn";
+import { dayDensity, formatMinutes, visibleHours, type OccurrenceDragPayload } from "@/lib/calendar";
+import type { DisplayFormat, TaskOccurrence } from "@/lib/tasks";
+
+type WeekGridProps = {
+  dates: string[];
+  occurrences: TaskOccurrence[];
+  selectedDate: string;
+  today: string;
+  format: DisplayFormat;
+  onMove: (payload: OccurrenceDragPayload, date: string, time: string) => void;
+  onSelectDate: (date: string) => void;
+};
+
+const weekdayLabel = (date: string, format: DisplayFormat) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(format.locale, { weekday: "short", day: "numeric" });
+};
+
+export default function WeekGrid({ dates, occurrences, selectedDate, today, format, onMove, onSelectDate }: WeekGridProps) {
+  const hours = visibleHours(occurrences, dates);
+
+  return (
+    <div className="overflow-x-auto rounded-3xl border border-white/10 bg-white/5 p-4">
+      <div className="grid min-w-[640px] grid-cols-7 gap-2">
+        {dates.map((date) => {
+          const density = dayDensity(date, occurrences);
+          return (
+            <button
+              key={date}
+              type="button"
+              onClick={() => onSelectDate(date)}
+              className={`rounded-2xl border px-2 py-2 text-left text-xs transition ${
+                date === selectedDate
+                  ? "border-sky-400 bg-sky-400/20 text-sky-100"
+                  : "border-white/10 text-slate-300 hover:border-sky-400/40"
+              }`}
+            >
+              <span className={`block font-semibold ${date === today ? "text-amber-200" : ""}`}>{weekdayLabel(date, format)}</span>
+              <span className="block text-[10px] text-slate-400">
+                {density.count} · {formatMinutes(density.busyMinutes)} busy
+              </span>
+            </button>
+          );
+        })}
+        {dates.map((date) => (
+          <DayColumn
+            key={date}
+            compact
+            date={date}
+            hours={hours}
+            format={format}
+            occurrences={occurrences}
+            onMove={onMove}
+            onOpen={() => onSelectDate(date)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { endTimeOf, weekDates } from "./calendar";
+import { priorityOf, type Category } from "./categories";
+import { expandTasks } from "./recurrence";
+import { combineDateTime, formatDateLabel, formatTimeLabel, type DisplayFormat, type Task } from "./tasks";
+
+export type AgendaScope = "day" | "week";
+
+export type AgendaEntry = {
+  key: string;
+  time: string; // e.g. "09:00–09:30" in the display format
+  title: string;
+  description: string;
+  completed: boolean;
+  details: string[]; // category, priority and tags, ready to print
+  checklist: { title: string; done: boolean }[];
+};
+
+export type AgendaDay = {
+  date: string;
+  label: string;
+  entries: AgendaEntry[];
+};
+
+export const agendaDates = (date: string, scope: AgendaScope, weekStartsOn: number) =>
+  scope === "day" ? [date] : weekDates(date, weekStartsOn);
+
+export const agendaFileName = (dates: string[]) =>
+  dates.length === 1 ? `daily-rhythm-agenda-${dates[0]}.md` : `daily-rhythm-agenda-${dates[0]}-to-${dates[dates.length - 1]}.md`;
+
+export const agendaTitle = (days: AgendaDay[]) =>
+  days.length === 1 ? `Agenda · ${days[0].label}` : `Agenda · ${days[0].label} – ${days[days.length - 1].label}`;
+
+// Times read the same as on the cards: the wall-clock time each block was planned at.
+export const buildAgenda = (tasks: Task[], dates: string[], categories: Category[], format: DisplayFormat): AgendaDay[] =>
+  dates.map((date) => ({
+    date,
+    label: formatDateLabel(date, format),
+    entries: expandTasks(tasks, date, date)
+      .filter((occurrence) => !occurrence.skipped)
+      .map((occurrence) => {
+        const priority = priorityOf(occurrence);
+        return {
+          key: occurrence.key,
+          time: `${formatTimeLabel(combineDateTime(date, occurrence.time), format)}–${formatTimeLabel(
+            combineDateTime(date, endTimeOf(occurrence)),
+            format,
+          )}`,
+          title: occurrence.title,
+          description: occurrence.description.trim(),
+          completed: occurrence.completed,
+          details: [
+            categories.find((category) => category.id === occurrence.categoryId)?.name,
+            priority !== "normal" && `${priority} priority`,
+            ...(occurrence.tags ?? []).map((tag) => `#${tag}`),
+          ].filter((detail): detail is string => Boolean(detail)),
+          checklist: (occurrence.checklist ?? []).map((item) => ({ title: item.title, done: item.done })),
+        };
+      }),
+  }));
+
+const escapeMarkdown = (value: string) => value.replace(/([\\`*_[\]<>|#])/g, "\\$1");
+
+export const agendaMarkdown = (days: AgendaDay[]) =>
+  [
+    `# ${escapeMarkdown(agendaTitle(days))}`,
+    ...days.flatMap((day) => [
+      "",
+      `## ${escapeMarkdown(day.label)}`,
+      "",
+      ...(day.entries.length === 0
+        ? ["_Nothing planned._"]
+        : day.entries.flatMap((entry) => [
+            `- [${entry.completed ? "x" : " "}] ${entry.time} **${escapeMarkdown(entry.title)}**${
+              entry.details.length > 0 ? ` · ${escapeMarkdown(entry.details.join(" · "))}` : ""
+            }`,
+            ...entry.description.split(/\r?\n/).filter(Boolean).map((line) => `  ${escapeMarkdown(line)}`),
+            ...entry.checklist.map((item) => `  - [${item.done ? "x" : " "}] ${escapeMarkdown(item.title)}`),
+          ])),
+    ]),
+    "",
+  ].join("\n");
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// A standalone page for the browser's print dialog; it carries its own styles so the app theme never leaks in.
+export const agendaHtml = (days: AgendaDay[], locale?: string) => {
+  const title = escapeHtml(agendaTitle(days));
+  const sections = days
+    .map((day) => {
+      const items =
+        day.entries.length === 0
+          ? `<p class="empty">Nothing planned.</p>`
+          : `<ul>${day.entries
+              .map(
+                (entry) => `<li class="${entry.completed ? "done" : ""}">
+  <span class="time">${escapeHtml(entry.time)}</span>
+  <span class="title">${entry.completed ? "☑" : "☐"} ${escapeHtml(entry.title)}</span>
+  ${entry.details.length > 0 ? `<span class="details">${escapeHtml(entry.details.join(" · "))}</span>` : ""}
+  ${entry.description ? `<p>${escapeHtml(entry.description).replace(/\r?\n/g, "<br>")}</p>` : ""}
+  ${
+    entry.checklist.length > 0
+      ? `<ul class="checklist">${entry.checklist
+          .map((item) => `<li>${item.done ? "☑" : "☐"} ${escapeHtml(item.title)}</li>`)
+          .join("")}</ul>`
+      : ""
+  }
+</li>`,
+              )
+              .join("")}</ul>`;
+      return `<section><h2>${escapeHtml(day.label)}</h2>${items}</section>`;
+    })
+    .join("");
+
+  return `<!doctype html>
+<html lang="${escapeHtml(locale ?? "en")}">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin: 0 0 1rem; }
+  h2 { font-size: 1.05rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; margin: 1.5rem 0 0.5rem; }
+  section { break-inside: avoid; }
+  ul { list-style: none; padding: 0; margin: 0; }
+  li { padding: 0.35rem 0; }
+  .time { display: inline-block; min-width: 8.5rem; font-variant-numeric: tabular-nums; color: #475569; }
+  .title { font-weight: 600; }
+  .details { display: block; margin-left: 8.5rem; color: #64748b; font-size: 0.85rem; }
+  li p, .checklist { margin: 0.2rem 0 0 8.5rem; }
+  .done .title { text-decoration: line-through; color: #64748b; }
+  .empty { color: #94a3b8; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+${sections}
+</body>
+</html>`;
+};
@@ -0,0 +1,121 @@
+import { findOccurrence } from "./reminders";
+import { writeItem } from "./storage";
+import { createId, startInstant, type Alert, type AlertStatus, type Task, type TaskOccurrence } from "./tasks";
+
+export type AlertLogFilter = "all" | "open" | "missed" | "snoozed" | "dismissed";
+
+export const ALERTS_STORAGE_KEY = "daily-rhythm-alerts";
+
+// Open alerts are always kept; resolved ones are trimmed to this many, newest first.
+const MAX_RESOLVED_ALERTS = 100;
+
+export const alertStatusLabels: Record<AlertStatus, string> = {
+  open: "Waiting",
+  snoozed: "Snoozed",
+  dismissed: "Dismissed",
+  completed: "Done",
+  cancelled: "Cleared",
+};
+
+export const alertLogFilterLabels: Record<AlertLogFilter, string> = {
+  all: "All",
+  open: "Waiting",
+  missed: "Missed",
+  snoozed: "Snoozed",
+  dismissed: "Dismissed",
+};
+
+export const isOpenAlert = (alert: Alert) => alert.status === "open";
+
+export const createAlert = (occurrence: TaskOccurrence, offset: number, message: string, missed: boolean, at: Date): Alert => ({
+  id: createId(),
+  taskId: occurrence.taskId,
+  occurrenceKey: occurrence.key,
+  date: occurrence.date,
+  offset,
+  title: occurrence.title,
+  message,
+  scheduledAt: startInstant(occurrence).toISOString(),
+  missed,
+  firedAt: at.toISOString(),
+  status: "open",
+});
+
+// A reminder that rings again after a snooze gets a fresh entry; one that is still open is not repeated.
+export const logAlert = (alerts: Alert[], alert: Alert) =>
+  alerts.some(
+    (item) => isOpenAlert(item) && item.occurrenceKey === alert.occurrenceKey && item.offset === alert.offset,
+  )
+    ? alerts
+    : trimAlertLog([alert, ...alerts]);
+
+export const resolveAlert = (
+  alerts: Alert[],
+  alertId: string,
+  status: Exclude<AlertStatus, "open">,
+  at: Date,
+  extra: Pick<Alert, "snoozedUntil" | "note"> = {},
+) =>
+  alerts.map((alert) =>
+    alert.id === alertId && isOpenAlert(alert) ? { ...alert, ...extra, status, resolvedAt: at.toISOString() } : alert,
+  );
+
+// Snoozing from a system notification answers whichever banner the same reminder left open.
+export const snoozeMatchingAlert = (alerts: Alert[], occurrenceKey: string, offset: number, until: Date, at: Date) => {
+  const match = alerts.find(
+    (alert) => isOpenAlert(alert) && alert.occurrenceKey === occurrenceKey && alert.offset === offset,
+  );
+  return match ? resolveAlert(alerts, match.id, "snoozed", at, { snoozedUntil: until.toISOString() }) : alerts;
+};
+
+const reconcileNote = (alert: Alert, tasks: Task[]): Pick<Alert, "status" | "note"> | null => {
+  const occurrence = findOccurrence(tasks, alert.occurrenceKey, alert.date);
+  if (!occurrence) {
+    return tasks.some((task) => task.id === alert.taskId)
+      ? { status: "cancelled", note: "Moved to another day" }
+      : { status: "cancelled", note: "Activity deleted" };
+  }
+  if (occurrence.skipped) return { status: "cancelled", note: "Occurrence skipped" };
+  if (occurrence.completed) return { status: "completed", note: "Marked done" };
+  if (startInstant(occurrence).toISOString() !== alert.scheduledAt) return { status: "cancelled", note: "Rescheduled" };
+  return null;
+};
+
+// Open alerts whose task was deleted, moved, skipped or finished are closed with a note. Returns the same
+// array when nothing changed so callers can skip the state update.
+export const reconcileAlerts = (alerts: Alert[], tasks: Task[], at: Date) => {
+  let changed = false;
+  const next = alerts.map((alert) => {
+    if (!isOpenAlert(alert)) return alert;
+    const outcome = reconcileNote(alert, tasks);
+    if (!outcome) return alert;
+    changed = true;
+    return { ...alert, ...outcome, resolvedAt: at.toISOString() };
+  });
+  return changed ? next : alerts;
+};
+
+export const trimAlertLog = (alerts: Alert[]) => {
+  let resolved = 0;
+  return alerts.filter((alert) => isOpenAlert(alert) || (resolved += 1) <= MAX_RESOLVED_ALERTS);
+};
+
+export const clearResolvedAlerts = (alerts: Alert[]) => alerts.filter(isOpenAlert);
+
+export const matchesAlertFilter = (alert: Alert, filter: AlertLogFilter) => {
+  if (filter === "all") return true;
+  if (filter === "missed") return Boolean(alert.missed);
+  return alert.status === filter;
+};
+
+export const readAlertLog = (): Alert[] => {
+  try {
+    const stored = window.localStorage.getItem(ALERTS_STORAGE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as unknown) : [];
+    return Array.isArray(parsed) ? (parsed as Alert[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const writeAlertLog = (alerts: Alert[]) => writeItem(ALERTS_STORAGE_KEY, JSON.stringify(alerts));
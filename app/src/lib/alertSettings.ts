@@ -0,0 +1,108 @@
+import { priorityOf } from "./categories";
+import type { SoundId } from "./sounds";
+import { writeItem } from "./storage";
+import type { TaskFields } from "./tasks";
+
+export type QuietHours = {
+  enabled: boolean;
+  start: string; // HH:MM
+  end: string; // HH:MM, may be earlier than start to span midnight
+  allowUrgent: boolean; // high-priority alerts still make a sound
+};
+
+export type RepeatSettings = {
+  enabled: boolean;
+  intervalSeconds: number;
+  maxRepeats: number;
+  escalate: boolean; // each repeat plays louder than the last
+};
+
+export type AlertSettings = {
+  muted: boolean;
+  volume: number; // 0–1
+  defaultSound: SoundId;
+  urgentSound: SoundId; // used for high-priority activities
+  categorySounds: Record<string, SoundId>; // keyed by category id
+  quietHours: QuietHours;
+  repeat: RepeatSettings;
+};
+
+export type AlertSound = {
+  sound: SoundId;
+  volume: number;
+};
+
+export const ALERT_SETTINGS_STORAGE_KEY = "daily-rhythm-alert-settings";
+
+export const repeatIntervalOptions = [30, 60, 120, 300];
+
+export const maxRepeatOptions = [1, 2, 3, 5, 10];
+
+const ESCALATION_STEP = 0.25;
+
+export const defaultAlertSettings: AlertSettings = {
+  muted: false,
+  volume: 0.6,
+  defaultSound: "chime",
+  urgentSound: "urgent",
+  categorySounds: {},
+  quietHours: { enabled: false, start: "22:00", end: "07:00", allowUrgent: true },
+  repeat: { enabled: false, intervalSeconds: 60, maxRepeats: 3, escalate: true },
+};
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isQuietTime = (quietHours: QuietHours, at: Date) => {
+  if (!quietHours.enabled) return false;
+  const start = minutesOf(quietHours.start);
+  const end = minutesOf(quietHours.end);
+  const now = at.getHours() * 60 + at.getMinutes();
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+// The task's own sound wins, then its category's, then the priority default.
+export const soundFor = (settings: AlertSettings, occurrence: Pick<TaskFields, "sound" | "categoryId" | "priority">) =>
+  occurrence.sound ??
+  (occurrence.categoryId ? settings.categorySounds[occurrence.categoryId] : undefined) ??
+  (priorityOf(occurrence) === "high" ? settings.urgentSound : settings.defaultSound);
+
+export const isSilenced = (settings: AlertSettings, at: Date, urgent: boolean) =>
+  settings.muted || (isQuietTime(settings.quietHours, at) && !(urgent && settings.quietHours.allowUrgent));
+
+// Returns null when the alert should stay silent; `repeat` counts earlier plays of the same alert.
+export const alertSound = (
+  settings: AlertSettings,
+  occurrence: Pick<TaskFields, "sound" | "categoryId" | "priority"> | null,
+  at: Date,
+  repeat = 0,
+): AlertSound | null => {
+  const urgent = occurrence !== null && priorityOf(occurrence) === "high";
+  if (isSilenced(settings, at, urgent)) return null;
+  const sound = occurrence ? soundFor(settings, occurrence) : settings.defaultSound;
+  if (sound === "silent") return null;
+  const volume = settings.repeat.escalate ? Math.min(1, settings.volume * (1 + ESCALATION_STEP * repeat)) : settings.volume;
+  return { sound, volume };
+};
+
+export const readAlertSettings = (): AlertSettings => {
+  try {
+    const stored = window.localStorage.getItem(ALERT_SETTINGS_STORAGE_KEY);
+    if (!stored) return defaultAlertSettings;
+    const parsed = JSON.parse(stored) as Partial<AlertSettings>;
+    return {
+      ...defaultAlertSettings,
+      ...parsed,
+      quietHours: { ...defaultAlertSettings.quietHours, ...parsed.quietHours },
+      repeat: { ...defaultAlertSettings.repeat, ...parsed.repeat },
+    };
+  } catch {
+    return defaultAlertSettings;
+  }
+};
+
+export const writeAlertSettings = (settings: AlertSettings) =>
+  writeItem(ALERT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
@@ -0,0 +1,159 @@
+import { startOfWeek } from "./calendar";
+import { addDays, expandTasks, weekdayOf } from "./recurrence";
+import { endInstant, formatDateInput, startInstant, type Task, type TaskOccurrence } from "./tasks";
+import type { Template } from "./templates";
+
+export type CompletionTiming = "onTime" | "late" | "untimed";
+
+export type CompletionTally = {
+  due: number;
+  completed: number;
+  onTime: number;
+  late: number;
+};
+
+export type WeekdayStat = CompletionTally & { weekday: number };
+
+export type WeekTrend = CompletionTally & { weekStart: string };
+
+export type TemplateItemStat = CompletionTally & {
+  itemId: string;
+  title: string;
+  templateName: string;
+};
+
+export type Analytics = {
+  from: string;
+  to: string;
+  totals: CompletionTally;
+  currentStreak: number;
+  bestStreak: number;
+  weekdays: WeekdayStat[];
+  weeks: WeekTrend[];
+  templateItems: TemplateItemStat[];
+};
+
+export const analyticsRanges = [4, 8, 12, 26]; // weeks
+
+const emptyTally = (): CompletionTally => ({ due: 0, completed: 0, onTime: 0, late: 0 });
+
+// Finishing any time before the block ends counts as on time; completions from before timestamps existed are untimed.
+export const completionTiming = (occurrence: TaskOccurrence): CompletionTiming | null => {
+  if (!occurrence.completed) return null;
+  if (!occurrence.completedAt) return "untimed";
+  const end = endInstant(occurrence).getTime();
+  return Date.parse(occurrence.completedAt) <= end ? "onTime" : "late";
+};
+
+const addToTally = (tally: CompletionTally, occurrence: TaskOccurrence) => {
+  const timing = completionTiming(occurrence);
+  tally.due += 1;
+  if (timing) tally.completed += 1;
+  if (timing === "onTime") tally.onTime += 1;
+  if (timing === "late") tally.late += 1;
+  return tally;
+};
+
+export const tallyOccurrences = (occurrences: TaskOccurrence[]) => occurrences.reduce(addToTally, emptyTally());
+
+export const completionRate = (tally: CompletionTally) => (tally.due === 0 ? null : tally.completed / tally.due);
+
+export const onTimeRate = (tally: CompletionTally) => {
+  const timed = tally.onTime + tally.late;
+  return timed === 0 ? null : tally.onTime / timed;
+};
+
+// Only blocks that have already started can be judged, so the rest of today never drags the numbers down.
+const dueOccurrences = (tasks: Task[], from: string, now: Date, include: (occurrence: TaskOccurrence) => boolean) =>
+  expandTasks(tasks, from, formatDateInput(now)).filter(
+    (occurrence) =>
+      !occurrence.skipped && startInstant(occurrence).getTime() <= now.getTime() && include(occurrence),
+  );
+
+const streaks = (byDate: Map<string, TaskOccurrence[]>, from: string, today: string) => {
+  let best = 0;
+  let run = 0;
+  for (let date = from; date <= today; date = addDays(date, 1)) {
+    const day = byDate.get(date);
+    if (!day) continue;
+    if (day.every((occurrence) => occurrence.completed)) {
+      run += 1;
+      best = Math.max(best, run);
+    } else if (date !== today) {
+      run = 0;
+    }
+  }
+
+  // Today still in progress neither extends nor breaks the current streak until it is fully done.
+  let current = 0;
+  for (let date = today; date >= from; date = addDays(date, -1)) {
+    const day = byDate.get(date);
+    if (!day) continue;
+    if (day.every((occurrence) => occurrence.completed)) current += 1;
+    else if (date !== today) break;
+  }
+
+  return { current, best };
+};
+
+const templateItemStats = (occurrences: TaskOccurrence[], templates: Template[]): TemplateItemStat[] => {
+  const stats = new Map<string, TemplateItemStat>();
+  const byTitle = new Map<string, TemplateItemStat>();
+  templates.forEach((template) =>
+    template.items.forEach((item) => {
+      if (stats.has(item.id)) return;
+      const stat = { ...emptyTally(), itemId: item.id, title: item.title, templateName: template.name };
+      stats.set(item.id, stat);
+      const title = item.title.trim().toLowerCase();
+      if (!byTitle.has(title)) byTitle.set(title, stat);
+    }),
+  );
+
+  // Tasks planned before template links were recorded are matched on their title instead.
+  occurrences.forEach((occurrence) => {
+    const stat = occurrence.templateItemId
+      ? stats.get(occurrence.templateItemId)
+      : byTitle.get(occurrence.title.trim().toLowerCase());
+    if (stat) addToTally(stat, occurrence);
+  });
+
+  return [...stats.values()].filter((stat) => stat.due > 0).sort((a, b) => b.due - a.due);
+};
+
+// `include` narrows everything, streaks included, to a slice of the plan such as a single category.
+export const buildAnalytics = (
+  tasks: Task[],
+  templates: Template[],
+  now: Date,
+  weeks: number,
+  include: (occurrence: TaskOccurrence) => boolean = () => true,
+  weekStartsOn = 1,
+): Analytics => {
+  const today = formatDateInput(now);
+  const from = addDays(startOfWeek(today, weekStartsOn), -7 * (weeks - 1));
+  const occurrences = dueOccurrences(tasks, from, now, include);
+
+  const byDate = new Map<string, TaskOccurrence[]>();
+  occurrences.forEach((occurrence) => byDate.set(occurrence.date, [...(byDate.get(occurrence.date) ?? []), occurrence]));
+
+  const weekdays = Array.from({ length: 7 }, (_, weekday): WeekdayStat => ({ ...emptyTally(), weekday }));
+  const trends = Array.from({ length: weeks }, (_, index): WeekTrend => ({ ...emptyTally(), weekStart: addDays(from, index * 7) }));
+  occurrences.forEach((occurrence) => {
+    addToTally(weekdays[weekdayOf(occurrence.date)], occurrence);
+    const week = trends.find((trend) => trend.weekStart === startOfWeek(occurrence.date, weekStartsOn));
+    if (week) addToTally(week, occurrence);
+  });
+
+  const { current, best } = streaks(byDate, from, today);
+
+  return {
+    from,
+    to: today,
+    totals: tallyOccurrences(occurrences),
+    currentStreak: current,
+    bestStreak: best,
+    weekdays,
+    weeks: trends,
+    templateItems: templateItemStats(occurrences, templates),
+  };
+};
@@ -0,0 +1,126 @@
+import { SNAP_MINUTES, findFreeGaps, minutesOfDay, occurrencesAround, timeFromMinutes } from "./calendar";
+import { priorityOf, type Priority } from "./categories";
+import { findConflicts } from "./overlaps";
+import { weekdayOf } from "./recurrence";
+import type { WorkingHours } from "./settings";
+import { createId, formatDateInput, type Task } from "./tasks";
+import { deviceTimeZone } from "./timeZones";
+
+export type BacklogItem = {
+  id: string;
+  title: string;
+  description: string;
+  duration: number; // estimated minutes
+  priority?: Priority; // "normal" when unset
+  deadline?: string; // YYYY-MM-DD, the last day it may be planned on
+  categoryId?: string;
+  tags?: string[];
+  createdAt: string; // ISO string
+};
+
+export type BacklogDraft = Pick<BacklogItem, "title" | "duration" | "priority" | "deadline">;
+
+export type PlannedBlock = {
+  itemId: string;
+  title: string;
+  date: string;
+  time: string;
+  duration: number;
+};
+
+export type UnplacedItem = {
+  itemId: string;
+  title: string;
+  reason: string;
+};
+
+export type BacklogPlan = {
+  blocks: PlannedBlock[];
+  unplaced: UnplacedItem[];
+};
+
+export const BACKLOG_STORAGE_KEY = "daily-rhythm-backlog";
+
+const priorityRank: Record<Priority, number> = { high: 0, normal: 1, low: 2 };
+
+export const createBacklogItem = (draft: BacklogDraft, at = new Date()): BacklogItem => ({
+  id: createId(),
+  title: draft.title,
+  description: "",
+  duration: draft.duration,
+  ...(draft.priority && draft.priority !== "normal" && { priority: draft.priority }),
+  ...(draft.deadline && { deadline: draft.deadline }),
+  createdAt: at.toISOString(),
+});
+
+// Earliest deadline first, then priority, then the oldest item; the order decides who gets the earliest gaps.
+export const compareBacklogItems = (a: BacklogItem, b: BacklogItem) =>
+  (a.deadline ?? "9999-12-31").localeCompare(b.deadline ?? "9999-12-31") ||
+  priorityRank[priorityOf(a)] - priorityRank[priorityOf(b)] ||
+  a.createdAt.localeCompare(b.createdAt);
+
+export const sortBacklog = (items: BacklogItem[]) => [...items].sort(compareBacklogItems);
+
+// Places each item in the first free gap inside working hours on the given dates, never in the past and never
+// after its deadline. Existing blocks, including template ones such as a lunch break, are left where they are.
+export const planBacklog = (
+  items: BacklogItem[],
+  tasks: Task[],
+  dates: string[],
+  hours: WorkingHours,
+  now: Date,
+): BacklogPlan => {
+  const today = formatDateInput(now);
+  const workStart = minutesOfDay(hours.start);
+  const workEnd = minutesOfDay(hours.end);
+  const earliestToday = Math.ceil((now.getHours() * 60 + now.getMinutes()) / SNAP_MINUTES) * SNAP_MINUTES;
+  const workingDates = dates.filter((date) => date >= today && hours.days.includes(weekdayOf(date)));
+  const existing = new Map(workingDates.map((date) => [date, occurrencesAround(tasks, date, date)]));
+  const blocks: PlannedBlock[] = [];
+  const unplaced: UnplacedItem[] = [];
+
+  sortBacklog(items).forEach((item) => {
+    const unplace = (reason: string) => unplaced.push({ itemId: item.id, title: item.title, reason });
+    if (item.duration > workEnd - workStart) return unplace("Longer than your working hours");
+
+    // An item already past its deadline goes in as early as possible rather than not at all.
+    const lastDay = item.deadline && item.deadline >= today ? item.deadline : undefined;
+    const candidates = workingDates.filter((date) => !lastDay || date <= lastDay);
+    if (candidates.length === 0) return unplace(lastDay ? "No working day before its deadline" : "No working day left");
+
+    for (const date of candidates) {
+      const dayStart = date === today ? Math.max(workStart, earliestToday) : workStart;
+      const busy = [...(existing.get(date) ?? []), ...blocks.filter((block) => block.date === date)];
+      const gap = findFreeGaps(busy, date, dayStart, workEnd, item.duration).find(
+        (candidate) => candidate.end - candidate.start >= item.duration,
+      );
+      if (gap) {
+        blocks.push({ itemId: item.id, title: item.title, date, time: timeFromMinutes(gap.start), duration: item.duration });
+        return;
+      }
+    }
+    unplace(lastDay ? "No free gap before its deadline" : "No free gap long enough");
+  });
+
+  return { blocks, unplaced };
+};
+
+// Blocks the current tasks now collide with, e.g. after an edit made while the plan was open.
+export const blockConflicts = (block: PlannedBlock, tasks: Task[]) =>
+  findConflicts(block, occurrencesAround(tasks, block.date, block.date));
+
+export const taskFromBlock = (item: BacklogItem, block: PlannedBlock, reminders: number[]): Task => ({
+  id: createId(),
+  title: item.title,
+  description: item.description,
+  date: block.date,
+  time: block.time,
+  timeZone: deviceTimeZone(),
+  duration: block.duration,
+  reminders,
+  deliveries: {},
+  completed: false,
+  ...(item.priority && { priority: item.priority }),
+  ...(item.categoryId && { categoryId: item.categoryId }),
+  ...(item.tags && item.tags.length > 0 && { tags: item.tags }),
+});
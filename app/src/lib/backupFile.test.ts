@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { combineRecords, createBackupFile, parseBackupFile, planRestore, type PlannerData } from "./backupFile";
+import { defaultCategories } from "./categories";
+import { defaultSettings } from "./settings";
+import { makeTask } from "./testTasks";
+
+const standup = makeTask({ id: "standup", title: "Standup", date: "2026-06-01", time: "09:00" });
+const lunch = makeTask({ id: "lunch", title: "Lunch", date: "2026-06-01", time: "12:00" });
+const review = makeTask({ id: "review", title: "Review", date: "2026-06-02", time: "15:00" });
+
+const planner = (fields: Partial<PlannerData> = {}): PlannerData => ({
+  tasks: [],
+  templates: [],
+  categories: [],
+  backlog: [],
+  settings: defaultSettings,
+  ...fields,
+});
+
+const parsed = (data: PlannerData) => {
+  const { file } = parseBackupFile(createBackupFile(data, new Date("2026-06-01T08:00:00.000Z")));
+  if (!file) throw new Error("backup did not parse");
+  return file;
+};
+
+describe("combineRecords", () => {
+  it("merges by id and keeps records the file does not mention", () => {
+    const moved = { ...lunch, time: "12:30" };
+    const { records, report } = combineRecords("Activities", [standup, lunch], [moved, review], [], "merge");
+    expect(records.map((task) => task.id)).toEqual(["standup", "lunch", "review"]);
+    expect(records[1].time).toBe("12:30");
+    expect(report).toMatchObject({ added: ["Review"], updated: ["Lunch"], removed: [] });
+  });
+
+  it("drops what the file does not mention when replacing", () => {
+    const { records, report } = combineRecords("Activities", [standup, lunch], [lunch], [], "replace");
+    expect(records).toEqual([lunch]);
+    expect(report.removed).toEqual(["Standup"]);
+    expect(report.skipped).toEqual([{ name: "Lunch", reason: "unchanged" }]);
+  });
+
+  it("keeps the first of two records with the same id", () => {
+    const { records, report } = combineRecords("Activities", [], [lunch, { ...lunch, time: "13:00" }], [], "merge");
+    expect(records).toEqual([lunch]);
+    expect(report.skipped).toEqual([{ name: "Lunch", reason: "appears twice in the file" }]);
+  });
+});
+
+describe("planRestore", () => {
+  it("restores a backup file section by section", () => {
+    const file = parsed(planner({ tasks: [standup, review], categories: defaultCategories }));
+    const plan = planRestore(file, planner({ tasks: [lunch] }), "merge", false);
+    expect(plan.data.tasks.map((task) => task.id)).toEqual(["lunch", "standup", "review"]);
+    expect(plan.data.categories).toEqual(defaultCategories);
+    expect(plan.reports.map((report) => report.label)).not.toContain("Settings");
+  });
+
+  it("reports invalid records instead of restoring them", () => {
+    const text = createBackupFile(planner({ tasks: [standup] })).replace('"2026-06-01"', '"June first"');
+    const { file } = parseBackupFile(text);
+    const plan = planRestore(file!, planner(), "merge", false);
+    expect(plan.data.tasks).toEqual([]);
+    expect(plan.reports[0].skipped).toHaveLength(1);
+    expect(plan.reports[0].skipped[0].name).toBe("Standup");
+  });
+
+  it("only touches settings when asked to", () => {
+    const file = parsed(planner({ settings: { ...defaultSettings, weekStartsOn: 0 } }));
+    expect(planRestore(file, planner(), "merge", false).data.settings.weekStartsOn).toBe(defaultSettings.weekStartsOn);
+    const plan = planRestore(file, planner(), "merge", true);
+    expect(plan.data.settings.weekStartsOn).toBe(0);
+    expect(plan.reports.at(-1)).toMatchObject({ label: "Settings", updated: ["Settings"] });
+  });
+
+  it("leaves sections a hand-made file leaves out", () => {
+    const { file } = parseBackupFile(JSON.stringify({ app: "daily-rhythm", version: 1, collections: { tasks: [review] } }));
+    const plan = planRestore(file!, planner({ tasks: [lunch], categories: defaultCategories }), "replace", false);
+    expect(plan.data.tasks).toEqual([review]);
+    expect(plan.data.categories).toEqual(defaultCategories);
+  });
+});
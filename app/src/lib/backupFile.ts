@@ -0,0 +1,210 @@
+import type { BacklogItem } from "./backlog";
+import type { Category } from "./categories";
+import { parseSettings, type Settings } from "./settings";
+import {
+  backlogSchema,
+  categorySchema,
+  taskSchema,
+  templateSchema,
+  validateCollection,
+  type CollectionSchema,
+} from "./storage";
+import type { Task } from "./tasks";
+import type { Template } from "./templates";
+
+export type RestoreMode = "merge" | "replace";
+
+export type SkippedRecord = {
+  name: string;
+  reason: string;
+};
+
+// What an import did to one kind of record, listed by name so nothing changes silently.
+export type TransferReport = {
+  label: string;
+  added: string[];
+  updated: string[];
+  removed: string[];
+  skipped: SkippedRecord[];
+};
+
+export type PlannerData = {
+  tasks: Task[];
+  templates: Template[];
+  categories: Category[];
+  backlog: BacklogItem[];
+  settings: Settings;
+};
+
+type ParsedSection<T> = {
+  records: T[];
+  skipped: SkippedRecord[];
+};
+
+export type ParsedBackupFile = {
+  exportedAt: string;
+  tasks: ParsedSection<Task> | null; // null when the file has no such section
+  templates: ParsedSection<Template> | null;
+  categories: ParsedSection<Category> | null;
+  backlog: ParsedSection<BacklogItem> | null;
+  settings: Settings | null;
+};
+
+export type BackupFileResult = { file: ParsedBackupFile; error: null } | { file: null; error: string };
+
+export type RestorePlan = {
+  data: PlannerData;
+  reports: TransferReport[];
+};
+
+const BACKUP_APP = "daily-rhythm";
+const BACKUP_FILE_VERSION = 1;
+
+type Identified = { id: string };
+
+const nameOf = (record: unknown) => {
+  if (typeof record !== "object" || record === null) return "Unnamed record";
+  const { title, name, id } = record as Record<string, unknown>;
+  return [title, name, id].find((value): value is string => typeof value === "string" && value !== "") ?? "Unnamed record";
+};
+
+const rawName = (raw: string) => {
+  try {
+    return nameOf(JSON.parse(raw));
+  } catch {
+    return "Unreadable record";
+  }
+};
+
+export const backupFileName = (at: Date) => `daily-rhythm-backup-${at.toISOString().slice(0, 10)}.json`;
+
+export const createBackupFile = (data: PlannerData, at = new Date()) => {
+  const savedAt = at.toISOString();
+  const section = <T>(schema: CollectionSchema, records: T[]) => ({ version: schema.version, savedAt, records });
+  return JSON.stringify(
+    {
+      app: BACKUP_APP,
+      version: BACKUP_FILE_VERSION,
+      exportedAt: savedAt,
+      collections: {
+        tasks: section(taskSchema, data.tasks),
+        templates: section(templateSchema, data.templates),
+        categories: section(categorySchema, data.categories),
+        backlog: section(backlogSchema, data.backlog),
+      },
+      settings: data.settings,
+    },
+    null,
+    2,
+  );
+};
+
+// Checks the whole file before anything is restored: records that fail validation are reported, never applied.
+export const parseBackupFile = (text: string): BackupFileResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { file: null, error: "That file is not valid JSON." };
+  }
+
+  const root = (typeof parsed === "object" && parsed !== null ? parsed : {}) as Record<string, unknown>;
+  if (root.app !== BACKUP_APP || typeof root.collections !== "object" || root.collections === null) {
+    return { file: null, error: "That file is not a Daily Rhythm backup." };
+  }
+  if (typeof root.version !== "number" || root.version > BACKUP_FILE_VERSION) {
+    return { file: null, error: "That backup was made by a newer version of the app." };
+  }
+
+  const collections = root.collections as Record<string, unknown>;
+  const section = <T>(key: string, schema: CollectionSchema): ParsedSection<T> | null => {
+    if (collections[key] === undefined) return null;
+    const validated = validateCollection<T>(schema, collections[key]);
+    if (!validated) return { records: [], skipped: [{ name: key, reason: "section is not a list of records" }] };
+    if (validated.version > schema.version) {
+      return { records: [], skipped: [{ name: key, reason: "section was saved by a newer version" }] };
+    }
+    return {
+      records: validated.records,
+      skipped: validated.rejected.map((entry) => ({ name: rawName(entry.raw), reason: entry.reason })),
+    };
+  };
+
+  return {
+    file: {
+      exportedAt: typeof root.exportedAt === "string" ? root.exportedAt : "",
+      tasks: section<Task>("tasks", taskSchema),
+      templates: section<Template>("templates", templateSchema),
+      categories: section<Category>("categories", categorySchema),
+      backlog: section<BacklogItem>("backlog", backlogSchema),
+      settings: parseSettings(root.settings),
+    },
+    error: null,
+  };
+};
+
+// Records are matched by id. Merging keeps everything the file does not mention; replacing drops it.
+export const combineRecords = <T extends Identified>(
+  label: string,
+  current: T[],
+  incoming: T[],
+  skipped: SkippedRecord[],
+  mode: RestoreMode,
+) => {
+  const report: TransferReport = { label, added: [], updated: [], removed: [], skipped: [...skipped] };
+  const existing = new Map(current.map((record) => [record.id, record]));
+  const accepted = new Map<string, T>();
+
+  incoming.forEach((record) => {
+    if (accepted.has(record.id)) {
+      report.skipped.push({ name: nameOf(record), reason: "appears twice in the file" });
+      return;
+    }
+    accepted.set(record.id, record);
+    const before = existing.get(record.id);
+    if (!before) report.added.push(nameOf(record));
+    else if (JSON.stringify(before) === JSON.stringify(record)) report.skipped.push({ name: nameOf(record), reason: "unchanged" });
+    else report.updated.push(nameOf(record));
+  });
+
+  const kept = current.filter((record) => !accepted.has(record.id));
+  if (mode === "replace") report.removed = kept.map(nameOf);
+  return { records: [...(mode === "merge" ? kept : []), ...accepted.values()], report };
+};
+
+export const planRestore = (
+  file: ParsedBackupFile,
+  current: PlannerData,
+  mode: RestoreMode,
+  includeSettings: boolean,
+): RestorePlan => {
+  const reports: TransferReport[] = [];
+  const restore = <T extends Identified>(label: string, records: T[], section: ParsedSection<T> | null) => {
+    if (!section) return records;
+    const combined = combineRecords(label, records, section.records, section.skipped, mode);
+    reports.push(combined.report);
+    return combined.records;
+  };
+
+  const data: PlannerData = {
+    tasks: restore(taskSchema.label, current.tasks, file.tasks),
+    templates: restore(templateSchema.label, current.templates, file.templates),
+    categories: restore(categorySchema.label, current.categories, file.categories),
+    backlog: restore(backlogSchema.label, current.backlog, file.backlog),
+    settings: current.settings,
+  };
+
+  if (includeSettings && file.settings) {
+    const unchanged = JSON.stringify(file.settings) === JSON.stringify(current.settings);
+    data.settings = file.settings;
+    reports.push({
+      label: "Settings",
+      added: [],
+      updated: unchanged ? [] : ["Settings"],
+      removed: [],
+      skipped: unchanged ? [{ name: "Settings", reason: "unchanged" }] : [],
+    });
+  }
+
+  return { data, reports };
+};
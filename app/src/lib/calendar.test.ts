@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { blockRange, findFreeGaps, occurrencesAround, visibleHours } from "./calendar";
+import { makeTask } from "./testTasks";
+
+// The device clock is UTC (see vitest.config.ts), so zoned blocks land at fixed minutes.
+describe("blockRange", () => {
+  it("carries a block past midnight into the next day", () => {
+    const late = makeTask({ date: "2026-05-01", time: "23:00", duration: 120 });
+    expect(blockRange(late, "2026-05-01")).toEqual({ start: 23 * 60, end: 24 * 60 });
+    expect(blockRange(late, "2026-05-02")).toEqual({ start: 0, end: 60 });
+    expect(blockRange(late, "2026-05-03")).toBeNull();
+  });
+
+  it("converts a block set in another zone to the device's clock", () => {
+    const call = makeTask({ date: "2026-05-01", time: "09:00", timeZone: "America/New_York", duration: 60 });
+    expect(blockRange(call, "2026-05-01")).toEqual({ start: 13 * 60, end: 14 * 60 });
+  });
+
+  it("moves a late block in a zone behind the device onto the next day", () => {
+    const call = makeTask({ date: "2026-05-01", time: "22:00", timeZone: "America/Los_Angeles", duration: 30 });
+    expect(blockRange(call, "2026-05-01")).toBeNull();
+    expect(blockRange(call, "2026-05-02")).toEqual({ start: 5 * 60, end: 5 * 60 + 30 });
+  });
+});
+
+describe("findFreeGaps", () => {
+  it("starts the day after the spill-over from the evening before", () => {
+    const busy = occurrencesAround([makeTask({ date: "2026-05-01", time: "23:00", duration: 120 })], "2026-05-02", "2026-05-02");
+    expect(findFreeGaps(busy, "2026-05-02", 0, 180)).toEqual([{ start: 60, end: 180 }]);
+  });
+});
+
+describe("visibleHours", () => {
+  it("opens the grid from midnight when a block spills into the day", () => {
+    const busy = occurrencesAround([makeTask({ date: "2026-05-01", time: "23:00", duration: 120 })], "2026-05-02", "2026-05-02");
+    expect(visibleHours(busy, ["2026-05-02"]).start).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { addDays, expandTasks, weekdayOf } from "./recurrence";
+import { endInstant, formatDateInput, startInstant, type Task, type TaskOccurrence } from "./tasks";
+import { zonedParts } from "./timeZones";
+
+export type CalendarView = "day" | "week" | "month";
+
+export type DayMode = "list" | "timeline";
+
+export type TimeRange = {
+  start: number; // minutes since midnight
+  end: number;
+};
+
+export type DayDensity = {
+  date: string;
+  count: number;
+  busyMinutes: number;
+};
+
+export type OccurrenceDragPayload = {
+  key: string;
+  date: string;
+  time: string;
+  timeZone?: string; // the occurrence's own zone, so a drop on the device's clock can be converted back
+  grabOffset: number; // px between the pointer and the top of the block
+};
+
+export const OCCURRENCE_DRAG_TYPE = "application/x-daily-rhythm-occurrence";
+
+export const SNAP_MINUTES = 15;
+export const DEFAULT_DAY_START = 6 * 60;
+export const DEFAULT_DAY_END = 22 * 60;
+
+export const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+};
+
+export const timeFromMinutes = (value: number) => {
+  const clamped = Math.min(Math.max(Math.round(value), 0), 24 * 60 - 1);
+  return `${`${Math.floor(clamped / 60)}`.padStart(2, "0")}:${`${clamped % 60}`.padStart(2, "0")}`;
+};
+
+export const snapMinutes = (value: number, step = SNAP_MINUTES) => Math.round(value / step) * step;
+
+export const startOfWeek = (date: string, weekStartsOn = 1) => addDays(date, -((weekdayOf(date) - weekStartsOn + 7) % 7));
+
+export const weekDates = (date: string, weekStartsOn = 1) => {
+  const start = startOfWeek(date, weekStartsOn);
+  return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+};
+
+// Whole weeks covering the month of `date`, padded with days from the neighbouring months.
+export const monthWeeks = (date: string, weekStartsOn = 1) => {
+  const first = `${date.slice(0, 7)}-01`;
+  const weeks: string[][] = [];
+  let cursor = startOfWeek(first, weekStartsOn);
+  while (weeks.length === 0 || cursor.slice(0, 7) === date.slice(0, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => addDays(cursor, index)));
+    cursor = addDays(cursor, 7);
+  }
+  return weeks;
+};
+
+export const shiftPeriod = (date: string, view: CalendarView, direction: 1 | -1) => {
+  if (view === "day") return addDays(date, direction);
+  if (view === "week") return addDays(date, 7 * direction);
+  const [year, month] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + direction, 1));
+  return target.toISOString().slice(0, 10);
+};
+
+export const minutesOnClock = (instant: Date) => instant.getHours() * 60 + instant.getMinutes();
+
+// The date and time an instant reads as in the zone, or on the device's clock when there is none.
+export const wallClockIn = (instant: Date, timeZone?: string) =>
+  timeZone
+    ? zonedParts(instant.getTime(), timeZone)
+    : { date: formatDateInput(instant), time: timeFromMinutes(minutesOnClock(instant)) };
+
+// Anything laid out on a day; planned blocks that are not tasks yet never count as skipped.
+type DayBlock = Pick<TaskOccurrence, "date" | "time" | "timeZone" | "duration"> & { skipped?: boolean };
+
+// The part of a block that falls on `day` of the device's clock, in minutes since that midnight. Blocks set in
+// another zone are converted first, and one that runs past midnight carries on into the next day.
+export const blockRange = (block: DayBlock, day: string): TimeRange | null => {
+  const start = startInstant(block);
+  const end = endInstant(block);
+  const startDay = formatDateInput(start);
+  const endDay = formatDateInput(end);
+  if (startDay > day || endDay < day) return null;
+
+  const from = startDay === day ? minutesOnClock(start) : 0;
+  const to = endDay === day ? minutesOnClock(end) : 24 * 60;
+  // Inside a repeated fall-back hour the clock can read earlier at the end than at the start.
+  const range = { start: from, end: startDay === endDay && to <= from ? Math.min(from + block.duration, 24 * 60) : to };
+  return range.end > range.start ? range : null;
+};
+
+export const endTimeOf = (occurrence: Pick<TaskOccurrence, "time" | "duration">) =>
+  timeFromMinutes(minutesOfDay(occurrence.time) + occurrence.duration);
+
+// Zones and blocks past midnight can put an occurrence on a neighbouring day of the device's clock.
+export const occurrencesAround = (tasks: Task[], from: string, to: string) =>
+  expandTasks(tasks, addDays(from, -1), addDays(to, 1));
+
+export const activeBlocks = (occurrences: DayBlock[], day: string) =>
+  occurrences
+    .filter((occurrence) => !occurrence.skipped)
+    .flatMap((occurrence) => {
+      const range = blockRange(occurrence, day);
+      return range ? [range] : [];
+    })
+    .sort((a, b) => a.start - b.start);
+
+export const findFreeGaps = (
+  occurrences: DayBlock[],
+  day: string,
+  dayStart = DEFAULT_DAY_START,
+  dayEnd = DEFAULT_DAY_END,
+  minimumMinutes = SNAP_MINUTES,
+): TimeRange[] => {
+  const gaps: TimeRange[] = [];
+  let cursor = dayStart;
+  activeBlocks(occurrences, day).forEach((block) => {
+    if (block.start - cursor >= minimumMinutes) gaps.push({ start: cursor, end: Math.min(block.start, dayEnd) });
+    cursor = Math.max(cursor, block.end);
+  });
+  if (dayEnd - cursor >= minimumMinutes) gaps.push({ start: cursor, end: dayEnd });
+  return gaps.filter((gap) => gap.end > gap.start);
+};
+
+export const dayDensity = (date: string, occurrences: TaskOccurrence[]): DayDensity => {
+  const blocks = activeBlocks(occurrences, date);
+  let busyMinutes = 0;
+  let cursor = 0;
+  blocks.forEach((block) => {
+    busyMinutes += Math.max(0, block.end - Math.max(block.start, cursor));
+    cursor = Math.max(cursor, block.end);
+  });
+  return { date, count: blocks.length, busyMinutes };
+};
+
+// Widens the visible hours so early or late blocks are never cut off.
+export const visibleHours = (occurrences: TaskOccurrence[], dates: string[]) => {
+  const blocks = dates.flatMap((date) => activeBlocks(occurrences, date));
+  const start = Math.min(DEFAULT_DAY_START, ...blocks.map((block) => block.start));
+  const end = Math.max(DEFAULT_DAY_END, ...blocks.map((block) => block.end));
+  return { start: Math.floor(start / 60) * 60, end: Math.min(Math.ceil(end / 60) * 60, 24 * 60) };
+};
+
+export const formatMinutes = (value: number) => {
+  const hours = Math.floor(value / 60);
+  const minutes = value % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+};
+
+export const readDragPayload = (dataTransfer: DataTransfer): OccurrenceDragPayload | null => {
+  try {
+    return JSON.parse(dataTransfer.getData(OCCURRENCE_DRAG_TYPE)) as OccurrenceDragPayload;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,131 @@
+import { addDays, expandTasks } from "./recurrence";
+import { createId, type Task, type TaskOccurrence } from "./tasks";
+
+export type Priority = "low" | "normal" | "high";
+
+export type Category = {
+  id: string;
+  name: string;
+  color: string; // hex
+};
+
+export type FilterScope = "day" | "all";
+
+export type TaskFilter = {
+  query: string;
+  categoryId: string; // "all", "none" or a category id
+  tag: string; // "" for any tag
+  priority: Priority | "all";
+  status: "all" | "open" | "done";
+};
+
+export const CATEGORIES_STORAGE_KEY = "daily-rhythm-categories";
+
+// Searching every date looks this far ahead so recurring series stay finite.
+export const SEARCH_AHEAD_DAYS = 60;
+
+export const priorities: Priority[] = ["high", "normal", "low"];
+
+export const priorityLabels: Record<Priority, string> = {
+  high: "High",
+  normal: "Normal",
+  low: "Low",
+};
+
+export const categoryPalette = ["#38bdf8", "#34d399", "#fbbf24", "#f87171", "#a78bfa", "#f472b6", "#94a3b8"];
+
+export const defaultCategories: Category[] = [
+  { id: "work", name: "Work", color: "#38bdf8" },
+  { id: "personal", name: "Personal", color: "#34d399" },
+  { id: "health", name: "Health", color: "#f87171" },
+];
+
+export const emptyFilter: TaskFilter = { query: "", categoryId: "all", tag: "", priority: "all", status: "all" };
+
+export const createCategory = (name: string, existing: Category[]): Category => ({
+  id: createId(),
+  name,
+  color: categoryPalette[existing.length % categoryPalette.length],
+});
+
+export const priorityOf = (task: Pick<Task, "priority">): Priority => task.priority ?? "normal";
+
+export const normalizeTags = (value: string | string[]) =>
+  [
+    ...new Set(
+      (Array.isArray(value) ? value : value.split(/[,\s]+/))
+        .map((tag) => tag.trim().replace(/^#/, "").toLowerCase())
+        .filter(Boolean),
+    ),
+  ].sort();
+
+export const isFilterActive = (filter: TaskFilter) =>
+  filter.query.trim() !== "" ||
+  filter.categoryId !== "all" ||
+  filter.tag !== "" ||
+  filter.priority !== "all" ||
+  filter.status !== "all";
+
+export const matchesFilter = (occurrence: TaskOccurrence, filter: TaskFilter, categories: Category[]) => {
+  if (filter.categoryId === "none" ? occurrence.categoryId : filter.categoryId !== "all" && occurrence.categoryId !== filter.categoryId) {
+    return false;
+  }
+  if (filter.tag && !occurrence.tags?.includes(filter.tag)) return false;
+  if (filter.priority !== "all" && priorityOf(occurrence) !== filter.priority) return false;
+  if (filter.status === "open" && occurrence.completed) return false;
+  if (filter.status === "done" && !occurrence.completed) return false;
+
+  const query = filter.query.trim().toLowerCase();
+  if (!query) return true;
+  const category = categories.find((item) => item.id === occurrence.categoryId);
+  return [occurrence.title, occurrence.description, category?.name ?? "", ...(occurrence.tags ?? []).map((tag) => `#${tag}`)]
+    .join(" ")
+    .toLowerCase()
+    .includes(query);
+};
+
+export const filterOccurrences = (occurrences: TaskOccurrence[], filter: TaskFilter, categories: Category[]) =>
+  isFilterActive(filter) ? occurrences.filter((occurrence) => matchesFilter(occurrence, filter, categories)) : occurrences;
+
+export const searchAllDates = (tasks: Task[], filter: TaskFilter, categories: Category[], today: string) => {
+  if (tasks.length === 0) return [];
+  const from = tasks.reduce((earliest, task) => (task.date < earliest ? task.date : earliest), today);
+  return filterOccurrences(expandTasks(tasks, from, addDays(today, SEARCH_AHEAD_DAYS)), filter, categories).filter(
+    (occurrence) => !occurrence.skipped,
+  );
+};
+
+export const collectTags = (tasks: Task[]) =>
+  normalizeTags(
+    tasks.flatMap((task) => [...(task.tags ?? []), ...Object.values(task.exceptions ?? {}).flatMap((override) => override.tags ?? [])]),
+  );
+
+export const describeFilter = (filter: TaskFilter, categories: Category[]) =>
+  [
+    filter.categoryId === "none"
+      ? "Uncategorised"
+      : categories.find((category) => category.id === filter.categoryId)?.name,
+    filter.tag && `#${filter.tag}`,
+    filter.priority !== "all" && `${priorityLabels[filter.priority]} priority`,
+    filter.status !== "all" && (filter.status === "open" ? "Open" : "Done"),
+    filter.query.trim() && `“${filter.query.trim()}”`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// Deleting a category leaves its activities uncategorised, including per-occurrence overrides.
+export const clearCategory = (tasks: Task[], categoryId: string) => {
+  const next = tasks.map((task) => {
+    const exceptions = task.exceptions
+      ? Object.fromEntries(
+          Object.entries(task.exceptions).map(([date, override]) => [
+            date,
+            override.categoryId === categoryId ? { ...override, categoryId: undefined } : override,
+          ]),
+        )
+      : undefined;
+    const touched = task.categoryId === categoryId || JSON.stringify(exceptions) !== JSON.stringify(task.exceptions);
+    return touched ? { ...task, categoryId: task.categoryId === categoryId ? undefined : task.categoryId, exceptions } : task;
+  });
+  return next.some((task, index) => task !== tasks[index]) ? next : tasks;
+};
@@ -0,0 +1,52 @@
+import { createId, markCompleted, type TaskFields, type TaskOccurrence } from "./tasks";
+
+export type ChecklistItem = {
+  id: string;
+  title: string;
+  done: boolean;
+};
+
+export type ChecklistProgress = {
+  done: number;
+  total: number;
+};
+
+export const createChecklistItem = (title: string): ChecklistItem => ({ id: createId(), title: title.trim(), done: false });
+
+// One item per line; pasted bullets and checkboxes are dropped, and "[x]" lines start ticked.
+export const parseChecklist = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => /^\s*(?:[-*•]\s+)?(?:\[([ x]?)\]\s+)?(.*)$/i.exec(line) as RegExpExecArray)
+    .filter(([, , title]) => title.trim())
+    .map(([, mark, title]) => ({ ...createChecklistItem(title), done: mark?.toLowerCase() === "x" }));
+
+export const checklistFromTitles = (titles: string[]) => titles.map(createChecklistItem);
+
+// Each occurrence of a series starts with the items unticked.
+export const resetChecklist = (items: ChecklistItem[] | undefined) => items?.map((item) => ({ ...item, done: false }));
+
+export const checklistProgress = (occurrences: Pick<TaskFields, "checklist">[]): ChecklistProgress =>
+  occurrences.reduce(
+    (progress, occurrence) => ({
+      done: progress.done + (occurrence.checklist ?? []).filter((item) => item.done).length,
+      total: progress.total + (occurrence.checklist ?? []).length,
+    }),
+    { done: 0, total: 0 },
+  );
+
+export const formatProgress = ({ done, total }: ChecklistProgress) => `${done}/${total}`;
+
+// With auto-complete on, ticking the last item completes the parent and unticking one reopens it.
+export const checklistUpdate = (
+  occurrence: TaskOccurrence,
+  checklist: ChecklistItem[],
+  at = new Date(),
+): Partial<TaskFields> => {
+  if (!occurrence.autoComplete || checklist.length === 0) return { checklist };
+  const done = checklist.every((item) => item.done);
+  return done === occurrence.completed ? { checklist } : { checklist, ...markCompleted(done, at) };
+};
+
+export const toggleChecklistItem = (items: ChecklistItem[], itemId: string, done: boolean) =>
+  items.map((item) => (item.id === itemId ? { ...item, done } : item));
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { defaultCategories } from "./categories";
+import { importTasksCsv, tasksToCsv } from "./csv";
+import { makeTask } from "./testTasks";
+
+const importRows = (...rows: string[]) => importTasksCsv(["title,date,time", ...rows].join("\n"), [], [], []);
+
+describe("importTasksCsv times", () => {
+  it("accepts times from midnight to 23:59, padding short ones", () => {
+    const { tasks, report } = importRows("Early,2026-06-01,00:00", "Late,2026-06-01,23:59", "Short,2026-06-01,9:5");
+    expect(tasks.map((task) => task.time)).toEqual(["00:00", "09:05", "23:59"]);
+    expect(report.skipped).toEqual([]);
+  });
+
+  it("skips hours past 23 and minutes past 59", () => {
+    const { tasks, report } = importRows("Hours,2026-06-01,24:00", "Minutes,2026-06-01,10:60");
+    expect(tasks).toEqual([]);
+    expect(report.skipped).toEqual([
+      { name: "Hours", reason: "row 2: time must be between 00:00 and 23:59" },
+      { name: "Minutes", reason: "row 3: time must be between 00:00 and 23:59" },
+    ]);
+  });
+});
+
+describe("importTasksCsv", () => {
+  const standup = makeTask({
+    id: "standup",
+    title: "=Standup",
+    date: "2026-06-01",
+    time: "09:00",
+    timeZone: "Europe/Berlin",
+    reminders: [10],
+    deliveries: { 10: { state: "delivered", at: "2026-06-01T06:50:00.000Z" } },
+    categoryId: "work",
+  });
+
+  it("reads its own export back unchanged", () => {
+    const { tasks, report } = importTasksCsv(tasksToCsv([standup], defaultCategories), [standup], defaultCategories, []);
+    expect(tasks).toEqual([standup]);
+    expect(report.skipped).toEqual([{ name: "=Standup", reason: "unchanged" }]);
+  });
+
+  it("updates rows with a known id and re-arms reminders only when the start moves", () => {
+    const header = "id,title,date,time,timeZone";
+    const renamed = importTasksCsv(`${header}\nstandup,Daily standup,2026-06-01,09:00,Europe/Berlin`, [standup], [], []);
+    expect(renamed.report.updated).toEqual(["Daily standup"]);
+    expect(renamed.tasks[0].deliveries).toEqual(standup.deliveries);
+
+    const moved = importTasksCsv(`${header}\nstandup,Standup,2026-06-01,09:30,Europe/Berlin`, [standup], [], []);
+    expect(moved.tasks[0].deliveries).toEqual({});
+
+    const rezoned = importTasksCsv(`${header}\nstandup,Standup,2026-06-01,09:00,Europe/London`, [standup], [], []);
+    expect(rezoned.tasks[0].deliveries).toEqual({});
+  });
+
+  it("adds rows without an id using the default reminders", () => {
+    const { tasks, report } = importTasksCsv("title,date,time,category\nGym,2026-06-02,18:00,health", [], defaultCategories, [5]);
+    expect(report.added).toEqual(["Gym"]);
+    expect(tasks[0]).toMatchObject({ reminders: [5], categoryId: "health", deliveries: {} });
+  });
+
+  it("skips rows it cannot place and reports why", () => {
+    const { tasks, report } = importTasksCsv(
+      "title,date,time,timeZone,category\nCall,2026-06-02,10:00,Mars/Olympus,\nSwim,2026-06-02,07:00,,Sport\nNap,2026-02-30,14:00,,",
+      [],
+      defaultCategories,
+      [],
+    );
+    expect(tasks).toEqual([]);
+    expect(report.skipped.map((entry) => entry.reason)).toEqual([
+      "row 2: unknown time zone Mars/Olympus",
+      "row 3: no category named Sport",
+      "row 4: date must be a real YYYY-MM-DD day",
+    ]);
+  });
+
+  it("leaves the plan alone when a required column is missing", () => {
+    const { tasks, report } = importTasksCsv("title,date\nGym,2026-06-02", [standup], [], []);
+    expect(tasks).toEqual([standup]);
+    expect(report.skipped).toEqual([{ name: "File", reason: "missing column time" }]);
+  });
+});
@@ -0,0 +1,222 @@
+import type { TransferReport } from "./backupFile";
+import { normalizeTags, priorities, priorityOf, type Category, type Priority } from "./categories";
+import { describeRecurrence } from "./recurrence";
+import { describeTaskIssue } from "./storage";
+import {
+  DEFAULT_DURATION_MINUTES,
+  createId,
+  normalizeTimeValue,
+  sortReminderOffsets,
+  sortTasks,
+  type Task,
+} from "./tasks";
+import { deviceTimeZone, isValidTimeZone } from "./timeZones";
+
+export type CsvImportResult = {
+  tasks: Task[];
+  report: TransferReport;
+};
+
+export const taskCsvColumns = [
+  "id",
+  "title",
+  "description",
+  "date",
+  "time",
+  "timeZone",
+  "duration",
+  "reminders",
+  "completed",
+  "completedAt",
+  "priority",
+  "category",
+  "tags",
+  "repeats",
+] as const;
+
+type TaskCsvColumn = (typeof taskCsvColumns)[number];
+
+const REQUIRED_COLUMNS: TaskCsvColumn[] = ["title", "date", "time"];
+
+// Spreadsheets run cells starting with these as formulas, so exported text gets a leading apostrophe.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const textCell = (value: string) => escapeCell(FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+const readText = (value: string) => (value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value);
+
+export const csvFileName = (at: Date) => `daily-rhythm-tasks-${at.toISOString().slice(0, 10)}.csv`;
+
+// One row per task as stored; a recurring series is a single row and its rule is described for reading only.
+export const tasksToCsv = (tasks: Task[], categories: Category[]) => {
+  const rows = sortTasks(tasks).map((task) => {
+    const cells: Record<TaskCsvColumn, string> = {
+      id: escapeCell(task.id),
+      title: textCell(task.title),
+      description: textCell(task.description),
+      date: task.date,
+      time: task.time,
+      timeZone: task.timeZone ?? "",
+      duration: String(task.duration),
+      reminders: task.reminders.join(";"),
+      completed: task.completed ? "yes" : "no",
+      completedAt: task.completedAt ?? "",
+      priority: task.priority ?? "normal",
+      category: textCell(categories.find((category) => category.id === task.categoryId)?.name ?? ""),
+      tags: textCell((task.tags ?? []).join(";")),
+      repeats: task.recurrence ? textCell(describeRecurrence(task.recurrence, task.date)) : "",
+    };
+    return taskCsvColumns.map((column) => cells[column]).join(",");
+  });
+  return [taskCsvColumns.join(","), ...rows].join("\r\n");
+};
+
+// RFC 4180: quoted cells may hold commas, doubled quotes and line breaks.
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) rows.push([...row, cell]);
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+const parseFlag = (value: string) => ["yes", "true", "1", "x", "done"].includes(value.trim().toLowerCase());
+
+const isValidDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+};
+
+// The same range the form's time picker allows, 00:00 to 23:59.
+const isValidTime = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return /^\d{2}:\d{2}$/.test(time) && hours <= 23 && minutes <= 59;
+};
+
+const parseOffsets = (value: string) =>
+  value
+    .split(/[;,\s]+/)
+    .filter(Boolean)
+    .map(Number);
+
+// Rows are matched to existing tasks by id; updating a task keeps its repeat rule and per-occurrence changes.
+export const importTasksCsv = (
+  text: string,
+  current: Task[],
+  categories: Category[],
+  defaultReminders: number[],
+): CsvImportResult => {
+  const report: TransferReport = { label: "Activities", added: [], updated: [], removed: [], skipped: [] };
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const columns = header.map((name) => name.trim());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    report.skipped.push({ name: "File", reason: `missing column${missing.length === 1 ? "" : "s"} ${missing.join(", ")}` });
+    return { tasks: current, report };
+  }
+
+  const byId = new Map(current.map((task) => [task.id, task]));
+  const seen = new Set<string>();
+
+  rows.forEach((cells, index) => {
+    const cell = (column: TaskCsvColumn) => {
+      const position = columns.indexOf(column);
+      return position === -1 ? "" : readText(cells[position]?.trim() ?? "");
+    };
+    const rowName = cell("title") || `Row ${index + 2}`;
+    const skip = (reason: string) => {
+      report.skipped.push({ name: rowName, reason: `row ${index + 2}: ${reason}` });
+    };
+
+    const id = cell("id");
+    if (id && seen.has(id)) return skip("appears twice in the file");
+    if (id) seen.add(id);
+    const existing = id ? byId.get(id) : undefined;
+
+    const time = normalizeTimeValue(cell("time"));
+    const duration = cell("duration") ? Number(cell("duration")) : (existing?.duration ?? DEFAULT_DURATION_MINUTES);
+    const reminders = cell("reminders") ? parseOffsets(cell("reminders")) : (existing?.reminders ?? defaultReminders);
+    const categoryName = cell("category").toLowerCase();
+    const category = categories.find((item) => item.name.toLowerCase() === categoryName);
+    const listed = cell("priority").toLowerCase() as Priority;
+    const priority = priorities.includes(listed) ? listed : "normal";
+    const timeZone = cell("timeZone");
+    const completed = parseFlag(cell("completed"));
+    const completedAt = cell("completedAt");
+
+    if (timeZone && !isValidTimeZone(timeZone)) return skip(`unknown time zone ${timeZone}`);
+    if (categoryName && !category) return skip(`no category named ${cell("category")}`);
+
+    const zone = timeZone || (existing ? existing.timeZone : deviceTimeZone());
+    // A new zone moves the start as much as a new date or time, so it re-arms the reminders too.
+    const rescheduled = existing && (existing.date !== cell("date") || existing.time !== time || existing.timeZone !== zone);
+    const task: Task = {
+      ...existing,
+      id: existing?.id ?? (id || createId()),
+      title: cell("title"),
+      description: cell("description"),
+      date: cell("date"),
+      time,
+      timeZone: zone,
+      duration,
+      reminders: sortReminderOffsets(reminders),
+      deliveries: !existing || rescheduled ? {} : existing.deliveries,
+      completed,
+      completedAt: completed ? completedAt || existing?.completedAt || new Date().toISOString() : undefined,
+      // An unset priority reads as "normal", so writing it back does not count as a change.
+      priority: priority === priorityOf(existing ?? {}) ? existing?.priority : priority,
+      categoryId: category?.id,
+      tags: cell("tags") ? normalizeTags(cell("tags").split(";")) : undefined,
+    };
+
+    if (!task.title) return skip("title is empty");
+    if (!isValidDate(task.date)) return skip("date must be a real YYYY-MM-DD day");
+    if (!isValidTime(task.time)) return skip("time must be between 00:00 and 23:59");
+    const issue = describeTaskIssue(task);
+    if (issue) return skip(issue);
+
+    if (!existing) {
+      report.added.push(task.title);
+    } else if (JSON.stringify(existing) === JSON.stringify(task)) {
+      report.skipped.push({ name: task.title, reason: "unchanged" });
+      return;
+    } else {
+      report.updated.push(task.title);
+    }
+    byId.set(task.id, task);
+  });
+
+  return { tasks: sortTasks([...byId.values()]), report };
+};
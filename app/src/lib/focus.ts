@@ -0,0 +1,147 @@
+import type { TaskOccurrence } from "./tasks";
+
+export type FocusMode = "countdown" | "pomodoro";
+
+export type FocusPhase = "focus" | "shortBreak" | "longBreak";
+
+export type PomodoroSettings = {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  roundsBeforeLongBreak: number;
+};
+
+export type FocusSession = {
+  occurrenceKey: string;
+  taskId: string;
+  date: string;
+  title: string;
+  mode: FocusMode;
+  phase: FocusPhase;
+  phaseStartedAt: number; // epoch ms, pushed forward by pauses
+  phaseMinutes: number;
+  pausedAt?: number; // epoch ms
+  round: number; // 1-based focus round
+  rounds: number; // focus rounds before the session ends
+  focusedMs: number; // focus time from finished rounds
+  previousFocusMinutes: number; // time already logged on the task when the session started
+  settings: PomodoroSettings;
+};
+
+export type FocusAdvance = {
+  session: FocusSession;
+  transitions: FocusPhase[]; // phases entered since the last check, oldest first
+  finished: boolean;
+};
+
+export const FOCUS_SESSION_STORAGE_KEY = "daily-rhythm-focus-session";
+
+export const defaultPomodoroSettings: PomodoroSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  roundsBeforeLongBreak: 4,
+};
+
+export const focusPhaseLabels: Record<FocusPhase, string> = {
+  focus: "Focus",
+  shortBreak: "Short break",
+  longBreak: "Long break",
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const startFocusSession = (
+  occurrence: TaskOccurrence,
+  mode: FocusMode,
+  now: number,
+  settings = defaultPomodoroSettings,
+): FocusSession => ({
+  occurrenceKey: occurrence.key,
+  taskId: occurrence.taskId,
+  date: occurrence.date,
+  title: occurrence.title,
+  mode,
+  phase: "focus",
+  phaseStartedAt: now,
+  phaseMinutes: mode === "countdown" ? occurrence.duration : settings.focusMinutes,
+  round: 1,
+  // A pomodoro session covers the block with as many full rounds as fit, and at least one.
+  rounds: mode === "countdown" ? 1 : Math.max(1, Math.round(occurrence.duration / settings.focusMinutes)),
+  focusedMs: 0,
+  previousFocusMinutes: occurrence.focusMinutes ?? 0,
+  settings,
+});
+
+export const phaseEndsAt = (session: FocusSession) => session.phaseStartedAt + session.phaseMinutes * MINUTE_MS;
+
+export const remainingMs = (session: FocusSession, now: number) =>
+  Math.max(0, phaseEndsAt(session) - (session.pausedAt ?? now));
+
+export const focusedMs = (session: FocusSession, now: number) => {
+  if (session.phase !== "focus") return session.focusedMs;
+  const elapsed = Math.min((session.pausedAt ?? now) - session.phaseStartedAt, session.phaseMinutes * MINUTE_MS);
+  return session.focusedMs + Math.max(0, elapsed);
+};
+
+export const totalFocusMinutes = (session: FocusSession, now: number) =>
+  session.previousFocusMinutes + Math.round(focusedMs(session, now) / MINUTE_MS);
+
+const nextPhase = (session: FocusSession, startedAt: number): FocusSession => {
+  const { settings } = session;
+  if (session.phase !== "focus") {
+    return { ...session, phase: "focus", phaseStartedAt: startedAt, phaseMinutes: settings.focusMinutes, round: session.round + 1 };
+  }
+  const long = session.round % settings.roundsBeforeLongBreak === 0;
+  return {
+    ...session,
+    phase: long ? "longBreak" : "shortBreak",
+    phaseStartedAt: startedAt,
+    phaseMinutes: long ? settings.longBreakMinutes : settings.shortBreakMinutes,
+    focusedMs: session.focusedMs + session.phaseMinutes * MINUTE_MS,
+  };
+};
+
+// Walks through every phase that ended since the last check, so a reload after a long gap catches up correctly.
+export const advanceFocusSession = (session: FocusSession, now: number): FocusAdvance => {
+  let current = session;
+  const transitions: FocusPhase[] = [];
+  while (!current.pausedAt && phaseEndsAt(current) <= now) {
+    if (current.phase === "focus" && current.round >= current.rounds) {
+      return { session: current, transitions, finished: true };
+    }
+    current = nextPhase(current, phaseEndsAt(current));
+    transitions.push(current.phase);
+  }
+  return { session: current, transitions, finished: false };
+};
+
+export const pauseFocusSession = (session: FocusSession, now: number): FocusSession =>
+  session.pausedAt ? session : { ...session, pausedAt: now };
+
+export const resumeFocusSession = (session: FocusSession, now: number): FocusSession => {
+  if (!session.pausedAt) return session;
+  const { pausedAt, ...running } = session;
+  return { ...running, phaseStartedAt: session.phaseStartedAt + (now - pausedAt) };
+};
+
+// Ending a break early goes straight to the next focus round.
+export const skipBreak = (session: FocusSession, now: number): FocusSession =>
+  session.phase === "focus" ? session : nextPhase({ ...session, pausedAt: undefined }, now);
+
+export const readFocusSession = (): FocusSession | null => {
+  try {
+    const stored = window.localStorage.getItem(FOCUS_SESSION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as FocusSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeFocusSession = (session: FocusSession | null) => {
+  if (session) {
+    window.localStorage.setItem(FOCUS_SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    window.localStorage.removeItem(FOCUS_SESSION_STORAGE_KEY);
+  }
+};
@@ -0,0 +1,90 @@
+import { createId, sortTasks, type Task } from "./tasks";
+
+export type TaskChange = {
+  id: string;
+  before: Task | null; // null when the command created the task
+  after: Task | null; // null when the command removed the task
+};
+
+export type HistoryEntry = {
+  id: string;
+  label: string;
+  at: string; // ISO string
+  changes: TaskChange[];
+};
+
+export type History = {
+  past: HistoryEntry[]; // newest first
+  future: HistoryEntry[]; // next redo first
+};
+
+export type HistoryStep = {
+  entry: HistoryEntry;
+  tasks: Task[];
+  history: History;
+};
+
+// sessionStorage keeps history for the tab's session only, so a reload can still undo but a new visit starts clean.
+export const HISTORY_STORAGE_KEY = "daily-rhythm-history";
+
+const MAX_HISTORY_ENTRIES = 50;
+
+export const emptyHistory: History = { past: [], future: [] };
+
+const sameTask = (a: Task | undefined, b: Task | undefined) => JSON.stringify(a) === JSON.stringify(b);
+
+export const diffTaskLists = (before: Task[], after: Task[]): TaskChange[] => {
+  const previous = new Map(before.map((task) => [task.id, task]));
+  const next = new Map(after.map((task) => [task.id, task]));
+  const ids = new Set([...previous.keys(), ...next.keys()]);
+  return [...ids]
+    .filter((id) => !sameTask(previous.get(id), next.get(id)))
+    .map((id) => ({ id, before: previous.get(id) ?? null, after: next.get(id) ?? null }));
+};
+
+export const recordHistory = (history: History, label: string, before: Task[], after: Task[], at = new Date()): History => {
+  const changes = diffTaskLists(before, after);
+  if (changes.length === 0) return history;
+  const entry: HistoryEntry = { id: createId(), label, at: at.toISOString(), changes };
+  return { past: [entry, ...history.past].slice(0, MAX_HISTORY_ENTRIES), future: [] };
+};
+
+// Only the tasks a command touched are rewritten, so edits synced in from elsewhere in between are kept.
+const applyEntry = (tasks: Task[], entry: HistoryEntry, side: "before" | "after") => {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  entry.changes.forEach((change) => {
+    const value = change[side];
+    if (value) byId.set(change.id, value);
+    else byId.delete(change.id);
+  });
+  return sortTasks([...byId.values()]);
+};
+
+export const undoHistory = (history: History, tasks: Task[]): HistoryStep | null => {
+  const [entry, ...past] = history.past;
+  if (!entry) return null;
+  return { entry, tasks: applyEntry(tasks, entry, "before"), history: { past, future: [entry, ...history.future] } };
+};
+
+export const redoHistory = (history: History, tasks: Task[]): HistoryStep | null => {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return { entry, tasks: applyEntry(tasks, entry, "after"), history: { past: [entry, ...history.past], future } };
+};
+
+export const readHistory = (): History => {
+  try {
+    const stored = window.sessionStorage.getItem(HISTORY_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as History) : emptyHistory;
+  } catch {
+    return emptyHistory;
+  }
+};
+
+export const writeHistory = (history: History) => {
+  try {
+    window.sessionStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.warn("Unable to persist undo history", error);
+  }
+};
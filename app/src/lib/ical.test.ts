@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { exportICalendar, parseICalendar } from "./ical";
+import type { Task } from "./tasks";
+import { makeTask } from "./testTasks";
+
+const series = (fields: Partial<Task>) =>
+  makeTask({
+    id: "run",
+    title: "Run",
+    date: "2026-03-02",
+    time: "07:00",
+    recurrence: { frequency: "weekly", interval: 1, until: "2026-12-31" },
+    ...fields,
+  });
+
+const lines = (text: string) => text.split("\r\n");
+
+describe("exportICalendar time zones", () => {
+  it("adds a VTIMEZONE with both of the year's transitions for a zoned series", () => {
+    const text = exportICalendar([series({ timeZone: "Europe/Berlin" })], { kind: "all" });
+    const exported = lines(text);
+    expect(exported).toContain("TZID:Europe/Berlin");
+    expect(text).toContain("BEGIN:DAYLIGHT\r\nDTSTART:20260329T020000\r\nTZOFFSETFROM:+0100\r\nTZOFFSETTO:+0200");
+    expect(text).toContain("BEGIN:STANDARD\r\nDTSTART:20261025T030000\r\nTZOFFSETFROM:+0200\r\nTZOFFSETTO:+0100");
+    expect(exported).toContain("DTSTART;TZID=Europe/Berlin:20260302T070000");
+    expect(exported.indexOf("END:VTIMEZONE")).toBeLessThan(exported.indexOf("BEGIN:VEVENT"));
+  });
+
+  it("writes UNTIL in UTC for a zoned series and floating for a floating one", () => {
+    expect(exportICalendar([series({ timeZone: "America/New_York" })], { kind: "all" })).toContain(
+      "UNTIL=20270101T045959Z",
+    );
+    const floating = exportICalendar([series({})], { kind: "all" });
+    expect(floating).toContain("UNTIL=20261231T235959");
+    expect(floating).not.toContain("VTIMEZONE");
+  });
+
+  it("reads a UTC UNTIL back as the last day in the series' zone", () => {
+    const [{ task }] = parseICalendar(exportICalendar([series({ timeZone: "America/New_York" })], { kind: "all" }));
+    expect(task.timeZone).toBe("America/New_York");
+    expect(task.recurrence?.until).toBe("2026-12-31");
+  });
+});
@@ -0,0 +1,592 @@
+import { expandTasks, nthWeekdayOfMonth, weekdayOf, type RecurrenceRule } from "./recurrence";
+import {
+  DEFAULT_DURATION_MINUTES,
+  combineDateTime,
+  createId,
+  formatDateInput,
+  sortReminderOffsets,
+  sortTasks,
+  type OccurrenceOverride,
+  type Task,
+  type TaskOccurrence,
+} from "./tasks";
+import { isValidTimeZone, zoneOffsetMinutes, zonedInstant, zonedParts } from "./timeZones";
+
+export type ExportScope = { kind: "all" } | { kind: "range"; from: string; to: string };
+
+export type ImportStatus = "new" | "duplicate" | "conflict";
+
+export type ImportPreviewEntry = {
+  task: Task;
+  status: ImportStatus;
+  reason?: string;
+  warnings: string[];
+};
+
+type CalendarProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type CalendarComponent = {
+  type: string;
+  properties: CalendarProperty[];
+  children: CalendarComponent[];
+};
+
+type ParsedDate = {
+  date: string;
+  time: string;
+  allDay: boolean;
+  timeZone?: string; // set for TZID values, which keep their wall-clock time
+};
+
+type ParsedEvent = {
+  uid: string;
+  task: Task;
+  recurrenceId?: string; // YYYY-MM-DD of the overridden occurrence
+  warnings: string[];
+};
+
+const PRODUCT_ID = "-//Daily Rhythm//Planner//EN";
+const UID_SUFFIX = "@daily-rhythm";
+const COMPLETED_PROPERTY = "X-DAILY-RHYTHM-COMPLETED";
+const icalWeekdays = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+// Open-ended series get this many years of zone transitions past their last listed date.
+const OPEN_SERIES_YEARS = 10;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// RFC 5545 lines are limited to 75 octets; continuation lines start with a single space.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+};
+
+const formatLocalDateTime = (date: string, time: string) => `${date.replace(/-/g, "")}T${time.replace(":", "")}00`;
+
+// Tasks without a zone of their own are exported as floating times, which calendars read in the viewer's zone.
+// Every zone named here gets a VTIMEZONE (see formatTimeZone).
+const zoneParam = (timeZone?: string) => (timeZone ? `;TZID=${timeZone}` : "");
+
+const formatUtcStamp = (value: Date) => value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// RFC 5545 wants UNTIL in UTC when DTSTART has a zone, and as a floating time when DTSTART is floating.
+const formatUntil = (until: string, timeZone?: string) =>
+  timeZone
+    ? formatUtcStamp(new Date(zonedInstant(until, "23:59", timeZone) + 59 * 1000))
+    : `${until.replace(/-/g, "")}T235959`;
+
+const formatOffset = (minutes: number) => {
+  const absolute = Math.abs(minutes);
+  return `${minutes < 0 ? "-" : "+"}${`${Math.floor(absolute / 60)}`.padStart(2, "0")}${`${absolute % 60}`.padStart(2, "0")}`;
+};
+
+// Offset changes between the two instants, found week by week and then narrowed to the minute.
+const zoneTransitions = (timeZone: string, from: number, to: number) => {
+  const transitions: { instant: number; before: number; after: number }[] = [];
+  let before = zoneOffsetMinutes(from, timeZone);
+  for (let cursor = from + WEEK_MS; cursor < to + WEEK_MS; cursor += WEEK_MS) {
+    const after = zoneOffsetMinutes(cursor, timeZone);
+    if (after === before) continue;
+    let low = cursor - WEEK_MS;
+    let high = cursor;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (zoneOffsetMinutes(middle, timeZone) === before) low = middle;
+      else high = middle;
+    }
+    transitions.push({ instant: high, before, after });
+    before = after;
+  }
+  return transitions;
+};
+
+// An observance starts at the wall-clock time the transition happens, read on the clock before it.
+const formatObservance = (instant: number, before: number, after: number, daylight: boolean) => {
+  const kind = daylight ? "DAYLIGHT" : "STANDARD";
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${formatUtcStamp(new Date(instant + before * MINUTE_MS)).slice(0, -1)}`,
+    `TZOFFSETFROM:${formatOffset(before)}`,
+    `TZOFFSETTO:${formatOffset(after)}`,
+    `END:${kind}`,
+  ];
+};
+
+// The zone's offsets spelled out transition by transition for the years the export covers, since the IANA rules
+// behind a TZID are not something every calendar can look up.
+const formatTimeZone = (timeZone: string, firstYear: number, lastYear: number) => {
+  const from = Date.UTC(firstYear, 0, 1) - WEEK_MS;
+  const to = Date.UTC(lastYear + 1, 0, 1) + WEEK_MS;
+  const initial = zoneOffsetMinutes(from, timeZone);
+  const transitions = zoneTransitions(timeZone, from, to);
+  const first = transitions[0];
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...formatObservance(from, initial, initial, first ? first.after < first.before : false),
+    ...transitions.flatMap(({ instant, before, after }) => formatObservance(instant, before, after, after > before)),
+    "END:VTIMEZONE",
+  ];
+};
+
+const formatRRule = (rule: RecurrenceRule, anchor: string, timeZone?: string) => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval)}`];
+
+  if (rule.frequency === "weekly") {
+    const weekdays = rule.weekdays?.length ? rule.weekdays : [weekdayOf(anchor)];
+    parts.push(`BYDAY=${weekdays.map((day) => icalWeekdays[day]).join(",")}`);
+  }
+
+  if (rule.frequency === "monthly") {
+    if (rule.monthlyBy === "weekdayOfMonth") {
+      const nth = nthWeekdayOfMonth(anchor);
+      parts.push(`BYDAY=${nth > 4 ? -1 : nth}${icalWeekdays[weekdayOf(anchor)]}`);
+    } else {
+      parts.push(`BYMONTHDAY=${Number(anchor.slice(8, 10))}`);
+    }
+  }
+
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until, timeZone)}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+};
+
+const formatAlarms = (title: string, reminders: number[]) =>
+  reminders.flatMap((offset) => [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(title)}`,
+    `TRIGGER:${offset === 0 ? "PT0M" : `-PT${offset}M`}`,
+    "END:VALARM",
+  ]);
+
+const formatEvent = (
+  uid: string,
+  fields: Pick<
+    TaskOccurrence,
+    "title" | "description" | "date" | "time" | "timeZone" | "duration" | "reminders" | "completed"
+  >,
+  stamp: string,
+  extra: string[] = [],
+) => [
+  "BEGIN:VEVENT",
+  `UID:${uid}`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART${zoneParam(fields.timeZone)}:${formatLocalDateTime(fields.date, fields.time)}`,
+  `DURATION:PT${fields.duration}M`,
+  ...extra,
+  `SUMMARY:${escapeText(fields.title)}`,
+  ...(fields.description ? [`DESCRIPTION:${escapeText(fields.description)}`] : []),
+  ...(fields.completed ? [`${COMPLETED_PROPERTY}:TRUE`] : []),
+  ...formatAlarms(fields.title, fields.reminders),
+  "END:VEVENT",
+];
+
+const formatSeries = (task: Task, stamp: string) => {
+  const rule = task.recurrence as RecurrenceRule;
+  const uid = `${task.id}${UID_SUFFIX}`;
+  const exceptions = Object.entries(task.exceptions ?? {});
+  const skipped = exceptions.filter(([, override]) => override.skipped).map(([date]) => date);
+
+  const overrides = expandTasks([task], task.date, exceptions.reduce((last, [date]) => (date > last ? date : last), task.date))
+    .filter((occurrence) => !occurrence.skipped && task.exceptions?.[occurrence.date])
+    .flatMap((occurrence) =>
+      formatEvent(uid, occurrence, stamp, [
+        `RECURRENCE-ID${zoneParam(task.timeZone)}:${formatLocalDateTime(occurrence.date, task.time)}`,
+      ]),
+    );
+
+  return [
+    ...formatEvent(uid, { ...task, completed: false }, stamp, [
+      `RRULE:${formatRRule(rule, task.date, task.timeZone)}`,
+      ...(skipped.length
+        ? [`EXDATE${zoneParam(task.timeZone)}:${skipped.map((date) => formatLocalDateTime(date, task.time)).join(",")}`]
+        : []),
+    ]),
+    ...overrides,
+  ];
+};
+
+type ZoneUse = { timeZone?: string; first: string; last: string; openEnded: boolean };
+
+const seriesUse = (task: Task): ZoneUse => ({
+  timeZone: task.timeZone,
+  first: task.date,
+  last: [task.recurrence?.until ?? "", ...Object.keys(task.exceptions ?? {})].reduce(
+    (last, date) => (date > last ? date : last),
+    task.date,
+  ),
+  openEnded: Boolean(task.recurrence && !task.recurrence.until),
+});
+
+// One VTIMEZONE per zone, spanning every year an event in it falls in.
+const formatTimeZones = (uses: ZoneUse[]) => {
+  const spans = new Map<string, { first: number; last: number }>();
+  uses.forEach(({ timeZone, first, last, openEnded }) => {
+    if (!timeZone) return;
+    const span = spans.get(timeZone);
+    const lastYear = Number(last.slice(0, 4)) + (openEnded ? OPEN_SERIES_YEARS : 0);
+    spans.set(timeZone, {
+      first: Math.min(Number(first.slice(0, 4)), span?.first ?? Infinity),
+      last: Math.max(lastYear, span?.last ?? -Infinity),
+    });
+  });
+  return [...spans].flatMap(([timeZone, { first, last }]) => formatTimeZone(timeZone, first, last));
+};
+
+// Whole-plan exports keep series as RRULEs; day and range exports list the concrete occurrences.
+export const exportICalendar = (tasks: Task[], scope: ExportScope, now = new Date()) => {
+  const stamp = formatUtcStamp(now);
+  const occurrences =
+    scope.kind === "all" ? [] : expandTasks(tasks, scope.from, scope.to).filter((occurrence) => !occurrence.skipped);
+  const events =
+    scope.kind === "all"
+      ? tasks.flatMap((task) => (task.recurrence ? formatSeries(task, stamp) : formatEvent(`${task.id}${UID_SUFFIX}`, task, stamp)))
+      : occurrences.flatMap((occurrence) => formatEvent(`${occurrence.key}${UID_SUFFIX}`, occurrence, stamp));
+  const zones = formatTimeZones(
+    scope.kind === "all"
+      ? tasks.map(seriesUse)
+      : occurrences.map(({ timeZone, date }) => ({ timeZone, first: date, last: date, openEnded: false })),
+  );
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    ...zones,
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n")
+    .concat("\r\n");
+};
+
+const splitOutsideQuotes = (value: string, separator: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const parseProperty = (line: string): CalendarProperty | null => {
+  const [head, ...rest] = splitOutsideQuotes(line, ":");
+  if (rest.length === 0) return null;
+  const [name, ...params] = splitOutsideQuotes(head, ";");
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, value = ""] = param.split("=");
+        return [key.toUpperCase(), value.replace(/^"|"$/g, "")];
+      }),
+    ),
+    value: rest.join(":"),
+  };
+};
+
+const parseComponents = (text: string) => {
+  const lines = text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+  const root: CalendarComponent = { type: "ROOT", properties: [], children: [] };
+  const stack = [root];
+
+  lines.forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+    const current = stack[stack.length - 1];
+
+    if (property.name === "BEGIN") {
+      const child: CalendarComponent = { type: property.value.toUpperCase(), properties: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (property.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  });
+
+  return root;
+};
+
+const toLocalParts = (instant: number) => {
+  const value = new Date(instant);
+  const time = `${`${value.getHours()}`.padStart(2, "0")}:${`${value.getMinutes()}`.padStart(2, "0")}`;
+  return { date: formatDateInput(value), time };
+};
+
+// Converts an iCalendar DATE or DATE-TIME into the planner's local date and wall-clock time.
+const parseDateValue = (value: string, params: Record<string, string>): ParsedDate | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+
+  if (!hours || params.VALUE === "DATE") {
+    return { date, time: "00:00", allDay: true };
+  }
+
+  const fields = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)] as const;
+  if (utc) {
+    return { ...toLocalParts(Date.UTC(...fields)), allDay: false };
+  }
+
+  // Unknown zone names (for example Windows zone ids) fall back to floating time.
+  const timeZone = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : undefined;
+  return { date, time: `${hours}:${minutes}`, allDay: false, ...(timeZone && { timeZone }) };
+};
+
+const parseDurationMinutes = (value: string) => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks = "0", days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+  const total =
+    Number(weeks) * 7 * 24 * 60 + Number(days) * 24 * 60 + Number(hours) * 60 + Number(minutes) + Number(seconds) / 60;
+  return sign === "-" ? -total : total;
+};
+
+// A UTC UNTIL on a zoned series is read back as the day it falls on in that zone.
+const parseUntil = (value: string, timeZone?: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match || !timeZone) return parseDateValue(value, {})?.date;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  return zonedParts(Date.UTC(year, month - 1, day, hours, minutes, seconds), timeZone).date;
+};
+
+const parseRRule = (
+  value: string,
+  anchor: string,
+  warnings: string[],
+  timeZone?: string,
+): RecurrenceRule | undefined => {
+  const parts = Object.fromEntries(
+    value.split(";").map((part) => {
+      const [key, partValue = ""] = part.split("=");
+      return [key.toUpperCase(), partValue.toUpperCase()];
+    }),
+  );
+  const interval = Math.max(1, Number(parts.INTERVAL) || 1);
+  const until = parts.UNTIL ? parseUntil(parts.UNTIL, timeZone) : undefined;
+  const count = parts.COUNT ? Number(parts.COUNT) : undefined;
+  const end = { ...(until ? { until } : {}), ...(count ? { count } : {}) };
+  const byDay = parts.BYDAY ? parts.BYDAY.split(",") : [];
+
+  switch (parts.FREQ) {
+    case "DAILY":
+      return { frequency: "daily", interval, ...end };
+    case "WEEKLY": {
+      const weekdays = byDay
+        .map((day: string) => icalWeekdays.indexOf(day.slice(-2)))
+        .filter((day: number) => day >= 0)
+        .sort();
+      return { frequency: "weekly", interval, weekdays: weekdays.length ? weekdays : [weekdayOf(anchor)], ...end };
+    }
+    case "MONTHLY":
+      if (byDay.length > 0) {
+        if (byDay.length > 1 || parts.BYSETPOS) warnings.push("Monthly rule simplified to the first event's weekday");
+        return { frequency: "monthly", interval, monthlyBy: "weekdayOfMonth", ...end };
+      }
+      if (parts.BYMONTHDAY && Number(parts.BYMONTHDAY) !== Number(anchor.slice(8, 10))) {
+        warnings.push("Monthly rule simplified to the first event's date");
+      }
+      return { frequency: "monthly", interval, monthlyBy: "dayOfMonth", ...end };
+    case "YEARLY":
+      warnings.push("Yearly repeat imported as every 12 months");
+      return { frequency: "monthly", interval: interval * 12, monthlyBy: "dayOfMonth", ...end };
+    default:
+      warnings.push(`Unsupported repeat rule (${parts.FREQ ?? "unknown"}); imported the first event only`);
+      return undefined;
+  }
+};
+
+const findProperty = (component: CalendarComponent, name: string) =>
+  component.properties.find((property) => property.name === name);
+
+const parseAlarms = (event: CalendarComponent, start: number) =>
+  sortReminderOffsets(
+    event.children
+      .filter((child) => child.type === "VALARM")
+      .flatMap((alarm) => {
+        const trigger = findProperty(alarm, "TRIGGER");
+        if (!trigger) return [];
+        if (trigger.params.VALUE === "DATE-TIME") {
+          const absolute = parseDateValue(trigger.value, trigger.params);
+          if (!absolute) return [];
+          const minutes = (start - combineDateTime(absolute.date, absolute.time, absolute.timeZone).getTime()) / 60000;
+          return minutes >= 0 ? [Math.round(minutes)] : [];
+        }
+        const minutes = parseDurationMinutes(trigger.value);
+        return minutes !== null && minutes <= 0 ? [Math.round(-minutes)] : [];
+      }),
+  );
+
+const parseEvent = (event: CalendarComponent): ParsedEvent | null => {
+  const start = findProperty(event, "DTSTART");
+  const parsedStart = start ? parseDateValue(start.value, start.params) : null;
+  if (!parsedStart) return null;
+
+  const warnings: string[] = [];
+  if (parsedStart.allDay) warnings.push("All-day event placed at midnight");
+
+  const uid = findProperty(event, "UID")?.value ?? createId();
+  const ownId = uid.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : "";
+  const startTime = combineDateTime(parsedStart.date, parsedStart.time, parsedStart.timeZone).getTime();
+  const status = findProperty(event, "STATUS")?.value.toUpperCase();
+  const rrule = findProperty(event, "RRULE");
+  const recurrenceId = findProperty(event, "RECURRENCE-ID");
+  const end = findProperty(event, "DTEND");
+  const parsedEnd = end ? parseDateValue(end.value, end.params) : null;
+  const durationValue = findProperty(event, "DURATION")?.value;
+  const duration = parsedEnd
+    ? (combineDateTime(parsedEnd.date, parsedEnd.time, parsedEnd.timeZone).getTime() - startTime) / 60000
+    : durationValue
+      ? parseDurationMinutes(durationValue)
+      : null;
+
+  const task: Task = {
+    id: ownId && !ownId.includes(":") ? ownId : createId(),
+    title: unescapeText(findProperty(event, "SUMMARY")?.value ?? "Untitled event"),
+    description: unescapeText(findProperty(event, "DESCRIPTION")?.value ?? ""),
+    date: parsedStart.date,
+    time: parsedStart.time,
+    ...(parsedStart.timeZone && { timeZone: parsedStart.timeZone }),
+    duration: duration && duration > 0 && !parsedStart.allDay ? Math.round(duration) : DEFAULT_DURATION_MINUTES,
+    reminders: parseAlarms(event, startTime),
+    deliveries: {},
+    completed: findProperty(event, COMPLETED_PROPERTY)?.value.toUpperCase() === "TRUE" || status === "COMPLETED",
+    recurrence: rrule ? parseRRule(rrule.value, parsedStart.date, warnings, parsedStart.timeZone) : undefined,
+  };
+
+  if (task.recurrence) {
+    const skipped = event.properties
+      .filter((property) => property.name === "EXDATE")
+      .flatMap((property) => property.value.split(",").map((value) => parseDateValue(value, property.params)?.date))
+      .filter((date): date is string => Boolean(date));
+    task.exceptions = Object.fromEntries(skipped.map((date) => [date, { skipped: true }]));
+    task.completed = false;
+  }
+
+  return {
+    uid,
+    task,
+    recurrenceId: recurrenceId ? parseDateValue(recurrenceId.value, recurrenceId.params)?.date : undefined,
+    warnings,
+  };
+};
+
+// Folds RECURRENCE-ID overrides into their series so edited occurrences survive the import.
+const mergeOverrides = (events: ParsedEvent[]) => {
+  const series = new Map(events.filter((event) => !event.recurrenceId).map((event) => [event.uid, event]));
+  const standalone: ParsedEvent[] = [];
+
+  events
+    .filter((event) => event.recurrenceId)
+    .forEach((event) => {
+      const parent = series.get(event.uid);
+      const date = event.recurrenceId as string;
+      if (!parent?.task.recurrence) {
+        standalone.push({ ...event, task: { ...event.task, id: createId() } });
+        return;
+      }
+
+      if (event.task.date !== date) {
+        parent.task.exceptions = { ...parent.task.exceptions, [date]: { skipped: true } };
+        standalone.push({ ...event, task: { ...event.task, id: createId(), recurrence: undefined } });
+        return;
+      }
+
+      const override: OccurrenceOverride = {
+        title: event.task.title,
+        description: event.task.description,
+        time: event.task.time,
+        duration: event.task.duration,
+        reminders: event.task.reminders,
+        completed: event.task.completed,
+      };
+      parent.task.exceptions = { ...parent.task.exceptions, [date]: override };
+    });
+
+  return [...series.values(), ...standalone];
+};
+
+export const parseICalendar = (text: string) => {
+  const root = parseComponents(text);
+  const calendars = root.children.filter((child) => child.type === "VCALENDAR");
+  const events = calendars
+    .flatMap((calendar) => calendar.children.filter((child) => child.type === "VEVENT"))
+    .map(parseEvent)
+    .filter((event): event is ParsedEvent => event !== null);
+
+  return mergeOverrides(events).map(({ task, warnings }) => ({ task, warnings }));
+};
+
+const matchKey = (task: Pick<Task, "title" | "date" | "time">) =>
+  `${task.title.trim().toLowerCase()}|${task.date}|${task.time}`;
+
+export const planImport = (existing: Task[], imported: { task: Task; warnings: string[] }[]): ImportPreviewEntry[] => {
+  const ids = new Set(existing.map((task) => task.id));
+  const keys = new Set(existing.map(matchKey));
+
+  return imported.map(({ task, warnings }) => {
+    if (ids.has(task.id) || keys.has(matchKey(task))) {
+      return { task, status: "duplicate", reason: "Already in your planner", warnings };
+    }
+
+    const clash = expandTasks(existing, task.date, task.date).find(
+      (occurrence) => !occurrence.skipped && occurrence.time === task.time,
+    );
+    if (clash) {
+      return { task, status: "conflict", reason: `Same time as ${clash.title}`, warnings };
+    }
+
+    return { task, status: "new", warnings };
+  });
+};
+
+export const commitImport = (existing: Task[], entries: ImportPreviewEntry[]) => {
+  const ids = new Set(existing.map((task) => task.id));
+  const additions = entries.map(({ task }) => (ids.has(task.id) ? { ...task, id: createId() } : task));
+  return sortTasks([...existing, ...additions]);
+};
+
+export const exportFileName = (scope: ExportScope) =>
+  scope.kind === "all"
+    ? "daily-rhythm.ics"
+    : scope.from === scope.to
+      ? `daily-rhythm-${scope.from}.ics`
+      : `daily-rhythm-${scope.from}-to-${scope.to}.ics`;
@@ -0,0 +1,71 @@
+import { createId } from "./tasks";
+
+const LEADER_LOCK = "daily-rhythm-leader";
+const LEASE_KEY = "daily-rhythm-leader-lease";
+const LEASE_TTL_MS = 15 * 1000;
+const LEASE_RENEW_MS = 5 * 1000;
+
+type Lease = { holder: string; expiresAt: number };
+
+const readLease = (): Lease | null => {
+  try {
+    return JSON.parse(window.localStorage.getItem(LEASE_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+// Web Locks hand leadership to a waiting tab as soon as the holder closes.
+const electWithLocks = (onChange: (isLeader: boolean) => void) => {
+  const controller = new AbortController();
+  let release: (() => void) | null = null;
+
+  navigator.locks
+    .request(LEADER_LOCK, { signal: controller.signal }, () => {
+      onChange(true);
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch(() => undefined);
+
+  return () => {
+    controller.abort();
+    release?.();
+    onChange(false);
+  };
+};
+
+// Without Web Locks, tabs race for a short lease in localStorage that the leader keeps renewing.
+const electWithLease = (onChange: (isLeader: boolean) => void) => {
+  const holder = createId();
+  let isLeader = false;
+
+  const renew = () => {
+    const lease = readLease();
+    const now = Date.now();
+    const canHold = !lease || lease.holder === holder || lease.expiresAt < now;
+    if (canHold) {
+      window.localStorage.setItem(LEASE_KEY, JSON.stringify({ holder, expiresAt: now + LEASE_TTL_MS }));
+    }
+    if (canHold !== isLeader) {
+      isLeader = canHold;
+      onChange(isLeader);
+    }
+  };
+
+  renew();
+  const interval = window.setInterval(renew, LEASE_RENEW_MS);
+
+  return () => {
+    window.clearInterval(interval);
+    if (readLease()?.holder === holder) window.localStorage.removeItem(LEASE_KEY);
+    if (isLeader) onChange(false);
+  };
+};
+
+// Picks one open tab to run the reminder loop so each alert fires once. Returns a cleanup function.
+export const electLeader = (onChange: (isLeader: boolean) => void) => {
+  if (typeof window === "undefined") return () => undefined;
+  return "locks" in navigator ? electWithLocks(onChange) : electWithLease(onChange);
+};
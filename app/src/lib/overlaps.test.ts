@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { occurrencesAround } from "./calendar";
+import { findConflicts, nextFreeSlot } from "./overlaps";
+import { makeTask } from "./testTasks";
+
+// The device clock is UTC (see vitest.config.ts).
+describe("findConflicts", () => {
+  it("finds a clash with a block that ran past midnight", () => {
+    const occurrences = occurrencesAround([makeTask({ date: "2026-05-01", time: "23:00", duration: 120 })], "2026-05-02", "2026-05-02");
+    expect(findConflicts({ date: "2026-05-02", time: "00:30", duration: 30 }, occurrences)).toHaveLength(1);
+    expect(findConflicts({ date: "2026-05-02", time: "01:00", duration: 30 }, occurrences)).toHaveLength(0);
+  });
+
+  it("compares blocks in different zones by when they really happen", () => {
+    const occurrences = occurrencesAround(
+      [makeTask({ date: "2026-05-01", time: "09:00", timeZone: "America/New_York", duration: 60 })],
+      "2026-05-01",
+      "2026-05-01",
+    );
+    expect(findConflicts({ date: "2026-05-01", time: "13:30", duration: 30 }, occurrences)).toHaveLength(1);
+    expect(findConflicts({ date: "2026-05-01", time: "09:30", duration: 30 }, occurrences)).toHaveLength(0);
+  });
+});
+
+describe("nextFreeSlot", () => {
+  it("hands the slot back on the draft's own clock", () => {
+    const occurrences = occurrencesAround([makeTask({ date: "2026-05-01", time: "13:00", duration: 60 })], "2026-05-01", "2026-05-01");
+    const draft = { date: "2026-05-01", time: "09:00", timeZone: "America/New_York", duration: 30 };
+    expect(nextFreeSlot(draft, occurrences)).toBe("10:00");
+  });
+});
@@ -0,0 +1,102 @@
+import { DEFAULT_DAY_END, findFreeGaps, minutesOnClock, timeFromMinutes, wallClockIn } from "./calendar";
+import {
+  combineDateTime,
+  endInstant,
+  formatDateInput,
+  formatTimeLabel,
+  startInstant,
+  type DisplayFormat,
+  type TaskFields,
+  type TaskOccurrence,
+} from "./tasks";
+
+export type Resolution = "shiftLater" | "shorten" | "nextFreeSlot";
+
+export type ScheduleDraft = Pick<TaskFields, "date" | "time" | "timeZone" | "duration">;
+
+export type ResolutionOption = {
+  kind: Resolution;
+  label: string;
+  updates: Pick<Partial<TaskFields>, "time" | "duration">;
+};
+
+const MINIMUM_SHORTENED_MINUTES = 5;
+
+const timeLabel = (draft: ScheduleDraft, time: string, format: DisplayFormat) =>
+  formatTimeLabel(combineDateTime(draft.date, time), format);
+
+const MINUTE_MS = 60 * 1000;
+
+// Compared as instants, so blocks in different zones or running past midnight collide where they really do.
+const rangesOverlap = (a: ScheduleDraft, b: ScheduleDraft) =>
+  startInstant(a).getTime() < endInstant(b).getTime() && startInstant(b).getTime() < endInstant(a).getTime();
+
+// Pass the occurrences around the draft's day (see occurrencesAround) so neighbouring days are checked too.
+export const findConflicts = (draft: ScheduleDraft, occurrences: TaskOccurrence[], ignoreKey?: string) =>
+  occurrences.filter(
+    (occurrence) => occurrence.key !== ignoreKey && !occurrence.skipped && rangesOverlap(draft, occurrence),
+  );
+
+// Every occurrence key on the day mapped to the blocks it collides with.
+export const findOverlaps = (occurrences: TaskOccurrence[]) =>
+  new Map(
+    occurrences
+      .filter((occurrence) => !occurrence.skipped)
+      .map((occurrence) => [occurrence.key, findConflicts(occurrence, occurrences, occurrence.key)] as const)
+      .filter(([, conflicts]) => conflicts.length > 0),
+  );
+
+// Gaps are found on the device's clock and the slot is handed back in the draft's own zone.
+export const nextFreeSlot = (draft: ScheduleDraft, occurrences: TaskOccurrence[], ignoreKey?: string) => {
+  const others = occurrences.filter((occurrence) => occurrence.key !== ignoreKey);
+  const start = startInstant(draft);
+  const day = formatDateInput(start);
+  const from = minutesOnClock(start);
+  const gap = findFreeGaps(others, day, from, Math.min(Math.max(DEFAULT_DAY_END, from + draft.duration), 24 * 60)).find(
+    (candidate) => candidate.end - candidate.start >= draft.duration,
+  );
+  if (!gap) return null;
+  const slot = wallClockIn(combineDateTime(day, timeFromMinutes(gap.start)), draft.timeZone);
+  return slot.date === draft.date ? slot.time : null;
+};
+
+export const resolutionOptions = (
+  draft: ScheduleDraft,
+  occurrences: TaskOccurrence[],
+  ignoreKey?: string,
+  format: DisplayFormat = {},
+): ResolutionOption[] => {
+  const conflicts = findConflicts(draft, occurrences, ignoreKey);
+  if (conflicts.length === 0) return [];
+
+  const draftStart = startInstant(draft).getTime();
+  const options: ResolutionOption[] = [];
+
+  const latestEnd = wallClockIn(new Date(Math.max(...conflicts.map((conflict) => endInstant(conflict).getTime()))), draft.timeZone);
+  if (latestEnd.date === draft.date) {
+    options.push({
+      kind: "shiftLater",
+      label: `Shift to ${timeLabel(draft, latestEnd.time, format)}`,
+      updates: { time: latestEnd.time },
+    });
+  }
+
+  const laterStarts = conflicts.map((conflict) => startInstant(conflict).getTime()).filter((start) => start > draftStart);
+  if (laterStarts.length === conflicts.length) {
+    const duration = Math.round((Math.min(...laterStarts) - draftStart) / MINUTE_MS);
+    if (duration >= MINIMUM_SHORTENED_MINUTES) {
+      options.push({ kind: "shorten", label: `Shorten to ${duration} min`, updates: { duration } });
+    }
+  }
+
+  const slot = nextFreeSlot(draft, occurrences, ignoreKey);
+  if (slot && slot !== draft.time && !options.some((option) => option.updates.time === slot)) {
+    options.push({
+      kind: "nextFreeSlot",
+      label: `Next free slot ${timeLabel(draft, slot, format)}`,
+      updates: { time: slot },
+    });
+  }
+
+  return options;
+};
@@ -0,0 +1,35 @@
+import { expandTasks } from "./recurrence";
+import type { Task } from "./tasks";
+
+export type InstallOutcome = "accepted" | "dismissed";
+
+// Chromium's deferred install prompt, which TypeScript's DOM types do not describe yet.
+export type BeforeInstallPromptEvent = Event & {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: InstallOutcome; platform: string }>;
+};
+
+export const APP_NAME = "Daily Rhythm";
+
+export const THEME_COLOR = "#020617"; // slate-950, the top of the page gradient
+
+export const iconSizes = [192, 512];
+
+export const isStandalone = () =>
+  typeof window !== "undefined" &&
+  (window.matchMedia("(display-mode: standalone)").matches ||
+    (navigator as Navigator & { standalone?: boolean }).standalone === true);
+
+// Occurrences on that day that still need doing; skipped ones are not counted.
+export const pendingCountOn = (tasks: Task[], date: string) =>
+  expandTasks(tasks, date, date).filter((occurrence) => !occurrence.completed && !occurrence.skipped).length;
+
+export const updateAppBadge = async (count: number) => {
+  if (typeof navigator === "undefined" || !("setAppBadge" in navigator)) return;
+  try {
+    if (count > 0) await navigator.setAppBadge(count);
+    else await navigator.clearAppBadge();
+  } catch {
+    // Badging is refused outside installed apps in some browsers.
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { parseQuickAdd, parseQuickAddLines } from "./quickAdd";
+
+// A Tuesday.
+const base = "2026-03-03";
+const defaults = { duration: 30, reminders: [10] };
+
+const draft = (input: string) => parseQuickAdd(input, base, defaults).draft;
+
+describe("parseQuickAdd", () => {
+  it("reads the title, day, time, length, tags and priority", () => {
+    expect(draft("Dentist tomorrow at 3pm for 1h #health !high")).toEqual({
+      title: "Dentist",
+      date: "2026-03-04",
+      time: "15:00",
+      duration: 60,
+      reminders: [10],
+      recurrence: undefined,
+      tags: ["health"],
+      priority: "high",
+    });
+  });
+
+  it("resolves weekdays, month names and relative days from the base date", () => {
+    expect(draft("Call friday 9:15")?.date).toBe("2026-03-06");
+    expect(draft("Call next tuesday 9:15")?.date).toBe("2026-03-10");
+    expect(draft("Call in 2 weeks 9:15")?.date).toBe("2026-03-17");
+    expect(draft("Call 12 march noon")?.date).toBe("2026-03-12");
+    // A month and day already past this year rolls over to the next.
+    expect(draft("Call jan 5 noon")?.date).toBe("2027-01-05");
+  });
+
+  it("reads reminder phrases and falls back to the defaults", () => {
+    expect(draft("Run 7am remind me 1h and 15m before")?.reminders).toEqual([60, 15]);
+    expect(draft("Run 7am remind me at start")?.reminders).toEqual([0]);
+    expect(draft("Run 7am no reminders")?.reminders).toEqual([]);
+    expect(draft("Run 7am")?.reminders).toEqual([10]);
+  });
+
+  it("starts a weekly series on its first matching day and keeps its end", () => {
+    expect(draft("Gym every mon and fri 6pm until apr 1")).toMatchObject({
+      title: "Gym",
+      date: "2026-03-06",
+      time: "18:00",
+      recurrence: { frequency: "weekly", interval: 1, weekdays: [1, 5], until: "2026-04-01" },
+    });
+    expect(draft("Standup weekdays 9:30 10 times")?.recurrence).toEqual({
+      frequency: "weekly",
+      interval: 1,
+      weekdays: [1, 2, 3, 4, 5],
+      count: 10,
+    });
+  });
+
+  it("explains lines it cannot use", () => {
+    expect(parseQuickAdd("Lunch tomorrow", base, defaults).error).toBe("Add a time such as 9:15, 3pm or noon");
+    expect(parseQuickAdd("tomorrow 3pm", base, defaults).error).toBe("Add a title before the date and time");
+    expect(parseQuickAdd("Lunch 13pm", base, defaults).error).toBe('"13pm" is not a valid time');
+    expect(parseQuickAdd("Lunch 2026-02-30 noon", base, defaults).error).toBe('Could not read the date "2026-02-30"');
+  });
+});
+
+describe("parseQuickAddLines", () => {
+  it("drops bullets, checkboxes and blank lines from a pasted list", () => {
+    const lines = parseQuickAddLines("- [ ] Email Sam 9am\n\n2. Review notes 4pm\n* [x] Walk noon", base, defaults);
+    expect(lines.map(({ line, draft }) => [line, draft?.time])).toEqual([
+      ["Email Sam 9am", "09:00"],
+      ["Review notes 4pm", "16:00"],
+      ["Walk noon", "12:00"],
+    ]);
+  });
+});
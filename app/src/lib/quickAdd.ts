@@ -0,0 +1,265 @@
+import { addDays, occurrenceDates, weekdayOf, type RecurrenceRule } from "./recurrence";
+import { normalizeTags, type Priority } from "./categories";
+import { createId, sortReminderOffsets, type Task } from "./tasks";
+import { deviceTimeZone } from "./timeZones";
+
+export type QuickAddDraft = {
+  title: string;
+  date: string;
+  time: string;
+  duration: number;
+  reminders: number[];
+  recurrence?: RecurrenceRule;
+  tags: string[];
+  priority?: Priority;
+};
+
+export type QuickAddDefaults = Pick<QuickAddDraft, "duration" | "reminders">;
+
+export type QuickAddLine = {
+  line: string;
+  draft: QuickAddDraft | null;
+  error?: string;
+};
+
+const dayNames = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const UNIT = "(?:hours?|hrs?|h|minutes?|mins?|m)(?![a-z])";
+const AMOUNT = `\\d+(?:\\.\\d+)?\\s*${UNIT}`;
+const DAY = "(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|sday|urday)?(?![a-z])";
+const MONTH =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?(?![a-z])";
+const ISO_DATE = "\\d{4}-\\d{2}-\\d{2}";
+const START = "(?<![\\w:-])";
+
+const DATE_PATTERN = [
+  "today|tonight",
+  "tomorrow|tmrw|tmr",
+  "in\\s+\\d+\\s+(?:days?|weeks?)",
+  `(?:next\\s+)?${DAY}`,
+  ISO_DATE,
+  `${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?(?![\\d:])`,
+  `\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}`,
+].join("|");
+
+const pattern = (source: string) => new RegExp(`${START}(?:${source})`, "i");
+
+// Removes the first match from the text so later rules never see the same words twice.
+const take = (text: string, regex: RegExp) => {
+  const match = regex.exec(text);
+  if (!match) return { text, match: null };
+  return { text: `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`, match };
+};
+
+const toMinutes = (amount: string) => {
+  let total = 0;
+  for (const [, value, unit] of amount.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)/gi)) {
+    total += Number(value) * (unit.toLowerCase().startsWith("h") ? 60 : 1);
+  }
+  return Math.round(total);
+};
+
+const weekdayIndex = (word: string) => dayNames.findIndex((name) => name.startsWith(word.toLowerCase().slice(0, 3)));
+
+const monthDate = (month: string, day: number, base: string) => {
+  const index = monthNames.indexOf(month.toLowerCase().slice(0, 3));
+  const year = Number(base.slice(0, 4));
+  const candidate = `${year}-${`${index + 1}`.padStart(2, "0")}-${`${day}`.padStart(2, "0")}`;
+  // A month and day without a year means the next time it comes around.
+  return candidate < base ? `${year + 1}${candidate.slice(4)}` : candidate;
+};
+
+const isValidDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+};
+
+const resolveDate = (phrase: string, base: string): string | null => {
+  const words = phrase.toLowerCase().trim().split(/\s+/);
+  const [first] = words;
+  if (first === "today" || first === "tonight") return base;
+  if (first.startsWith("tom") || first.startsWith("tm")) return addDays(base, 1);
+  if (first === "in") return addDays(base, Number(words[1]) * (words[2].startsWith("week") ? 7 : 1));
+  if (new RegExp(`^${ISO_DATE}$`).test(first)) return isValidDate(first) ? first : null;
+
+  const dayName = first === "next" ? words[1] : first;
+  if (new RegExp(`^${DAY}$`, "i").test(dayName)) {
+    const ahead = (weekdayIndex(dayName) - weekdayOf(base) + 7) % 7;
+    return addDays(base, first === "next" && ahead === 0 ? 7 : ahead);
+  }
+
+  const [monthWord, dayWord] = /^\d/.test(first) ? [words[1], first] : [first, words[1]];
+  const date = monthDate(monthWord, parseInt(dayWord, 10), base);
+  return isValidDate(date) ? date : null;
+};
+
+const resolveTime = (hourText: string, minuteText: string | undefined, meridiem: string | undefined) => {
+  let hours = Number(hourText);
+  const minutes = Number(minuteText ?? 0);
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem.toLowerCase().startsWith("p") ? 12 : 0);
+  }
+  if (hours > 23) return null;
+  return `${`${hours}`.padStart(2, "0")}:${`${minutes}`.padStart(2, "0")}`;
+};
+
+const parseRecurrence = (text: string): { text: string; rule?: RecurrenceRule } => {
+  const weekdays = take(text, pattern("every\\s+weekday|weekdays(?![a-z])"));
+  if (weekdays.match) return { text: weekdays.text, rule: { frequency: "weekly", interval: 1, weekdays: [1, 2, 3, 4, 5] } };
+
+  const named = take(text, pattern(`every\\s+(${DAY}(?:\\s*(?:,|and|&)\\s*${DAY})*)`));
+  if (named.match) {
+    const days = [...named.match[1].matchAll(new RegExp(DAY, "gi"))].map(([word]) => weekdayIndex(word));
+    return { text: named.text, rule: { frequency: "weekly", interval: 1, weekdays: [...new Set(days)].sort((a, b) => a - b) } };
+  }
+
+  const counted = take(text, pattern("every\\s+(\\d+)\\s+(days?|weeks?|months?)(?![a-z])"));
+  if (counted.match) {
+    const unit = counted.match[2].toLowerCase();
+    const frequency = unit.startsWith("day") ? "daily" : unit.startsWith("week") ? "weekly" : "monthly";
+    return { text: counted.text, rule: { frequency, interval: Math.max(1, Number(counted.match[1])) } };
+  }
+
+  const simple = take(text, pattern("every\\s+(day|week|month)(?![a-z])|(daily|weekly|monthly)(?![a-z])"));
+  if (simple.match) {
+    const word = (simple.match[1] ?? simple.match[2]).toLowerCase();
+    const frequency = word.startsWith("d") ? "daily" : word.startsWith("w") ? "weekly" : "monthly";
+    return { text: simple.text, rule: { frequency, interval: 1 } };
+  }
+
+  return { text };
+};
+
+export const parseQuickAdd = (input: string, baseDate: string, defaults: QuickAddDefaults): QuickAddLine => {
+  const line = input.trim();
+  let text = line;
+
+  const tags = normalizeTags([...text.matchAll(/(?<![\w#])#([a-z][\w-]*)/gi)].map(([, tag]) => tag));
+  text = text.replace(/(?<![\w#])#[a-z][\w-]*/gi, " ");
+
+  let priority: Priority | undefined;
+  const flag = take(text, /(?<!\S)(?:!(high|low)|(!!))(?!\S)/i);
+  if (flag.match) {
+    priority = flag.match[2] ? "high" : (flag.match[1].toLowerCase() as Priority);
+    text = flag.text;
+  }
+
+  const recurrence = parseRecurrence(text);
+  text = recurrence.text;
+  let rule = recurrence.rule;
+
+  let until: string | undefined;
+  if (rule) {
+    const end = take(text, pattern(`until\\s+(${DATE_PATTERN})`));
+    if (end.match) {
+      const date = resolveDate(end.match[1], baseDate);
+      if (!date) return { line, draft: null, error: `Could not read the end date "${end.match[1]}"` };
+      until = date;
+      text = end.text;
+    }
+    const count = take(text, pattern("(\\d+)\\s+times(?![a-z])"));
+    if (count.match) {
+      rule = { ...rule, count: Math.max(1, Number(count.match[1])) };
+      text = count.text;
+    }
+  }
+
+  let reminders = defaults.reminders;
+  const silent = take(text, pattern("no\\s+reminders?(?![a-z])"));
+  if (silent.match) {
+    reminders = [];
+    text = silent.text;
+  } else {
+    const remind = take(
+      text,
+      pattern(
+        `remind(?:\\s+me)?\\s+(?:(at\\s+start|on\\s+time)|(${AMOUNT}(?:\\s*(?:,|and)\\s*${AMOUNT})*)(?:\\s+(?:before|early|ahead))?)`,
+      ),
+    );
+    if (remind.match) {
+      const offsets = remind.match[2] ? [...remind.match[2].matchAll(new RegExp(AMOUNT, "gi"))] : [];
+      reminders = remind.match[1] ? [0] : sortReminderOffsets([...new Set(offsets.map(([amount]) => toMinutes(amount)))]);
+      text = remind.text;
+    }
+  }
+
+  let duration = defaults.duration;
+  const length = take(text, pattern(`for\\s+((?:${AMOUNT}\\s*)+)`));
+  if (length.match) {
+    duration = toMinutes(length.match[1]);
+    if (duration < 1 || duration > 24 * 60) return { line, draft: null, error: `"${length.match[0].trim()}" is not a usable length` };
+    text = length.text;
+  }
+
+  let time: string | null = null;
+  const clock = [
+    take(text, pattern("(?:at\\s+|@\\s*)?(noon|midnight)(?![a-z])")),
+    take(text, pattern("(?:at\\s+|@\\s*)?(\\d{1,2})(?::(\\d{2}))?\\s*([ap]\\.?m\\.?)(?![a-z])")),
+    take(text, pattern("(?:at\\s+|@\\s*)?(\\d{1,2}):(\\d{2})(?!\\d)")),
+    take(text, pattern("(?:at\\s+|@\\s*)(\\d{1,2})(?![\\d:a-z])")),
+  ].find((candidate) => candidate.match);
+  if (clock?.match) {
+    const [phrase, first, minutes, meridiem] = clock.match;
+    if (first.toLowerCase() === "noon") time = "12:00";
+    else if (first.toLowerCase() === "midnight") time = "00:00";
+    else time = resolveTime(first, minutes, meridiem);
+    if (!time) return { line, draft: null, error: `"${phrase.trim()}" is not a valid time` };
+    text = clock.text;
+  }
+
+  let date = baseDate;
+  const day = take(text, pattern(`(?:on\\s+)?(${DATE_PATTERN})`));
+  if (day.match) {
+    const resolved = resolveDate(day.match[1], baseDate);
+    if (!resolved) return { line, draft: null, error: `Could not read the date "${day.match[1]}"` };
+    date = resolved;
+    text = day.text;
+  }
+
+  const title = text.replace(/\s+/g, " ").replace(/^[\s,;:-]+|[\s,;:-]+$/g, "");
+  if (!title) return { line, draft: null, error: "Add a title before the date and time" };
+  if (!time) return { line, draft: null, error: "Add a time such as 9:15, 3pm or noon" };
+
+  let recurrenceRule: RecurrenceRule | undefined;
+  if (rule) {
+    recurrenceRule = {
+      ...rule,
+      ...(rule.frequency === "weekly" && !rule.weekdays ? { weekdays: [weekdayOf(date)] } : {}),
+      ...(rule.frequency === "monthly" ? { monthlyBy: "dayOfMonth" as const } : {}),
+      ...(until ? { until } : {}),
+    };
+    // "every friday" typed on a Tuesday starts on the coming Friday, not on a day the rule skips.
+    date = occurrenceDates({ date, recurrence: { ...recurrenceRule, count: undefined } }, date, addDays(date, 6))[0] ?? date;
+    if (until && until < date) return { line, draft: null, error: "The repeat ends before it starts" };
+  }
+
+  return { line, draft: { title, date, time, duration, reminders, recurrence: recurrenceRule, tags, priority } };
+};
+
+// Pasted lists often carry bullets or checkboxes; those are dropped before parsing.
+export const parseQuickAddLines = (input: string, baseDate: string, defaults: QuickAddDefaults) =>
+  input
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:(?:[-*•]|\d+[.)])\s+)?(?:\[[ x]?\]\s+)?/i, "").trim())
+    .filter(Boolean)
+    .map((line) => parseQuickAdd(line, baseDate, defaults));
+
+export const createQuickAddTask = (draft: QuickAddDraft): Task => ({
+  id: createId(),
+  title: draft.title,
+  description: "",
+  date: draft.date,
+  time: draft.time,
+  timeZone: deviceTimeZone(),
+  duration: draft.duration,
+  reminders: draft.reminders,
+  deliveries: {},
+  completed: false,
+  ...(draft.tags.length > 0 && { tags: draft.tags }),
+  priority: draft.priority,
+  recurrence: draft.recurrence,
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { applyOccurrenceUpdate, expandTasks } from "./recurrence";
+import type { Task } from "./tasks";
+import { makeTask } from "./testTasks";
+
+const series = (fields: Pick<Task, "date" | "recurrence">) =>
+  makeTask({ id: "series", title: "Run", time: "07:00", duration: 45, ...fields });
+
+const datesOf = (tasks: Task[], from: string, to: string) => expandTasks(tasks, from, to).map((occurrence) => occurrence.date);
+
+describe("applyOccurrenceUpdate with the following scope", () => {
+  it("moves the chosen weekdays along with the day", () => {
+    // Mondays and Wednesdays from 2026-06-01; the 2026-06-08 Monday moves to Tuesday.
+    const task = series({ date: "2026-06-01", recurrence: { frequency: "weekly", interval: 1, weekdays: [1, 3] } });
+    const [occurrence] = expandTasks([task], "2026-06-08", "2026-06-08");
+    const next = applyOccurrenceUpdate([task], occurrence, { date: "2026-06-09" }, "following");
+
+    expect(next.find((item) => item.id !== "series")?.recurrence?.weekdays).toEqual([2, 4]);
+    expect(datesOf(next, "2026-06-01", "2026-06-14")).toEqual(["2026-06-01", "2026-06-03", "2026-06-09", "2026-06-11"]);
+  });
+
+  it("wraps weekdays moved back past Sunday", () => {
+    const task = series({ date: "2026-06-01", recurrence: { frequency: "weekly", interval: 1, weekdays: [1, 5] } });
+    const [occurrence] = expandTasks([task], "2026-06-01", "2026-06-01");
+    const next = applyOccurrenceUpdate([task], occurrence, { date: "2026-05-30" }, "following");
+
+    expect(next).toHaveLength(1);
+    expect(next[0].recurrence?.weekdays).toEqual([3, 6]);
+    expect(datesOf(next, "2026-05-30", "2026-06-06")).toEqual(["2026-05-30", "2026-06-03", "2026-06-06"]);
+  });
+
+  it("moves a monthly series to the new day of the month", () => {
+    const task = series({ date: "2026-06-10", recurrence: { frequency: "monthly", interval: 1, monthlyBy: "dayOfMonth" } });
+    const [occurrence] = expandTasks([task], "2026-07-10", "2026-07-10");
+    const next = applyOccurrenceUpdate([task], occurrence, { date: "2026-07-12" }, "following");
+
+    expect(datesOf(next, "2026-06-01", "2026-09-30")).toEqual(["2026-06-10", "2026-07-12", "2026-08-12", "2026-09-12"]);
+  });
+});
@@ -0,0 +1,394 @@
+import { resetChecklist } from "./checklist";
+import {
+  createId,
+  sortTasks,
+  type DisplayFormat,
+  type OccurrenceOverride,
+  type Task,
+  type TaskFields,
+  type TaskOccurrence,
+} from "./tasks";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days, weeks or months
+  weekdays?: number[]; // 0 = Sunday, weekly rules only
+  monthlyBy?: "dayOfMonth" | "weekdayOfMonth";
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number; // total occurrences, including the first
+};
+
+export type EditScope = "single" | "following";
+
+export type RepeatPreset = "none" | "daily" | "weekdays" | "everyNDays" | "weekly" | "monthlyDate" | "monthlyWeekday";
+
+export type RecurrenceDraft = {
+  preset: RepeatPreset;
+  interval: number;
+  weekdays: number[];
+  end: "never" | "until" | "count";
+  until: string;
+  count: number;
+};
+
+export const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const defaultRecurrenceDraft: RecurrenceDraft = {
+  preset: "none",
+  interval: 2,
+  weekdays: [],
+  end: "never",
+  until: "",
+  count: 10,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Math.round(Date.UTC(year, (month ?? 1) - 1, day ?? 1) / DAY_MS);
+};
+
+const fromDayNumber = (dayNumber: number) => new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+const weekdayOfDayNumber = (dayNumber: number) => (((dayNumber + 4) % 7) + 7) % 7;
+
+export const addDays = (date: string, amount: number) => fromDayNumber(toDayNumber(date) + amount);
+
+export const weekdayOf = (date: string) => weekdayOfDayNumber(toDayNumber(date));
+
+export const daysBetween = (from: string, to: string) => toDayNumber(to) - toDayNumber(from);
+
+const dateParts = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return { year, month, day };
+};
+
+const isLastWeekdayOfMonth = (date: string) => dateParts(addDays(date, 7)).month !== dateParts(date).month;
+
+export const nthWeekdayOfMonth = (date: string) => Math.ceil(dateParts(date).day / 7);
+
+const matchesRule = (rule: RecurrenceRule, anchor: string, date: string) => {
+  const interval = Math.max(1, rule.interval);
+  const anchorDay = toDayNumber(anchor);
+  const day = toDayNumber(date);
+  if (day < anchorDay) return false;
+
+  switch (rule.frequency) {
+    case "daily":
+      return (day - anchorDay) % interval === 0;
+    case "weekly": {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [weekdayOfDayNumber(anchorDay)];
+      const weekday = weekdayOfDayNumber(day);
+      if (!weekdays.includes(weekday)) return false;
+      const weekIndex = (day - weekday - (anchorDay - weekdayOfDayNumber(anchorDay))) / 7;
+      return weekIndex % interval === 0;
+    }
+    case "monthly": {
+      const start = dateParts(anchor);
+      const current = dateParts(date);
+      const monthIndex = (current.year - start.year) * 12 + (current.month - start.month);
+      if (monthIndex % interval !== 0) return false;
+      if (rule.monthlyBy === "weekdayOfMonth") {
+        if (weekdayOfDayNumber(day) !== weekdayOfDayNumber(anchorDay)) return false;
+        const nth = nthWeekdayOfMonth(anchor);
+        return nth > 4 ? isLastWeekdayOfMonth(date) : nthWeekdayOfMonth(date) === nth;
+      }
+      return current.day === start.day;
+    }
+  }
+};
+
+export const occurrenceDates = (task: Pick<Task, "date" | "recurrence">, from: string, to: string) => {
+  const rule = task.recurrence;
+  if (!rule) {
+    return task.date >= from && task.date <= to ? [task.date] : [];
+  }
+
+  const dates: string[] = [];
+  const last = rule.until && rule.until < to ? rule.until : to;
+  // Counted series have to be walked from the first occurrence to know when they run out.
+  let cursor = rule.count || from < task.date ? task.date : from;
+  let seen = 0;
+
+  while (cursor <= last) {
+    if (matchesRule(rule, task.date, cursor)) {
+      seen += 1;
+      if (rule.count && seen > rule.count) break;
+      if (cursor >= from) dates.push(cursor);
+    }
+    cursor = addDays(cursor, 1);
+  }
+
+  return dates;
+};
+
+const pickTaskFields = (source: TaskFields): TaskFields => ({
+  title: source.title,
+  description: source.description,
+  date: source.date,
+  time: source.time,
+  timeZone: source.timeZone,
+  duration: source.duration,
+  reminders: source.reminders,
+  deliveries: source.deliveries,
+  completed: source.completed,
+  completedAt: source.completedAt,
+  focusMinutes: source.focusMinutes,
+  templateItemId: source.templateItemId,
+  rollover: source.rollover,
+  categoryId: source.categoryId,
+  tags: source.tags,
+  priority: source.priority,
+  checklist: source.checklist,
+  autoComplete: source.autoComplete,
+  sound: source.sound,
+});
+
+export const expandTask = (task: Task, from: string, to: string): TaskOccurrence[] => {
+  if (!task.recurrence) {
+    return occurrenceDates(task, from, to).map(() => ({
+      ...pickTaskFields(task),
+      key: task.id,
+      taskId: task.id,
+      isRecurring: false,
+      skipped: false,
+    }));
+  }
+
+  return occurrenceDates(task, from, to).map((date) => {
+    const { skipped = false, ...override } = task.exceptions?.[date] ?? {};
+    return {
+      ...pickTaskFields(task),
+      completed: false,
+      completedAt: undefined,
+      focusMinutes: undefined,
+      deliveries: {},
+      checklist: resetChecklist(task.checklist),
+      ...override,
+      date,
+      key: `${task.id}:${date}`,
+      taskId: task.id,
+      isRecurring: true,
+      skipped,
+    };
+  });
+};
+
+export const expandTasks = (tasks: Task[], from: string, to: string) =>
+  sortTasks(tasks.flatMap((task) => expandTask(task, from, to)));
+
+// A new zone moves the real start just like a new date or time does.
+const isRescheduled = (updates: Partial<TaskFields>) =>
+  updates.time !== undefined || updates.date !== undefined || updates.timeZone !== undefined;
+
+// Moving a task re-arms every reminder; dropping an offset forgets its delivery state.
+const nextDeliveries = (updates: Partial<TaskFields>, current: TaskFields["deliveries"]) => {
+  if (isRescheduled(updates)) return {};
+  const deliveries = updates.deliveries ?? current;
+  const { reminders } = updates;
+  if (!reminders) return deliveries;
+  return Object.fromEntries(Object.entries(deliveries).filter(([offset]) => reminders.includes(Number(offset))));
+};
+
+const mergeOverride = (
+  current: OccurrenceOverride | undefined,
+  updates: OccurrenceOverride,
+  deliveries: TaskFields["deliveries"],
+) => ({
+  ...current,
+  ...updates,
+  deliveries: nextDeliveries(updates, deliveries),
+});
+
+const splitExceptions = (exceptions: Task["exceptions"], date: string) => {
+  const before: Record<string, OccurrenceOverride> = {};
+  const after: Record<string, OccurrenceOverride> = {};
+  Object.entries(exceptions ?? {}).forEach(([key, value]) => {
+    if (key < date) before[key] = value;
+    else after[key] = value;
+  });
+  return { before, after };
+};
+
+// Ends the series the day before `date` and returns the truncated head plus the occurrences it kept.
+const truncateSeries = (task: Task, date: string): { head: Task; kept: number } => {
+  const rule = task.recurrence as RecurrenceRule;
+  const until = addDays(date, -1);
+  const kept = occurrenceDates(task, task.date, until).length;
+  const { before } = splitExceptions(task.exceptions, date);
+  return {
+    head: {
+      ...task,
+      recurrence: { ...rule, until, count: rule.count ? kept : undefined },
+      exceptions: before,
+    },
+    kept,
+  };
+};
+
+// A series moved by some days keeps its chosen weekdays in step; monthly rules already follow the new first date.
+const shiftRule = (rule: RecurrenceRule, days: number): RecurrenceRule =>
+  rule.weekdays?.length
+    ? { ...rule, weekdays: [...new Set(rule.weekdays.map((weekday) => (((weekday + days) % 7) + 7) % 7))].sort((a, b) => a - b) }
+    : rule;
+
+export const applyOccurrenceUpdate = (
+  tasks: Task[],
+  occurrence: TaskOccurrence,
+  updates: OccurrenceOverride,
+  scope: EditScope = "single",
+): Task[] => {
+  const task = tasks.find((item) => item.id === occurrence.taskId);
+  if (!task) return tasks;
+
+  const replace = (...next: Task[]) => tasks.flatMap((item) => (item.id === task.id ? next : [item]));
+  const { skipped, ...fields } = updates;
+
+  if (!task.recurrence) {
+    if (skipped !== undefined) return tasks;
+    return replace({
+      ...task,
+      ...fields,
+      deliveries: nextDeliveries(fields, task.deliveries),
+    });
+  }
+
+  const movesDay = fields.date !== undefined && fields.date !== occurrence.date;
+
+  if (scope === "single") {
+    if (movesDay) {
+      // Moving one occurrence to another day detaches it from the series as a standalone task.
+      return replace(
+        {
+          ...task,
+          exceptions: { ...task.exceptions, [occurrence.date]: { ...task.exceptions?.[occurrence.date], skipped: true } },
+        },
+        { ...pickTaskFields(occurrence), ...fields, id: createId(), deliveries: {} },
+      );
+    }
+
+    const override = mergeOverride(task.exceptions?.[occurrence.date], updates, occurrence.deliveries);
+    return replace({ ...task, exceptions: { ...task.exceptions, [occurrence.date]: override } });
+  }
+
+  const anchor = fields.date ?? occurrence.date;
+  const rule = movesDay ? shiftRule(task.recurrence, daysBetween(occurrence.date, anchor)) : task.recurrence;
+  const editedKeys = Object.keys(fields) as (keyof TaskFields)[];
+  const { after } = splitExceptions(task.exceptions, occurrence.date);
+  const carriedExceptions = movesDay
+    ? {}
+    : Object.fromEntries(
+        Object.entries(after).map(([date, override]) => {
+          const next: OccurrenceOverride = { ...override };
+          editedKeys.forEach((key) => delete next[key]);
+          if (next.deliveries) next.deliveries = nextDeliveries(fields, next.deliveries);
+          return [date, next];
+        }),
+      );
+
+  const tail: Omit<Task, "id"> = {
+    ...task,
+    ...fields,
+    date: anchor,
+    completed: false,
+    completedAt: undefined,
+    focusMinutes: undefined,
+    deliveries: {},
+    checklist: resetChecklist(fields.checklist ?? task.checklist),
+    recurrence: rule,
+    exceptions: carriedExceptions,
+  };
+
+  const { head, kept } = truncateSeries(task, occurrence.date);
+  if (kept === 0) {
+    return replace({ ...tail, id: task.id });
+  }
+
+  return replace(head, {
+    ...tail,
+    id: createId(),
+    recurrence: { ...rule, count: rule.count ? Math.max(1, rule.count - kept) : undefined },
+  });
+};
+
+export const removeOccurrence = (tasks: Task[], occurrence: TaskOccurrence, scope: EditScope = "single"): Task[] => {
+  const task = tasks.find((item) => item.id === occurrence.taskId);
+  if (!task) return tasks;
+
+  if (task.recurrence && scope === "single") {
+    return applyOccurrenceUpdate(tasks, occurrence, { skipped: true }, "single");
+  }
+
+  const { head, kept } = task.recurrence ? truncateSeries(task, occurrence.date) : { head: task, kept: 0 };
+  return kept === 0 ? tasks.filter((item) => item.id !== task.id) : tasks.map((item) => (item.id === task.id ? head : item));
+};
+
+const ordinal = (value: number) => ["1st", "2nd", "3rd", "4th"][value - 1] ?? "last";
+
+const formatShortDate = (date: string, format: DisplayFormat) => {
+  const { year, month, day } = dateParts(date);
+  return new Date(year, month - 1, day).toLocaleDateString(format.locale, { month: "short", day: "numeric" });
+};
+
+export const describeRecurrence = (rule: RecurrenceRule, anchor: string, format: DisplayFormat = {}) => {
+  const interval = Math.max(1, rule.interval);
+  let summary: string;
+
+  switch (rule.frequency) {
+    case "daily":
+      summary = interval === 1 ? "Daily" : `Every ${interval} days`;
+      break;
+    case "weekly": {
+      const weekdays = rule.weekdays?.length ? [...rule.weekdays].sort() : [weekdayOf(anchor)];
+      const isWeekdays = interval === 1 && weekdays.join() === "1,2,3,4,5";
+      const days = weekdays.map((day) => weekdayLabels[day]).join(", ");
+      summary = isWeekdays ? "Every weekday" : interval === 1 ? `Weekly on ${days}` : `Every ${interval} weeks on ${days}`;
+      break;
+    }
+    case "monthly": {
+      const prefix = interval === 1 ? "Monthly" : `Every ${interval} months`;
+      summary =
+        rule.monthlyBy === "weekdayOfMonth"
+          ? `${prefix} on the ${ordinal(nthWeekdayOfMonth(anchor))} ${weekdayLabels[weekdayOf(anchor)]}`
+          : `${prefix} on day ${dateParts(anchor).day}`;
+      break;
+    }
+  }
+
+  if (rule.until) return `${summary}, until ${formatShortDate(rule.until, format)}`;
+  if (rule.count) return `${summary}, ${rule.count} times`;
+  return summary;
+};
+
+export const buildRecurrenceRule = (draft: RecurrenceDraft, anchor: string): RecurrenceRule | undefined => {
+  const end = {
+    until: draft.end === "until" && draft.until ? draft.until : undefined,
+    count: draft.end === "count" ? Math.max(1, draft.count) : undefined,
+  };
+  const interval = Math.max(1, draft.interval);
+
+  switch (draft.preset) {
+    case "none":
+      return undefined;
+    case "daily":
+      return { frequency: "daily", interval: 1, ...end };
+    case "everyNDays":
+      return { frequency: "daily", interval, ...end };
+    case "weekdays":
+      return { frequency: "weekly", interval: 1, weekdays: [1, 2, 3, 4, 5], ...end };
+    case "weekly":
+      return {
+        frequency: "weekly",
+        interval,
+        weekdays: draft.weekdays.length ? draft.weekdays : [weekdayOf(anchor)],
+        ...end,
+      };
+    case "monthlyDate":
+      return { frequency: "monthly", interval, monthlyBy: "dayOfMonth", ...end };
+    case "monthlyWeekday":
+      return { frequency: "monthly", interval, monthlyBy: "weekdayOfMonth", ...end };
+  }
+};
@@ -0,0 +1,57 @@
+import type { ReminderEntry } from "./reminders";
+
+export type WorkerAction = {
+  type: "notified" | "missed" | "completed" | "snoozed";
+  key: string;
+  occurrenceKey: string;
+  taskId: string;
+  date: string;
+  offset: number; // minutes before start
+  at: number; // epoch ms
+  until?: number; // snoozed until, epoch ms
+};
+
+export type WorkerRequest =
+  | { type: "schedule"; entries: ReminderEntry[] }
+  | { type: "tick" }
+  | { type: "drain" };
+
+export type WorkerMessage = { type: "actions"; actions: WorkerAction[] } | { type: "sync" };
+
+// Development builds skip the offline cache so edits show up on reload.
+const WORKER_URL = process.env.NODE_ENV === "production" ? "/sw.js" : "/sw.js?cache=off";
+const PERIODIC_SYNC_TAG = "daily-rhythm-reminders";
+
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+};
+
+export const isReminderWorkerSupported = () =>
+  typeof window !== "undefined" && "serviceWorker" in navigator && window.isSecureContext;
+
+export const registerReminderWorker = async () => {
+  if (!isReminderWorkerSupported()) return null;
+
+  try {
+    await navigator.serviceWorker.register(WORKER_URL);
+    const registration: PeriodicSyncRegistration = await navigator.serviceWorker.ready;
+
+    try {
+      // Lets installed apps wake the worker for catch-up checks while no tab is open.
+      await registration.periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60 * 1000 });
+    } catch {
+      // Periodic background sync is only granted to installed apps in some browsers.
+    }
+
+    return registration;
+  } catch (error) {
+    console.error("Unable to register reminder worker", error);
+    return null;
+  }
+};
+
+export const postToReminderWorker = async (message: WorkerRequest) => {
+  if (!isReminderWorkerSupported()) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+};
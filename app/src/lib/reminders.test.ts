@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { applyOccurrenceUpdate, expandTasks } from "./recurrence";
+import { MISSED_GRACE_MS, collectDueReminders, reminderTime } from "./reminders";
+import type { Task } from "./tasks";
+import { makeTask } from "./testTasks";
+
+const occurrenceOf = (item: Task) => expandTasks([item], item.date, item.date)[0];
+
+const iso = (instant: number) => new Date(instant).toISOString();
+
+const dueKeys = (tasks: Task[], now: string) => {
+  const { due, missed } = collectDueReminders(tasks, new Date(now));
+  return { due: due.map((reminder) => reminder.offset), missed: missed.map((reminder) => reminder.offset) };
+};
+
+describe("reminderTime across spring-forward", () => {
+  it("keeps the real lead time when the clock jumps between reminder and start in New York", () => {
+    const item = makeTask({ date: "2026-03-08", time: "03:30", timeZone: "America/New_York", reminders: [60] });
+    // 03:30 EDT is 07:30Z; an hour earlier is 01:30 EST on the wall clock, two hours "before" by the clock face.
+    expect(iso(reminderTime(occurrenceOf(item), 60))).toBe("2026-03-08T06:30:00.000Z");
+  });
+
+  it("fires for a start time inside the skipped hour in Berlin", () => {
+    const item = makeTask({ date: "2026-03-29", time: "02:30", timeZone: "Europe/Berlin", reminders: [15] });
+    expect(iso(reminderTime(occurrenceOf(item), 15))).toBe("2026-03-29T01:15:00.000Z");
+    expect(dueKeys([item], "2026-03-29T01:14:59.000Z")).toEqual({ due: [], missed: [] });
+    expect(dueKeys([item], "2026-03-29T01:15:00.000Z")).toEqual({ due: [15], missed: [] });
+  });
+});
+
+describe("reminderTime across fall-back", () => {
+  it("rings once, before the first pass through the repeated hour in New York", () => {
+    const item = makeTask({ date: "2026-11-01", time: "01:30", timeZone: "America/New_York", reminders: [10] });
+    expect(iso(reminderTime(occurrenceOf(item), 10))).toBe("2026-11-01T05:20:00.000Z");
+    expect(dueKeys([item], "2026-11-01T05:20:00.000Z")).toEqual({ due: [10], missed: [] });
+    // Reading 01:20 again an hour later does not ring a second time; the reminder is long past by then.
+    expect(dueKeys([item], "2026-11-01T06:20:00.000Z")).toEqual({ due: [], missed: [10] });
+  });
+
+  it("counts a reminder that spans the extra hour in real minutes in Berlin", () => {
+    const item = makeTask({ date: "2026-10-25", time: "03:00", timeZone: "Europe/Berlin", reminders: [90] });
+    // 03:00 CET is 02:00Z; ninety real minutes earlier is 01:30 CEST on the wall clock.
+    expect(iso(reminderTime(occurrenceOf(item), 90))).toBe("2026-10-25T00:30:00.000Z");
+  });
+});
+
+describe("collectDueReminders", () => {
+  it("reports reminders found after the grace window as missed", () => {
+    const item = makeTask({ date: "2026-03-08", time: "09:00", timeZone: "America/New_York", reminders: [0, 30] });
+    const start = Date.parse("2026-03-08T13:00:00.000Z");
+    expect(dueKeys([item], iso(start))).toEqual({ due: [0], missed: [30] });
+    expect(dueKeys([item], iso(start + MISSED_GRACE_MS + 1))).toEqual({ due: [], missed: [0, 30] });
+  });
+
+  it("uses a snoozed reminder's own time instead of the start", () => {
+    const item = makeTask({
+      date: "2026-10-25",
+      time: "02:30",
+      timeZone: "Europe/Berlin",
+      reminders: [10],
+      deliveries: { 10: { state: "snoozed", at: "2026-10-25T00:20:00.000Z", snoozedUntil: "2026-10-25T00:25:00.000Z" } },
+    });
+    expect(dueKeys([item], "2026-10-25T00:24:00.000Z")).toEqual({ due: [], missed: [] });
+    expect(dueKeys([item], "2026-10-25T00:25:00.000Z")).toEqual({ due: [10], missed: [] });
+  });
+
+  it("skips reminders already delivered", () => {
+    const item = makeTask({
+      date: "2026-11-01",
+      time: "01:30",
+      timeZone: "America/New_York",
+      reminders: [10],
+      deliveries: { 10: { state: "delivered", at: "2026-11-01T05:20:00.000Z" } },
+    });
+    expect(dueKeys([item], "2026-11-01T05:21:00.000Z")).toEqual({ due: [], missed: [] });
+  });
+
+  it("re-arms reminders when a new zone moves the start", () => {
+    const item = makeTask({
+      date: "2026-03-08",
+      time: "09:00",
+      timeZone: "America/New_York",
+      reminders: [0],
+      deliveries: { 0: { state: "delivered", at: "2026-03-08T13:00:00.000Z" } },
+    });
+    const [moved] = applyOccurrenceUpdate([item], occurrenceOf(item), { timeZone: "America/Los_Angeles" });
+    // 09:00 PDT on the day both zones spring forward is 16:00Z.
+    expect(moved.deliveries).toEqual({});
+    expect(dueKeys([moved], "2026-03-08T16:00:00.000Z")).toEqual({ due: [0], missed: [] });
+  });
+});
@@ -0,0 +1,122 @@
+import { priorityOf } from "./categories";
+import { addDays, applyOccurrenceUpdate, expandTasks } from "./recurrence";
+import {
+  combineDateTime,
+  formatDateInput,
+  formatReminderOffset,
+  formatTimeLabel,
+  startInstant,
+  zoneHint,
+  type DisplayFormat,
+  type ReminderDelivery,
+  type Task,
+  type TaskOccurrence,
+} from "./tasks";
+
+export type ReminderEntry = {
+  key: string;
+  occurrenceKey: string;
+  taskId: string;
+  date: string;
+  offset: number; // minutes before start
+  title: string;
+  body: string;
+  fireAt: number; // epoch ms
+  delivered: boolean;
+  urgent: boolean; // high priority, buzzes harder in the service worker
+  silent?: boolean; // muted or inside quiet hours when it fires
+};
+
+export type DueReminder = {
+  key: string;
+  occurrence: TaskOccurrence;
+  offset: number;
+  fireAt: number; // epoch ms
+};
+
+// Reminders discovered later than this (tab throttled, device asleep) are reported as missed instead of fired.
+export const MISSED_GRACE_MS = 5 * 60 * 1000;
+
+export const reminderKey = (occurrenceKey: string, offset: number) => `${occurrenceKey}#${offset}`;
+
+export const reminderTime = (occurrence: TaskOccurrence, offset: number) => {
+  const delivery = occurrence.deliveries[offset];
+  if (delivery?.state === "snoozed" && delivery.snoozedUntil) {
+    return Date.parse(delivery.snoozedUntil);
+  }
+  // Offsets count back from the real start instant, so a DST change between reminder and start keeps the lead time.
+  return startInstant(occurrence).getTime() - offset * 60 * 1000;
+};
+
+export const reminderMessage = (occurrence: TaskOccurrence, offset: number, format: DisplayFormat = {}) => {
+  const hint = zoneHint(occurrence, format);
+  const time = formatTimeLabel(combineDateTime(occurrence.date, occurrence.time), format);
+  return `${occurrence.title} starts at ${hint ? `${time} ${hint.zone} (${hint.local} your time)` : time}${
+    offset ? ` (notified ${offset} min early)` : ""
+  }`;
+};
+
+export const describeReminders = (offsets: number[]) =>
+  offsets.length === 0 ? "No reminders" : `Remind ${offsets.map(formatReminderOffset).join(", ")}`;
+
+const isArmed = (delivery: ReminderDelivery | undefined) => !delivery || delivery.state === "snoozed";
+
+const isPending = (occurrence: TaskOccurrence) => !occurrence.skipped && !occurrence.completed;
+
+// Only occurrences around today can be due, so recurring series never replay their history.
+const upcomingOccurrences = (tasks: Task[], now: Date, daysAhead: number) => {
+  const today = formatDateInput(now);
+  return expandTasks(tasks, addDays(today, -1), addDays(today, daysAhead)).filter(isPending);
+};
+
+const remindersOf = (occurrence: TaskOccurrence): DueReminder[] =>
+  occurrence.reminders.map((offset) => ({
+    key: reminderKey(occurrence.key, offset),
+    occurrence,
+    offset,
+    fireAt: reminderTime(occurrence, offset),
+  }));
+
+export const collectDueReminders = (tasks: Task[], now: Date) => {
+  const nowTime = now.getTime();
+  const due = upcomingOccurrences(tasks, now, 1)
+    .flatMap(remindersOf)
+    .filter((reminder) => isArmed(reminder.occurrence.deliveries[reminder.offset]) && nowTime >= reminder.fireAt);
+
+  return {
+    due: due.filter((reminder) => nowTime - reminder.fireAt <= MISSED_GRACE_MS),
+    missed: due.filter((reminder) => nowTime - reminder.fireAt > MISSED_GRACE_MS),
+  };
+};
+
+export const buildReminderSchedule = (tasks: Task[], now: Date, format: DisplayFormat = {}): ReminderEntry[] =>
+  upcomingOccurrences(tasks, now, 2)
+    .flatMap(remindersOf)
+    .map(({ key, occurrence, offset, fireAt }) => ({
+      key,
+      occurrenceKey: occurrence.key,
+      taskId: occurrence.taskId,
+      date: occurrence.date,
+      offset,
+      title: occurrence.title,
+      body: reminderMessage(occurrence, offset, format),
+      fireAt,
+      delivered: !isArmed(occurrence.deliveries[offset]),
+      urgent: priorityOf(occurrence) === "high",
+    }));
+
+export const findOccurrence = (tasks: Task[], occurrenceKey: string, date: string) =>
+  expandTasks(tasks, date, date).find((occurrence) => occurrence.key === occurrenceKey) ?? null;
+
+// Looks the occurrence up again so consecutive updates build on each other's delivery state.
+export const updateReminderDelivery = (
+  tasks: Task[],
+  occurrenceKey: string,
+  date: string,
+  offset: number,
+  delivery: ReminderDelivery,
+) => {
+  const occurrence = findOccurrence(tasks, occurrenceKey, date);
+  if (!occurrence) return tasks;
+  return applyOccurrenceUpdate(tasks, occurrence, { deliveries: { ...occurrence.deliveries, [offset]: delivery } });
+};
@@ -0,0 +1,180 @@
+import {
+  DEFAULT_DAY_END,
+  DEFAULT_DAY_START,
+  SNAP_MINUTES,
+  findFreeGaps,
+  occurrencesAround,
+  timeFromMinutes,
+  wallClockIn,
+} from "./calendar";
+import { addDays, applyOccurrenceUpdate, expandTasks } from "./recurrence";
+import { findOccurrence } from "./reminders";
+import { writeItem } from "./storage";
+import {
+  combineDateTime,
+  createId,
+  endInstant,
+  formatDateInput,
+  markCompleted,
+  sortTasks,
+  type Task,
+  type TaskOccurrence,
+} from "./tasks";
+
+export type RolloverPolicy = "roll" | "ask" | "drop";
+
+export type RolloverReason = "dayStart" | "ask" | "bulk" | "push";
+
+export type RolloverMove = {
+  occurrenceKey: string;
+  taskId: string;
+  title: string;
+  fromDate: string;
+  fromTime: string;
+  toDate: string;
+  toTime: string;
+};
+
+export type RolloverBatch = {
+  id: string;
+  at: string; // ISO string
+  reason: RolloverReason;
+  moves: RolloverMove[];
+  before: Task[]; // the touched tasks as they were, restored on undo
+  createdIds: string[]; // occurrences detached from a series, removed on undo
+};
+
+export type RolloverState = {
+  lastRun?: string; // YYYY-MM-DD of the last day-start rollover
+  asking: { key: string; date: string }[];
+  log: RolloverBatch[];
+};
+
+export const ROLLOVER_STORAGE_KEY = "daily-rhythm-rollover";
+
+export const OVERDUE_LOOKBACK_DAYS = 14;
+
+const RESCHEDULE_HORIZON_DAYS = 7;
+const MAX_LOGGED_BATCHES = 20;
+
+export const rolloverPolicyLabels: Record<RolloverPolicy, string> = {
+  ask: "Ask me",
+  roll: "Roll to today",
+  drop: "Leave it",
+};
+
+export const rolloverReasonLabels: Record<RolloverReason, string> = {
+  dayStart: "Rolled over at day start",
+  ask: "Moved to today",
+  bulk: "Rescheduled overdue",
+  push: "Pushed",
+};
+
+export const emptyRolloverState: RolloverState = { asking: [], log: [] };
+
+export const rolloverPolicyOf = (occurrence: TaskOccurrence): RolloverPolicy => occurrence.rollover ?? "ask";
+
+// Unfinished blocks that have fully ended; anything older than the lookback is treated as history.
+export const overdueOccurrences = (tasks: Task[], now: Date) => {
+  const today = formatDateInput(now);
+  return expandTasks(tasks, addDays(today, -OVERDUE_LOOKBACK_DAYS), today).filter(
+    (occurrence) =>
+      !occurrence.completed &&
+      !occurrence.skipped &&
+      endInstant(occurrence).getTime() <= now.getTime(),
+  );
+};
+
+export const moveTo = (occurrence: TaskOccurrence, toDate: string, toTime = occurrence.time): RolloverMove => ({
+  occurrenceKey: occurrence.key,
+  taskId: occurrence.taskId,
+  title: occurrence.title,
+  fromDate: occurrence.date,
+  fromTime: occurrence.time,
+  toDate,
+  toTime,
+});
+
+// Pushes are relative to the occurrence's own day, so pushing a future task never moves it backward.
+export const pushMove = (occurrence: TaskOccurrence, days = 1) => moveTo(occurrence, addDays(occurrence.date, days));
+
+export const planDayStart = (tasks: Task[], now: Date) => {
+  const today = formatDateInput(now);
+  const previous = overdueOccurrences(tasks, now).filter((occurrence) => occurrence.date < today);
+  return {
+    roll: previous.filter((occurrence) => rolloverPolicyOf(occurrence) === "roll").map((occurrence) => moveTo(occurrence, today)),
+    ask: previous.filter((occurrence) => rolloverPolicyOf(occurrence) === "ask"),
+  };
+};
+
+// Fills the first free gap that fits each overdue block, starting from now and spilling into the following days.
+export const planBulkReschedule = (tasks: Task[], now: Date): RolloverMove[] => {
+  const today = formatDateInput(now);
+  const overdue = overdueOccurrences(tasks, now).filter((occurrence) => rolloverPolicyOf(occurrence) !== "drop");
+  const moving = new Set(overdue.map((occurrence) => occurrence.key));
+  const earliestToday = Math.ceil((now.getHours() * 60 + now.getMinutes()) / SNAP_MINUTES) * SNAP_MINUTES;
+  const placed: TaskOccurrence[] = [];
+
+  return overdue.flatMap((occurrence) => {
+    for (let offset = 0; offset <= RESCHEDULE_HORIZON_DAYS; offset += 1) {
+      const date = addDays(today, offset);
+      const dayStart = offset === 0 ? Math.max(DEFAULT_DAY_START, earliestToday) : DEFAULT_DAY_START;
+      const busy = [...occurrencesAround(tasks, date, date).filter((item) => !moving.has(item.key)), ...placed];
+      const gap = findFreeGaps(busy, date, dayStart, DEFAULT_DAY_END, occurrence.duration).find(
+        (candidate) => candidate.end - candidate.start >= occurrence.duration,
+      );
+      if (gap) {
+        // Gaps are on the device's clock; the move is written in the occurrence's own zone.
+        const target = wallClockIn(combineDateTime(date, timeFromMinutes(gap.start)), occurrence.timeZone);
+        placed.push({ ...occurrence, date: target.date, time: target.time });
+        return [moveTo(occurrence, target.date, target.time)];
+      }
+    }
+    return [];
+  });
+};
+
+export const applyRollover = (tasks: Task[], moves: RolloverMove[], reason: RolloverReason, at: Date) => {
+  if (moves.length === 0) return { tasks, batch: null };
+
+  const next = moves.reduce((draft, move) => {
+    const occurrence = findOccurrence(draft, move.occurrenceKey, move.fromDate);
+    if (!occurrence) return draft;
+    return applyOccurrenceUpdate(draft, occurrence, { date: move.toDate, time: move.toTime, ...markCompleted(false) });
+  }, tasks);
+
+  const touched = new Set(moves.map((move) => move.taskId));
+  const existing = new Set(tasks.map((task) => task.id));
+  const batch: RolloverBatch = {
+    id: createId(),
+    at: at.toISOString(),
+    reason,
+    moves,
+    before: tasks.filter((task) => touched.has(task.id)),
+    createdIds: next.filter((task) => !existing.has(task.id)).map((task) => task.id),
+  };
+  return { tasks: sortTasks(next), batch };
+};
+
+export const logRollover = (state: RolloverState, batch: RolloverBatch): RolloverState => ({
+  ...state,
+  log: [batch, ...state.log].slice(0, MAX_LOGGED_BATCHES),
+});
+
+// Undo puts the touched tasks back exactly as they were, which also reverts edits made to them since.
+export const undoRollover = (tasks: Task[], batch: RolloverBatch) => {
+  const restored = new Set(batch.before.map((task) => task.id));
+  const created = new Set(batch.createdIds);
+  return sortTasks([...tasks.filter((task) => !restored.has(task.id) && !created.has(task.id)), ...batch.before]);
+};
+
+export const readRolloverState = (): RolloverState => {
+  try {
+    const stored = window.localStorage.getItem(ROLLOVER_STORAGE_KEY);
+    return stored ? { ...emptyRolloverState, ...(JSON.parse(stored) as RolloverState) } : emptyRolloverState;
+  } catch {
+    return emptyRolloverState;
+  }
+};
+
+export const writeRolloverState = (state: RolloverState) => writeItem(ROLLOVER_STORAGE_KEY, JSON.stringify(state));
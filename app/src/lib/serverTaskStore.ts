@@ -0,0 +1,46 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { applyMutations, changesSince, emptyServerState, type Mutation, type ServerState } from "./sync";
+
+// Server-only: a JSON file on local disk, so sync can be tried without any hosted service.
+const dataFile = () => process.env.DAILY_RHYTHM_DATA_FILE ?? path.join(process.cwd(), "data", "tasks.json");
+
+let queue: Promise<unknown> = Promise.resolve();
+
+// Requests are handled one at a time so concurrent syncs never interleave read-modify-write cycles.
+const serialize = <T>(work: () => Promise<T>) => {
+  const result = queue.then(work, work);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const readState = async (): Promise<ServerState> => {
+  try {
+    return JSON.parse(await readFile(dataFile(), "utf8")) as ServerState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return emptyServerState();
+    throw error;
+  }
+};
+
+const writeState = async (state: ServerState) => {
+  const file = dataFile();
+  await mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(state), "utf8");
+  await rename(temporary, file);
+};
+
+export const readChanges = (since: number) =>
+  serialize(async () => {
+    const state = await readState();
+    return { revision: state.revision, changes: changesSince(state, since), conflicts: [] };
+  });
+
+export const syncMutations = (since: number, mutations: Mutation[]) =>
+  serialize(async () => {
+    const current = await readState();
+    const { state, conflicts } = applyMutations(current, mutations);
+    if (state.revision !== current.revision) await writeState(state);
+    return { revision: state.revision, changes: changesSince(state, since), conflicts };
+  });
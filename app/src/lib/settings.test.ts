@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { defaultSettings, parseSettings } from "./settings";
+
+describe("parseSettings", () => {
+  it("keeps poll intervals the settings panel offers", () => {
+    expect(parseSettings({ pollSeconds: 60 })?.pollSeconds).toBe(60);
+  });
+
+  it("falls back to the default for a zero, negative or unlisted poll interval", () => {
+    [0, -30, 7].forEach((pollSeconds) => {
+      expect(parseSettings({ pollSeconds })?.pollSeconds).toBe(defaultSettings.pollSeconds);
+    });
+  });
+
+  it("only accepts a week start from Sunday (0) to Saturday (6)", () => {
+    expect(parseSettings({ weekStartsOn: 0 })?.weekStartsOn).toBe(0);
+    expect(parseSettings({ weekStartsOn: 6 })?.weekStartsOn).toBe(6);
+    [-1, 7, 1.5].forEach((weekStartsOn) => {
+      expect(parseSettings({ weekStartsOn })?.weekStartsOn).toBe(defaultSettings.weekStartsOn);
+    });
+  });
+});
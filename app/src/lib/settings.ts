@@ -0,0 +1,119 @@
+import { writeItem } from "./storage";
+import { minutesOptions, type DisplayFormat } from "./tasks";
+
+export type TimeFormat = "auto" | "12h" | "24h";
+
+export type Theme = "dark" | "light" | "system";
+
+export type WorkingHours = {
+  start: string; // HH:MM
+  end: string; // HH:MM
+  days: number[]; // weekdays the auto-planner may use, 0 = Sunday
+};
+
+export type Settings = {
+  defaultReminders: number[]; // offsets preselected for new activities
+  reminderOptions: number[]; // offsets offered by the reminder pickers
+  pollSeconds: number; // how often the page checks reminders without the service worker
+  weekStartsOn: number; // 0 = Sunday
+  timeFormat: TimeFormat;
+  locale: string; // BCP 47 tag, empty for the browser's own
+  autoSeedTemplate: boolean; // fill an empty planner from a template on first run
+  seedTemplateId: string; // empty for the first template
+  theme: Theme;
+  workingHours: WorkingHours;
+};
+
+export const SETTINGS_STORAGE_KEY = "daily-rhythm-settings";
+
+export const pollIntervalOptions = [15, 30, 60, 120];
+
+export const localeOptions = ["en-US", "en-GB", "de-DE", "fr-FR", "es-ES", "nl-NL", "ja-JP"];
+
+export const timeFormatLabels: Record<TimeFormat, string> = {
+  auto: "Locale default",
+  "12h": "12-hour",
+  "24h": "24-hour",
+};
+
+export const themeLabels: Record<Theme, string> = {
+  dark: "Dark",
+  light: "Light",
+  system: "Match system",
+};
+
+export const defaultSettings: Settings = {
+  defaultReminders: [15],
+  reminderOptions: minutesOptions,
+  pollSeconds: 30,
+  weekStartsOn: 1,
+  timeFormat: "auto",
+  locale: "",
+  autoSeedTemplate: true,
+  seedTemplateId: "",
+  theme: "dark",
+  workingHours: { start: "09:00", end: "17:00", days: [1, 2, 3, 4, 5] },
+};
+
+export const displayFormatOf = (settings: Settings): DisplayFormat => ({
+  locale: settings.locale || undefined,
+  hour12: settings.timeFormat === "auto" ? undefined : settings.timeFormat === "12h",
+});
+
+export const isValidLocale = (locale: string) => {
+  if (!locale) return true;
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+export const parseOffsetList = (value: string) =>
+  [
+    ...new Set(
+      value
+        .split(/[,\s]+/)
+        .filter(Boolean)
+        .map(Number)
+        .filter((offset) => Number.isInteger(offset) && offset >= 0),
+    ),
+  ].sort((a, b) => a - b);
+
+const sameShape = (value: unknown, fallback: unknown) =>
+  Array.isArray(fallback) ? Array.isArray(value) : typeof value === typeof fallback && value !== null;
+
+// Keeps only the known fields whose type matches the defaults, so a hand-edited or foreign file cannot break the page.
+// Numbers that drive timers or the calendar are range-checked too; a zero poll interval would spin the page.
+export const parseSettings = (value: unknown): Settings | null => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return null;
+  const record = value as Record<string, unknown>;
+  const picked = Object.fromEntries(
+    Object.entries(defaultSettings).flatMap(([key, fallback]) =>
+      sameShape(record[key], fallback) ? [[key, record[key]]] : [],
+    ),
+  ) as Partial<Settings>;
+  const { pollSeconds, weekStartsOn } = picked;
+  return {
+    ...defaultSettings,
+    ...picked,
+    workingHours: { ...defaultSettings.workingHours, ...picked.workingHours },
+    locale: isValidLocale(picked.locale ?? "") ? (picked.locale ?? "") : "",
+    pollSeconds: pollSeconds !== undefined && pollIntervalOptions.includes(pollSeconds) ? pollSeconds : defaultSettings.pollSeconds,
+    weekStartsOn:
+      weekStartsOn !== undefined && Number.isInteger(weekStartsOn) && weekStartsOn >= 0 && weekStartsOn <= 6
+        ? weekStartsOn
+        : defaultSettings.weekStartsOn,
+  };
+};
+
+export const readSettings = (): Settings => {
+  try {
+    const stored = window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? (parseSettings(JSON.parse(stored)) ?? defaultSettings) : defaultSettings;
+  } catch {
+    return defaultSettings;
+  }
+};
+
+export const writeSettings = (settings: Settings) => writeItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
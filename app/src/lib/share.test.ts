@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { decodeSharedPlan, encodeSharedPlan, sharedPlanFrom } from "./share";
+import { makeTask } from "./testTasks";
+
+const category = { id: "work", name: "Work", color: "#2563eb" };
+
+const plan = () =>
+  sharedPlanFrom(
+    [
+      makeTask({ date: "2026-03-02", time: "09:00", timeZone: "Europe/Berlin", categoryId: "work", tags: ["focus"] }),
+      makeTask({ date: "2026-03-03", time: "14:30", timeZone: "America/New_York", title: "Review" }),
+      makeTask({ date: "2026-03-09", time: "10:00", timeZone: "Europe/Berlin", title: "Next week" }),
+    ],
+    [category],
+    ["2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05", "2026-03-06", "2026-03-07", "2026-03-08"],
+  );
+
+describe("share links", () => {
+  it("keeps only the shared dates and carries categories by name", () => {
+    const shared = plan();
+    expect(shared).toMatchObject({ from: "2026-03-02", to: "2026-03-08" });
+    expect(shared.tasks.map((task) => task.title)).toEqual(["Block", "Review"]);
+    expect(shared.tasks[0].category).toEqual({ name: "Work", color: "#2563eb" });
+  });
+
+  it("decodes a link back to the same plan using only URL-safe characters", async () => {
+    const fragment = await encodeSharedPlan(plan());
+    expect(fragment).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decodeSharedPlan(fragment)).toEqual(plan());
+  });
+
+  it("reads a truncated, mistyped or empty link as no plan", async () => {
+    const fragment = await encodeSharedPlan(plan());
+    expect(await decodeSharedPlan(fragment.slice(0, fragment.length / 2))).toBeNull();
+    expect(await decodeSharedPlan("not-a-plan")).toBeNull();
+    expect(await decodeSharedPlan("")).toBeNull();
+  });
+
+  it("rejects a plan from another version or with a malformed activity", async () => {
+    expect(await decodeSharedPlan(await encodeSharedPlan({ ...plan(), version: 2 }))).toBeNull();
+    const broken = { ...plan(), tasks: [{ ...plan().tasks[0], category: { name: "Work" } }] };
+    expect(await decodeSharedPlan(await encodeSharedPlan(broken as never))).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import type { Category } from "./categories";
+import { createChecklistItem } from "./checklist";
+import { planImport } from "./ical";
+import { expandTasks } from "./recurrence";
+import { describeTaskIssue } from "./storage";
+import { createId, sortTasks, type Task } from "./tasks";
+import { deviceTimeZone } from "./timeZones";
+
+// A concrete occurrence as the recipient sees it: no ids, deliveries or series, and the category carried by name.
+export type SharedTask = Pick<
+  Task,
+  "title" | "description" | "date" | "time" | "timeZone" | "duration" | "reminders" | "completed" | "priority" | "tags"
+> & {
+  checklist?: { title: string; done: boolean }[];
+  category?: Pick<Category, "name" | "color">;
+};
+
+export type SharedPlan = {
+  version: number;
+  from: string;
+  to: string;
+  tasks: SharedTask[];
+};
+
+export const SHARE_PATH = "/share";
+
+const SHARE_VERSION = 1;
+
+const isDate = (value: unknown) => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Zones are always written out so the times read the same in the recipient's browser.
+export const sharedPlanFrom = (tasks: Task[], categories: Category[], dates: string[]): SharedPlan => {
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+  return {
+    version: SHARE_VERSION,
+    from,
+    to,
+    tasks: sortTasks(expandTasks(tasks, from, to).filter((occurrence) => !occurrence.skipped)).map((occurrence) => {
+      const category = categories.find((item) => item.id === occurrence.categoryId);
+      return {
+        title: occurrence.title,
+        description: occurrence.description,
+        date: occurrence.date,
+        time: occurrence.time,
+        timeZone: occurrence.timeZone ?? deviceTimeZone(),
+        duration: occurrence.duration,
+        reminders: occurrence.reminders,
+        completed: occurrence.completed,
+        priority: occurrence.priority,
+        tags: occurrence.tags,
+        checklist: occurrence.checklist?.map(({ title, done }) => ({ title, done })),
+        category: category && { name: category.name, color: category.color },
+      };
+    }),
+  };
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const pipe = async (body: Blob, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(body.stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeSharedPlan = async (plan: SharedPlan) =>
+  toBase64Url(await pipe(new Blob([JSON.stringify(plan)]), new CompressionStream("deflate-raw")));
+
+const sharedTaskIssue = (record: unknown) => {
+  if (!isRecord(record)) return "not an object";
+  if (record.category !== undefined) {
+    if (!isRecord(record.category) || typeof record.category.name !== "string" || typeof record.category.color !== "string") {
+      return "category is malformed";
+    }
+  }
+  if (record.checklist !== undefined) {
+    const valid =
+      Array.isArray(record.checklist) &&
+      record.checklist.every((item) => isRecord(item) && typeof item.title === "string" && typeof item.done === "boolean");
+    if (!valid) return "checklist is malformed";
+  }
+  return describeTaskIssue({ ...record, checklist: undefined, id: "shared", deliveries: {} });
+};
+
+// Links are typed, pasted and truncated by chat apps, so anything that does not decode cleanly reads as no plan.
+export const decodeSharedPlan = async (fragment: string): Promise<SharedPlan | null> => {
+  if (!fragment) return null;
+  try {
+    const text = new TextDecoder().decode(await pipe(new Blob([fromBase64Url(fragment)]), new DecompressionStream("deflate-raw")));
+    const parsed = JSON.parse(text) as unknown;
+    if (!isRecord(parsed) || parsed.version !== SHARE_VERSION || !isDate(parsed.from) || !isDate(parsed.to)) return null;
+    if (!Array.isArray(parsed.tasks) || parsed.tasks.some((task) => sharedTaskIssue(task) !== null)) return null;
+    return parsed as SharedPlan;
+  } catch {
+    return null;
+  }
+};
+
+export const shareUrl = (origin: string, fragment: string) => `${origin}${SHARE_PATH}#${fragment}`;
+
+// Imported copies start unfinished and are matched to local categories by name.
+export const sharedTaskToTask = (shared: SharedTask, categories: Category[]) => {
+  const category = shared.category
+    ? categories.find((item) => item.name.toLowerCase() === shared.category?.name.toLowerCase())
+    : undefined;
+  const task: Task = {
+    id: createId(),
+    title: shared.title,
+    description: shared.description,
+    date: shared.date,
+    time: shared.time,
+    timeZone: shared.timeZone,
+    duration: shared.duration,
+    reminders: shared.reminders,
+    deliveries: {},
+    completed: false,
+    priority: shared.priority,
+    categoryId: category?.id,
+    tags: shared.tags,
+    checklist: shared.checklist?.map((item) => createChecklistItem(item.title)),
+  };
+  return {
+    task,
+    warnings: shared.category && !category ? [`No category named ${shared.category.name} here, left uncategorised`] : [],
+  };
+};
+
+// An occurrence of a local series with the same title and time counts as already planned, not as a clash.
+export const planSharedImport = (existing: Task[], plan: SharedPlan, categories: Category[]) =>
+  planImport(existing, plan.tasks.map((shared) => sharedTaskToTask(shared, categories))).map((entry) =>
+    entry.status === "conflict" &&
+    expandTasks(existing, entry.task.date, entry.task.date).some(
+      (occurrence) =>
+        !occurrence.skipped &&
+        occurrence.time === entry.task.time &&
+        occurrence.title.trim().toLowerCase() === entry.task.title.trim().toLowerCase(),
+    )
+      ? { ...entry, status: "duplicate" as const, reason: "Already in your planner" }
+      : entry,
+  );
@@ -0,0 +1,73 @@
+import { requestResult, transactionDone } from "./taskRepository";
+import { createId } from "./tasks";
+
+export type StoredSound = {
+  id: string;
+  name: string;
+  type: string; // MIME type of the uploaded file
+  size: number; // bytes
+  data: Blob;
+};
+
+export type SoundFile = Omit<StoredSound, "data">;
+
+// Uploaded sounds live in their own database so the task store's schema never has to change for them.
+const DB_NAME = "daily-rhythm-sounds";
+const DB_VERSION = 1;
+const SOUND_STORE = "sounds";
+
+export const MAX_SOUND_BYTES = 1024 * 1024;
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SOUND_STORE)) db.createObjectStore(SOUND_STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(SOUND_STORE, mode);
+    const [result] = await Promise.all([requestResult(run(transaction.objectStore(SOUND_STORE))), transactionDone(transaction)]);
+    return result;
+  } finally {
+    db.close();
+  }
+};
+
+const cache = new Map<string, Blob>();
+
+export const listSoundFiles = async (): Promise<SoundFile[]> => {
+  const records = await withStore<StoredSound[]>("readonly", (store) => store.getAll());
+  return records.map(({ data, ...meta }) => {
+    cache.set(meta.id, data);
+    return meta;
+  });
+};
+
+export const saveSoundFile = async (file: File): Promise<SoundFile> => {
+  if (!file.type.startsWith("audio/")) throw new Error(`${file.name} is not an audio file`);
+  if (file.size > MAX_SOUND_BYTES) throw new Error(`${file.name} is larger than ${MAX_SOUND_BYTES / 1024} KB`);
+  const sound: StoredSound = { id: createId(), name: file.name.replace(/\.[^.]+$/, ""), type: file.type, size: file.size, data: file };
+  await withStore("readwrite", (store) => store.put(sound));
+  cache.set(sound.id, file);
+  return { id: sound.id, name: sound.name, type: sound.type, size: sound.size };
+};
+
+export const deleteSoundFile = async (id: string) => {
+  await withStore("readwrite", (store) => store.delete(id));
+  cache.delete(id);
+};
+
+export const loadSoundBlob = async (id: string) => {
+  const cached = cache.get(id);
+  if (cached) return cached;
+  const record = await withStore<StoredSound | undefined>("readonly", (store) => store.get(id));
+  if (record) cache.set(id, record.data);
+  return record?.data ?? null;
+};
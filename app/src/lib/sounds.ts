@@ -0,0 +1,126 @@
+import { loadSoundBlob } from "./soundLibrary";
+
+export type ToneId = "chime" | "bell" | "marimba" | "pulse" | "urgent";
+
+// A built-in tone, an uploaded file ("file:<id>") or nothing at all.
+export type SoundId = ToneId | "silent" | `file:${string}`;
+
+export type PlaybackResult = "played" | "blocked" | "failed";
+
+type Note = {
+  frequency: number; // Hz
+  at: number; // seconds after the tone starts
+  length: number; // seconds
+  wave: OscillatorType;
+  gain: number; // peak gain at full volume
+};
+
+export const tones: Record<ToneId, { label: string; notes: Note[] }> = {
+  chime: { label: "Chime", notes: [{ frequency: 880, at: 0, length: 1.1, wave: "triangle", gain: 0.2 }] },
+  bell: {
+    label: "Bell",
+    notes: [
+      { frequency: 659, at: 0, length: 1.6, wave: "sine", gain: 0.25 },
+      { frequency: 1318, at: 0, length: 0.9, wave: "sine", gain: 0.08 },
+    ],
+  },
+  marimba: {
+    label: "Marimba",
+    notes: [
+      { frequency: 523, at: 0, length: 0.35, wave: "sine", gain: 0.25 },
+      { frequency: 659, at: 0.18, length: 0.35, wave: "sine", gain: 0.25 },
+      { frequency: 784, at: 0.36, length: 0.6, wave: "sine", gain: 0.25 },
+    ],
+  },
+  pulse: {
+    label: "Pulse",
+    notes: [0, 0.2, 0.4].map((at) => ({ frequency: 740, at, length: 0.12, wave: "square" as const, gain: 0.1 })),
+  },
+  urgent: {
+    label: "Urgent",
+    notes: [
+      { frequency: 988, at: 0, length: 0.25, wave: "square", gain: 0.12 },
+      { frequency: 1319, at: 0.3, length: 0.5, wave: "square", gain: 0.12 },
+    ],
+  },
+};
+
+export const toneIds = Object.keys(tones) as ToneId[];
+
+// Browsers keep the context suspended until the page has seen a click or key press.
+const RESUME_TIMEOUT_MS = 300;
+
+let context: AudioContext | null = null;
+
+export const fileSoundId = (id: string): SoundId => `file:${id}`;
+
+export const soundFileId = (sound: SoundId) => (sound.startsWith("file:") ? sound.slice("file:".length) : null);
+
+const runningContext = async () => {
+  context ??= new AudioContext();
+  if (context.state === "suspended") {
+    await Promise.race([context.resume(), new Promise((resolve) => window.setTimeout(resolve, RESUME_TIMEOUT_MS))]);
+  }
+  return context.state === "running" ? context : null;
+};
+
+const playTone = async (tone: ToneId, volume: number): Promise<PlaybackResult> => {
+  const audio = await runningContext();
+  if (!audio) return "blocked";
+
+  tones[tone].notes.forEach(({ frequency, at, length, wave, gain }) => {
+    const start = audio.currentTime + at;
+    const oscillator = audio.createOscillator();
+    const envelope = audio.createGain();
+
+    oscillator.type = wave;
+    oscillator.frequency.setValueAtTime(frequency, start);
+
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(Math.max(0.0002, gain * volume), start + 0.02);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + length);
+
+    oscillator.connect(envelope);
+    envelope.connect(audio.destination);
+
+    oscillator.start(start);
+    oscillator.stop(start + length + 0.1);
+  });
+  return "played";
+};
+
+const playFile = async (id: string, volume: number): Promise<PlaybackResult> => {
+  const blob = await loadSoundBlob(id);
+  if (!blob) return "failed";
+
+  const url = URL.createObjectURL(blob);
+  const audio = new Audio(url);
+  audio.volume = volume;
+  audio.onended = () => URL.revokeObjectURL(url);
+  try {
+    await audio.play();
+    return "played";
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    return error instanceof DOMException && error.name === "NotAllowedError" ? "blocked" : "failed";
+  }
+};
+
+export const playSound = async (sound: SoundId, volume: number): Promise<PlaybackResult> => {
+  if (sound === "silent") return "played";
+  try {
+    const fileId = soundFileId(sound);
+    if (fileId) {
+      const result = await playFile(fileId, volume);
+      // A missing or unreadable upload falls back to the default chime rather than staying quiet.
+      return result === "failed" ? playTone("chime", volume) : result;
+    }
+    return await playTone(sound in tones ? (sound as ToneId) : "chime", volume);
+  } catch (error) {
+    console.error("Unable to play alert sound", error);
+    return "failed";
+  }
+};
+
+// Called from a click so the browser lets the page make sound from then on.
+export const unlockAudio = async () => (await runningContext()) !== null;
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { STORAGE_KEY } from "./tasks";
+import {
+  BACKUP_INTERVAL_MS,
+  maybeCreateScheduledBackup,
+  parseCollection,
+  readBackups,
+  readQuarantine,
+  taskSchema,
+  validateCollection,
+} from "./storage";
+
+// Stored before versioning: a bare array with a single `remindBefore` and `notified` flag and no duration.
+const legacyTask = {
+  id: "legacy",
+  title: "Stretch",
+  description: "",
+  date: "2026-03-02",
+  time: "08:00",
+  remindBefore: 10,
+  notified: true,
+  completed: false,
+};
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("window", {
+    localStorage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    },
+  });
+  return () => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  };
+});
+
+describe("validateCollection", () => {
+  it("migrates version 0 tasks to per-reminder deliveries and a default duration", () => {
+    const { records, rejected, version } = validateCollection(taskSchema, [legacyTask])!;
+    expect(version).toBe(0);
+    expect(rejected).toEqual([]);
+    expect(records).toEqual([
+      {
+        id: "legacy",
+        title: "Stretch",
+        description: "",
+        date: "2026-03-02",
+        time: "08:00",
+        completed: false,
+        reminders: [10],
+        deliveries: { 10: { state: "delivered", at: new Date(0).toISOString() } },
+        duration: 30,
+      },
+    ]);
+  });
+
+  it("rejects records that fail validation after migrating, with the reason", () => {
+    const { records, rejected } = validateCollection(taskSchema, {
+      version: 2,
+      savedAt: "",
+      records: [{ ...legacyTask, date: "March 2nd" }],
+    })!;
+    expect(records).toEqual([]);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toMatchObject({ source: STORAGE_KEY, reason: expect.stringContaining("date") });
+  });
+
+  it("returns null for a value that is not a collection", () => {
+    expect(validateCollection(taskSchema, { tasks: [] })).toBeNull();
+  });
+});
+
+describe("parseCollection", () => {
+  it("backs up the stored payload before migrating and asks for a rewrite", () => {
+    const result = parseCollection(taskSchema, [legacyTask]);
+    expect(result).toMatchObject({ found: true, quarantined: 0, dirty: true, migratedFrom: 0 });
+    const [backup] = readBackups();
+    expect(backup.reason).toBe("before-migration");
+    expect(JSON.parse(backup.payloads[STORAGE_KEY]).records).toEqual([legacyTask]);
+  });
+
+  it("quarantines bad records once and keeps the rest", () => {
+    const stored = { version: 2, savedAt: "", records: [{ ...legacyTask, duration: 30, reminders: [], deliveries: {} }, "junk"] };
+    expect(parseCollection(taskSchema, stored)).toMatchObject({ quarantined: 1, dirty: true });
+    parseCollection(taskSchema, stored);
+    expect(readQuarantine()).toEqual([expect.objectContaining({ source: STORAGE_KEY, raw: '"junk"' })]);
+    expect(readBackups()).toEqual([]);
+  });
+
+  it("quarantines a payload that is not a collection at all", () => {
+    expect(parseCollection(taskSchema, "{broken")).toEqual({ records: [], found: true, quarantined: 1, dirty: true });
+    expect(readQuarantine()[0].reason).toBe("stored data could not be parsed");
+  });
+});
+
+describe("maybeCreateScheduledBackup", () => {
+  it("only builds the snapshot once the last backup is an interval old", () => {
+    const snapshot = vi.fn(() => ({ [STORAGE_KEY]: "[]" }));
+    const start = new Date("2026-03-02T08:00:00Z");
+    vi.useFakeTimers({ now: start });
+    expect(maybeCreateScheduledBackup(start, snapshot)?.reason).toBe("scheduled");
+    expect(maybeCreateScheduledBackup(new Date(start.getTime() + BACKUP_INTERVAL_MS - 1), snapshot)).toBeNull();
+    expect(snapshot).toHaveBeenCalledTimes(1);
+    expect(maybeCreateScheduledBackup(new Date(start.getTime() + BACKUP_INTERVAL_MS), snapshot)).not.toBeNull();
+    expect(snapshot).toHaveBeenCalledTimes(2);
+  });
+});
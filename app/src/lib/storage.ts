@@ -0,0 +1,463 @@
+import { BACKLOG_STORAGE_KEY, type BacklogItem } from "./backlog";
+import type { PlannerData } from "./backupFile";
+import { CATEGORIES_STORAGE_KEY, type Category } from "./categories";
+import { SETTINGS_STORAGE_KEY, parseSettings } from "./settings";
+import { STORAGE_KEY, migrateLegacyTask, migrateTaskDuration, type Task } from "./tasks";
+import { TEMPLATES_STORAGE_KEY, migrateLegacyTemplate, migrateTemplateDuration, type Template } from "./templates";
+import { isValidTimeZone } from "./timeZones";
+
+// Each migration upgrades a single record from the previous version to the one it is keyed by.
+type Migration = (record: never) => unknown;
+
+export type CollectionSchema = {
+  key: string;
+  version: number;
+  migrations: Record<number, Migration>;
+  validate: (record: unknown) => string | null;
+  label: string;
+};
+
+type StoredCollection = {
+  version: number;
+  savedAt: string;
+  records: unknown[];
+};
+
+export type QuarantinedRecord = {
+  id: string;
+  source: string;
+  reason: string;
+  raw: string;
+  quarantinedAt: string;
+};
+
+export type Backup = {
+  id: string;
+  createdAt: string;
+  reason: "scheduled" | "before-migration" | "before-restore";
+  payloads: Record<string, string>;
+};
+
+export type LoadResult<T> = {
+  records: T[];
+  found: boolean;
+  quarantined: number;
+  migratedFrom?: number;
+};
+
+type RejectedRecord = Omit<QuarantinedRecord, "id" | "quarantinedAt">;
+
+export type ValidatedCollection<T> = {
+  records: T[];
+  rejected: RejectedRecord[];
+  version: number; // the version the records were stored with
+};
+
+export const QUARANTINE_STORAGE_KEY = "daily-rhythm-quarantine";
+export const BACKUPS_STORAGE_KEY = "daily-rhythm-backups";
+export const MAX_BACKUPS = 5;
+export const BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isDate = (value: unknown) => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isTime = (value: unknown) => typeof value === "string" && /^\d{2}:\d{2}$/.test(value);
+
+const isTimeZone = (value: unknown) => typeof value === "string" && isValidTimeZone(value);
+
+const isTimestamp = (value: unknown) => typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const isDuration = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const isMinutes = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const isRolloverPolicy = (value: unknown) => ["roll", "ask", "drop"].includes(value as string);
+
+const isOffsetList = (value: unknown) => Array.isArray(value) && value.every(isMinutes);
+
+const isPriority = (value: unknown) => ["low", "normal", "high"].includes(value as string);
+
+const isTextList = (value: unknown) => Array.isArray(value) && value.every((tag) => typeof tag === "string");
+
+const isChecklist = (value: unknown) =>
+  Array.isArray(value) &&
+  value.every((item) => isRecord(item) && typeof item.id === "string" && typeof item.title === "string" && typeof item.done === "boolean");
+
+const isColor = (value: unknown) => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+const deliveryIssue = (value: unknown) => {
+  if (!isRecord(value)) return "deliveries must be an object";
+  const invalid = Object.values(value).some(
+    (delivery) =>
+      !isRecord(delivery) ||
+      !["delivered", "missed", "snoozed"].includes(delivery.state as string) ||
+      typeof delivery.at !== "string",
+  );
+  return invalid ? "deliveries contain an unknown state" : null;
+};
+
+const recurrenceIssue = (value: unknown) => {
+  if (!isRecord(value)) return "recurrence must be an object";
+  if (!["daily", "weekly", "monthly"].includes(value.frequency as string)) return "recurrence frequency is unknown";
+  if (typeof value.interval !== "number" || value.interval < 1) return "recurrence interval must be at least 1";
+  if (value.weekdays !== undefined && !(Array.isArray(value.weekdays) && value.weekdays.every((day) => day >= 0 && day <= 6))) {
+    return "recurrence weekdays are invalid";
+  }
+  if (value.until !== undefined && !isDate(value.until)) return "recurrence end date is invalid";
+  if (value.count !== undefined && (typeof value.count !== "number" || value.count < 1)) return "recurrence count is invalid";
+  return null;
+};
+
+const overrideIssue = (value: unknown) => {
+  if (!isRecord(value)) return "occurrence override must be an object";
+  if (value.title !== undefined && typeof value.title !== "string") return "override title must be text";
+  if (value.date !== undefined && !isDate(value.date)) return "override date is invalid";
+  if (value.time !== undefined && !isTime(value.time)) return "override time is invalid";
+  if (value.timeZone !== undefined && !isTimeZone(value.timeZone)) return "override time zone is unknown";
+  if (value.duration !== undefined && !isDuration(value.duration)) return "override duration is invalid";
+  if (value.reminders !== undefined && !isOffsetList(value.reminders)) return "override reminders are invalid";
+  if (value.completedAt !== undefined && !isTimestamp(value.completedAt)) return "override completion time is invalid";
+  if (value.focusMinutes !== undefined && !isMinutes(value.focusMinutes)) return "override focus time is invalid";
+  if (value.rollover !== undefined && !isRolloverPolicy(value.rollover)) return "override rollover policy is unknown";
+  if (value.categoryId !== undefined && typeof value.categoryId !== "string") return "override category must be text";
+  if (value.tags !== undefined && !isTextList(value.tags)) return "override tags must be text";
+  if (value.priority !== undefined && !isPriority(value.priority)) return "override priority is unknown";
+  if (value.checklist !== undefined && !isChecklist(value.checklist)) return "override checklist is malformed";
+  if (value.autoComplete !== undefined && typeof value.autoComplete !== "boolean") return "override auto-complete must be true or false";
+  if (value.sound !== undefined && typeof value.sound !== "string") return "override sound must be text";
+  if (value.deliveries !== undefined) return deliveryIssue(value.deliveries);
+  return null;
+};
+
+export const describeTaskIssue = (record: unknown) => {
+  if (!isRecord(record)) return "not an object";
+  if (typeof record.id !== "string" || !record.id) return "missing id";
+  if (typeof record.title !== "string") return "title must be text";
+  if (typeof record.description !== "string") return "description must be text";
+  if (!isDate(record.date)) return "date must be YYYY-MM-DD";
+  if (!isTime(record.time)) return "time must be HH:MM";
+  if (record.timeZone !== undefined && !isTimeZone(record.timeZone)) return "time zone is unknown";
+  if (!isDuration(record.duration)) return "duration must be a positive number of minutes";
+  if (!isOffsetList(record.reminders)) return "reminders must be minute offsets";
+  if (typeof record.completed !== "boolean") return "completed must be true or false";
+  if (record.completedAt !== undefined && !isTimestamp(record.completedAt)) return "completion time is invalid";
+  if (record.focusMinutes !== undefined && !isMinutes(record.focusMinutes)) return "focus time must be minutes";
+  if (record.rollover !== undefined && !isRolloverPolicy(record.rollover)) return "rollover policy is unknown";
+  if (record.templateItemId !== undefined && typeof record.templateItemId !== "string") return "template link must be text";
+  if (record.categoryId !== undefined && typeof record.categoryId !== "string") return "category must be text";
+  if (record.tags !== undefined && !isTextList(record.tags)) return "tags must be a list of text";
+  if (record.priority !== undefined && !isPriority(record.priority)) return "priority is unknown";
+  if (record.checklist !== undefined && !isChecklist(record.checklist)) return "checklist is malformed";
+  if (record.autoComplete !== undefined && typeof record.autoComplete !== "boolean") return "auto-complete must be true or false";
+  if (record.sound !== undefined && typeof record.sound !== "string") return "sound must be text";
+  const deliveries = deliveryIssue(record.deliveries);
+  if (deliveries) return deliveries;
+  if (record.recurrence !== undefined) {
+    const recurrence = recurrenceIssue(record.recurrence);
+    if (recurrence) return recurrence;
+  }
+  if (record.exceptions !== undefined) {
+    if (!isRecord(record.exceptions)) return "exceptions must be an object";
+    for (const [date, override] of Object.entries(record.exceptions)) {
+      if (!isDate(date)) return `exception key ${date} is not a date`;
+      const issue = overrideIssue(override);
+      if (issue) return issue;
+    }
+  }
+  return null;
+};
+
+export const describeTemplateIssue = (record: unknown) => {
+  if (!isRecord(record)) return "not an object";
+  if (typeof record.id !== "string" || !record.id) return "missing id";
+  if (typeof record.name !== "string") return "name must be text";
+  if (!Array.isArray(record.items)) return "items must be a list";
+  const invalidItem = record.items.find(
+    (item) =>
+      !isRecord(item) ||
+      typeof item.id !== "string" ||
+      typeof item.title !== "string" ||
+      !isTime(item.time) ||
+      !isDuration(item.duration) ||
+      !isOffsetList(item.reminders) ||
+      (item.checklist !== undefined && !isTextList(item.checklist)),
+  );
+  return invalidItem === undefined ? null : "a template item is malformed";
+};
+
+export const describeCategoryIssue = (record: unknown) => {
+  if (!isRecord(record)) return "not an object";
+  if (typeof record.id !== "string" || !record.id) return "missing id";
+  if (typeof record.name !== "string") return "name must be text";
+  if (!isColor(record.color)) return "color must be a hex value";
+  return null;
+};
+
+export const describeBacklogIssue = (record: unknown) => {
+  if (!isRecord(record)) return "not an object";
+  if (typeof record.id !== "string" || !record.id) return "missing id";
+  if (typeof record.title !== "string") return "title must be text";
+  if (typeof record.description !== "string") return "description must be text";
+  if (!isDuration(record.duration)) return "duration must be a positive number of minutes";
+  if (record.priority !== undefined && !isPriority(record.priority)) return "priority is unknown";
+  if (record.deadline !== undefined && !isDate(record.deadline)) return "deadline must be YYYY-MM-DD";
+  if (record.categoryId !== undefined && typeof record.categoryId !== "string") return "category must be text";
+  if (record.tags !== undefined && !isTextList(record.tags)) return "tags must be a list of text";
+  if (!isTimestamp(record.createdAt)) return "createdAt must be a timestamp";
+  return null;
+};
+
+export const taskSchema: CollectionSchema = {
+  key: STORAGE_KEY,
+  label: "Activities",
+  version: 2,
+  migrations: {
+    1: migrateLegacyTask,
+    2: migrateTaskDuration,
+  },
+  validate: describeTaskIssue,
+};
+
+export const templateSchema: CollectionSchema = {
+  key: TEMPLATES_STORAGE_KEY,
+  label: "Templates",
+  version: 2,
+  migrations: {
+    1: migrateLegacyTemplate,
+    2: migrateTemplateDuration,
+  },
+  validate: describeTemplateIssue,
+};
+
+export const categorySchema: CollectionSchema = {
+  key: CATEGORIES_STORAGE_KEY,
+  label: "Categories",
+  version: 1,
+  migrations: {},
+  validate: describeCategoryIssue,
+};
+
+export const backlogSchema: CollectionSchema = {
+  key: BACKLOG_STORAGE_KEY,
+  label: "Backlog",
+  version: 1,
+  migrations: {},
+  validate: describeBacklogIssue,
+};
+
+const createStorageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// False when the browser refuses the write, usually because storage is full.
+export const writeItem = (key: string, value: string) => {
+  try {
+    window.localStorage.setItem(key, value);
+    return true;
+  } catch (error) {
+    console.warn(`Unable to write ${key}`, error);
+    return false;
+  }
+};
+
+export const readQuarantine = () => readJson<QuarantinedRecord[]>(QUARANTINE_STORAGE_KEY, []);
+
+export const clearQuarantine = () => window.localStorage.removeItem(QUARANTINE_STORAGE_KEY);
+
+const quarantine = (entries: RejectedRecord[]) => {
+  const existing = readQuarantine();
+  const fresh = entries.filter(
+    (entry) => !existing.some((record) => record.source === entry.source && record.raw === entry.raw),
+  );
+  if (fresh.length === 0) return;
+  const quarantinedAt = new Date().toISOString();
+  writeItem(
+    QUARANTINE_STORAGE_KEY,
+    JSON.stringify([...existing, ...fresh.map((entry) => ({ ...entry, id: createStorageId(), quarantinedAt }))]),
+  );
+};
+
+const stringify = (value: unknown) => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+// Payloads saved before versioning were bare arrays, which are treated as version 0.
+const unwrap = (parsed: unknown): StoredCollection | null => {
+  if (Array.isArray(parsed)) return { version: 0, savedAt: "", records: parsed };
+  if (isRecord(parsed) && typeof parsed.version === "number" && Array.isArray(parsed.records)) {
+    return parsed as StoredCollection;
+  }
+  return null;
+};
+
+const migrateRecord = (schema: CollectionSchema, record: unknown, from: number) => {
+  let current = record;
+  for (let version = from + 1; version <= schema.version; version += 1) {
+    const migration = schema.migrations[version];
+    if (migration) current = migration(current as never);
+  }
+  return current;
+};
+
+const validateRecords = <T>(schema: CollectionSchema, collection: StoredCollection): ValidatedCollection<T> => {
+  const rejected: RejectedRecord[] = [];
+  const records = collection.records.flatMap((record) => {
+    let migrated: unknown;
+    try {
+      migrated = migrateRecord(schema, record, collection.version);
+    } catch (error) {
+      rejected.push({ source: schema.key, reason: `migration failed: ${String(error)}`, raw: stringify(record) });
+      return [];
+    }
+    const issue = schema.validate(migrated);
+    if (issue) {
+      rejected.push({ source: schema.key, reason: issue, raw: stringify(record) });
+      return [];
+    }
+    return [migrated as T];
+  });
+  return { records, rejected, version: collection.version };
+};
+
+// Migrates and validates without touching storage, for data that did not come from this browser; null when
+// the value is not a collection at all.
+export const validateCollection = <T>(schema: CollectionSchema, stored: unknown) => {
+  const collection = unwrap(stored);
+  return collection ? validateRecords<T>(schema, collection) : null;
+};
+
+// Migrates and validates a stored collection, setting aside anything that cannot be trusted.
+export const parseCollection = <T>(schema: CollectionSchema, stored: unknown): LoadResult<T> & { dirty: boolean } => {
+  const collection = unwrap(stored);
+  if (!collection) {
+    quarantine([{ source: schema.key, reason: "stored data could not be parsed", raw: stringify(stored) }]);
+    return { records: [], found: true, quarantined: 1, dirty: true };
+  }
+
+  const needsMigration = collection.version < schema.version;
+  if (needsMigration) {
+    createBackup("before-migration", { [schema.key]: stringify(collection) });
+  }
+
+  const { records, rejected } = validateRecords<T>(schema, collection);
+  quarantine(rejected);
+
+  return {
+    records,
+    found: true,
+    quarantined: rejected.length,
+    dirty: needsMigration || rejected.length > 0,
+    ...(needsMigration && { migratedFrom: collection.version }),
+  };
+};
+
+const parsePayload = <T>(schema: CollectionSchema, payload: string) => {
+  let stored: unknown = payload;
+  try {
+    stored = JSON.parse(payload);
+  } catch {
+    // Left as the raw string, which parseCollection quarantines.
+  }
+  return parseCollection<T>(schema, stored);
+};
+
+export const loadCollection = <T>(schema: CollectionSchema): LoadResult<T> => {
+  const stored = window.localStorage.getItem(schema.key);
+  if (!stored) return { records: [], found: false, quarantined: 0 };
+
+  const { dirty, ...result } = parsePayload<T>(schema, stored);
+  if (dirty) {
+    saveCollection(schema, result.records);
+  }
+  return result;
+};
+
+export const serializeCollection = <T>(schema: CollectionSchema, records: T[]) =>
+  JSON.stringify({ version: schema.version, savedAt: new Date().toISOString(), records } satisfies StoredCollection);
+
+export const saveCollection = <T>(schema: CollectionSchema, records: T[]) =>
+  writeItem(schema.key, serializeCollection(schema, records));
+
+export const snapshotPayloads = ({ tasks, templates, categories, backlog, settings }: PlannerData) => ({
+  [taskSchema.key]: serializeCollection(taskSchema, tasks),
+  [templateSchema.key]: serializeCollection(templateSchema, templates),
+  [categorySchema.key]: serializeCollection(categorySchema, categories),
+  [backlogSchema.key]: serializeCollection(backlogSchema, backlog),
+  [SETTINGS_STORAGE_KEY]: JSON.stringify(settings),
+});
+
+const parseSettingsPayload = (payload: string) => {
+  try {
+    return parseSettings(JSON.parse(payload));
+  } catch {
+    return null;
+  }
+};
+
+export const readBackups = () => readJson<Backup[]>(BACKUPS_STORAGE_KEY, []);
+
+// Keeps the newest MAX_BACKUPS snapshots, dropping older ones first when storage runs out of room.
+export const createBackup = (reason: Backup["reason"], payloads: Record<string, string>) => {
+  if (Object.keys(payloads).length === 0) return null;
+
+  const backup: Backup = { id: createStorageId(), createdAt: new Date().toISOString(), reason, payloads };
+  let backups = [backup, ...readBackups()].slice(0, MAX_BACKUPS);
+  while (backups.length > 0 && !writeItem(BACKUPS_STORAGE_KEY, JSON.stringify(backups))) {
+    backups = backups.slice(0, -1);
+  }
+  return backups.length > 0 ? backup : null;
+};
+
+export const isScheduledBackupDue = (now: Date, backups: Backup[]) => {
+  const [latest] = backups;
+  return !latest || now.getTime() - Date.parse(latest.createdAt) >= BACKUP_INTERVAL_MS;
+};
+
+// Takes the snapshot lazily: serializing every collection is only worth it once a backup is actually due.
+export const maybeCreateScheduledBackup = (now: Date, snapshot: () => Record<string, string>) =>
+  isScheduledBackupDue(now, readBackups()) ? createBackup("scheduled", snapshot()) : null;
+
+// Snapshots the current state first so a restore can itself be rolled back. Collections missing
+// from the backup are left as they are.
+export const restoreBackup = (backupId: string, current: Record<string, string>) => {
+  const backup = readBackups().find((item) => item.id === backupId);
+  if (!backup) return null;
+
+  createBackup("before-restore", current);
+  const restore = <T>(schema: CollectionSchema) => {
+    const payload = backup.payloads[schema.key];
+    return payload ? parsePayload<T>(schema, payload) : null;
+  };
+
+  const settings = backup.payloads[SETTINGS_STORAGE_KEY];
+  return {
+    tasks: restore<Task>(taskSchema),
+    templates: restore<Template>(templateSchema),
+    categories: restore<Category>(categorySchema),
+    backlog: restore<BacklogItem>(backlogSchema),
+    settings: settings ? parseSettingsPayload(settings) : null,
+  };
+};
+
+export const countBackupRecords = (backup: Backup, key: string) => {
+  const payload = backup.payloads[key];
+  if (!payload) return 0;
+  try {
+    return unwrap(JSON.parse(payload))?.records.length ?? 0;
+  } catch {
+    return 0;
+  }
+};
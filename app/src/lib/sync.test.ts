@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { applyMutations, changesSince, diffTasks, emptyServerState, mergeServerChanges, seedMutations, type Mutation } from "./sync";
+import { makeTask } from "./testTasks";
+
+const standup = makeTask({ id: "standup", title: "Standup", date: "2026-06-01", time: "09:00" });
+
+const edit = (fields: Mutation["fields"], at: number, extra: Partial<Mutation> = {}): Mutation => ({
+  id: `edit-${at}`,
+  taskId: "standup",
+  type: "upsert",
+  fields,
+  at,
+  ...extra,
+});
+
+const seeded = () => applyMutations(emptyServerState(), seedMutations([standup], 100)).state;
+
+describe("diffTasks", () => {
+  it("sends only the fields that changed, and deletions", () => {
+    const mutations = diffTasks([standup], [{ ...standup, time: "09:30" }], 200);
+    expect(mutations).toMatchObject([{ taskId: "standup", type: "upsert", fields: { time: "09:30" }, at: 200 }]);
+    expect(diffTasks([standup], [], 300)).toMatchObject([{ taskId: "standup", type: "delete", at: 300 }]);
+  });
+
+  it("writes cleared fields as null so they survive JSON", () => {
+    const tagged = { ...standup, tags: ["team"] };
+    expect(diffTasks([tagged], [standup], 200)[0].fields).toEqual({ tags: null });
+  });
+});
+
+describe("applyMutations", () => {
+  it("keeps the latest edit of each field, whatever order they arrive in", () => {
+    const { state, conflicts } = applyMutations(seeded(), [
+      edit({ time: "10:00" }, 300),
+      edit({ time: "09:30", title: "Daily standup" }, 200),
+    ]);
+    expect(state.records.standup.task).toMatchObject({ time: "10:00", title: "Daily standup" });
+    expect(conflicts).toEqual([]);
+  });
+
+  it("reports an older edit that lost to a newer one already on the server", () => {
+    const first = applyMutations(seeded(), [edit({ time: "10:00" }, 300)]).state;
+    const { state, conflicts } = applyMutations(first, [edit({ time: "09:30" }, 200)]);
+    expect(state.records.standup.task?.time).toBe("10:00");
+    expect(conflicts).toMatchObject([{ taskId: "standup", field: "time" }]);
+  });
+
+  it("keeps a task edited after it was deleted elsewhere", () => {
+    const edited = applyMutations(seeded(), [edit({ title: "Retro" }, 400)]).state;
+    const { state, conflicts } = applyMutations(edited, [{ id: "delete", taskId: "standup", type: "delete", at: 300 }]);
+    expect(state.records.standup.task?.title).toBe("Retro");
+    expect(conflicts).toMatchObject([{ field: "deleted" }]);
+  });
+
+  it("lets a device's first upload lose quietly", () => {
+    const edited = applyMutations(seeded(), [edit({ time: "10:00" }, 300)]).state;
+    const { state, conflicts } = applyMutations(edited, seedMutations([standup], 50));
+    expect(state.records.standup.task?.time).toBe("10:00");
+    expect(conflicts).toEqual([]);
+  });
+
+  it("rejects an edit that would leave an invalid task", () => {
+    const { state, conflicts } = applyMutations(seeded(), [edit({ date: "June" }, 300)]);
+    expect(state.records.standup.task?.date).toBe("2026-06-01");
+    expect(conflicts).toMatchObject([{ field: "task" }]);
+  });
+});
+
+describe("mergeServerChanges", () => {
+  it("takes the server's copy but keeps fields this device has not sent yet", () => {
+    const server = applyMutations(seeded(), [edit({ title: "Daily standup" }, 300)]).state;
+    const pending = [edit({ time: "11:00" }, 400)];
+    const [merged] = mergeServerChanges([standup], changesSince(server, 0), pending);
+    expect(merged).toMatchObject({ title: "Daily standup", time: "11:00" });
+  });
+
+  it("drops tasks deleted on the server unless this device still has edits for them", () => {
+    const server = applyMutations(seeded(), [{ id: "delete", taskId: "standup", type: "delete", at: 300 }]).state;
+    expect(mergeServerChanges([standup], changesSince(server, 0), [])).toEqual([]);
+    expect(mergeServerChanges([standup], changesSince(server, 0), [edit({ time: "11:00" }, 400)])).toEqual([standup]);
+  });
+});
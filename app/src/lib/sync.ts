@@ -0,0 +1,198 @@
+import { describeTaskIssue } from "./storage";
+import { createId, sortTasks, type Task } from "./tasks";
+
+export type TaskField = Exclude<keyof Task, "id">;
+
+export type Mutation = {
+  id: string;
+  taskId: string;
+  type: "upsert" | "delete";
+  fields?: Partial<Task>;
+  at: number; // epoch ms on the device that made the change
+  seed?: boolean; // first upload from a device; loses quietly to anything already on the server
+};
+
+export type ServerRecord = {
+  id: string;
+  task: Task | null; // null once deleted
+  fieldTimes: Partial<Record<TaskField, number>>;
+  deletedAt?: number;
+  revision: number;
+};
+
+export type ServerState = {
+  revision: number;
+  records: Record<string, ServerRecord>;
+};
+
+export type SyncConflict = {
+  id: string;
+  taskId: string;
+  title: string;
+  field: TaskField | "deleted" | "task";
+  reason: string;
+  detectedAt: number;
+};
+
+export type SyncRequest = { since: number; mutations: Mutation[] };
+
+export type SyncResponse = { revision: number; changes: ServerRecord[]; conflicts: SyncConflict[] };
+
+const taskFields: TaskField[] = [
+  "title",
+  "description",
+  "date",
+  "time",
+  "timeZone",
+  "duration",
+  "reminders",
+  "deliveries",
+  "completed",
+  "completedAt",
+  "focusMinutes",
+  "templateItemId",
+  "rollover",
+  "categoryId",
+  "tags",
+  "priority",
+  "checklist",
+  "autoComplete",
+  "sound",
+  "recurrence",
+  "exceptions",
+];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const emptyServerState = (): ServerState => ({ revision: 0, records: {} });
+
+// Field-level diff of two snapshots of the plan, as the mutations the server needs to replay it.
+export const diffTasks = (previous: Task[], next: Task[], at: number): Mutation[] => {
+  const before = new Map(previous.map((task) => [task.id, task]));
+  const after = new Set(next.map((task) => task.id));
+
+  const upserts = next.flatMap((task): Mutation[] => {
+    const old = before.get(task.id);
+    const changed = taskFields.filter((field) => !old || !sameValue(old[field], task[field]));
+    if (changed.length === 0) return [];
+    return [
+      {
+        id: createId(),
+        taskId: task.id,
+        type: "upsert",
+        fields: Object.fromEntries(changed.map((field) => [field, task[field] ?? null])),
+        at,
+      },
+    ];
+  });
+
+  const deletes = previous
+    .filter((task) => !after.has(task.id))
+    .map((task): Mutation => ({ id: createId(), taskId: task.id, type: "delete", at }));
+
+  return [...upserts, ...deletes];
+};
+
+export const seedMutations = (tasks: Task[], at: number) =>
+  diffTasks([], tasks, at).map((mutation) => ({ ...mutation, seed: true }));
+
+const fromWire = (value: unknown) => (value === null ? undefined : value);
+
+const conflict = (record: ServerRecord | undefined, taskId: string, field: SyncConflict["field"], reason: string) => ({
+  id: createId(),
+  taskId,
+  title: record?.task?.title ?? "Deleted activity",
+  field,
+  reason,
+  detectedAt: Date.now(),
+});
+
+// Last writer wins per field; every losing field is reported back so the user can see what was dropped.
+export const applyMutations = (state: ServerState, mutations: Mutation[]) => {
+  const records = { ...state.records };
+  const conflicts: SyncConflict[] = [];
+  let revision = state.revision;
+
+  [...mutations]
+    .sort((a, b) => a.at - b.at)
+    .forEach((mutation) => {
+      const record = records[mutation.taskId];
+
+      if (mutation.type === "delete") {
+        if (!record?.task) return;
+        const lastEdit = Math.max(0, ...Object.values(record.fieldTimes).map(Number));
+        if (lastEdit > mutation.at) {
+          conflicts.push(conflict(record, mutation.taskId, "deleted", "Edited on another device after it was deleted here"));
+          return;
+        }
+        revision += 1;
+        records[mutation.taskId] = { ...record, task: null, deletedAt: mutation.at, revision };
+        return;
+      }
+
+      if (record && !record.task && (record.deletedAt ?? 0) > mutation.at) {
+        if (!mutation.seed) {
+          conflicts.push(conflict(record, mutation.taskId, "deleted", "Deleted on another device before this edit"));
+        }
+        return;
+      }
+
+      const base = (record?.task ?? { id: mutation.taskId }) as Task;
+      const fieldTimes = record?.task ? { ...record.fieldTimes } : {};
+      const accepted: Partial<Record<TaskField, unknown>> = {};
+
+      Object.entries(mutation.fields ?? {}).forEach(([key, value]) => {
+        const field = key as TaskField;
+        if (!taskFields.includes(field)) return;
+        const serverTime = fieldTimes[field] ?? 0;
+        if (serverTime > mutation.at) {
+          if (!mutation.seed && !sameValue(base[field], fromWire(value))) {
+            conflicts.push(conflict(record, mutation.taskId, field, "A newer change from another device was kept"));
+          }
+          return;
+        }
+        accepted[field] = fromWire(value);
+        fieldTimes[field] = mutation.at;
+      });
+
+      if (Object.keys(accepted).length === 0) return;
+      const task = JSON.parse(JSON.stringify({ ...base, ...accepted })) as Task;
+      const issue = describeTaskIssue(task);
+      if (issue) {
+        conflicts.push(conflict(record, mutation.taskId, "task", `Rejected by the server: ${issue}`));
+        return;
+      }
+
+      revision += 1;
+      records[mutation.taskId] = { id: mutation.taskId, task, fieldTimes, revision };
+    });
+
+  return { state: { revision, records }, conflicts };
+};
+
+export const changesSince = (state: ServerState, since: number) =>
+  Object.values(state.records).filter((record) => record.revision > since);
+
+// Server records replace local copies, except for fields this device changed and has not sent yet.
+export const mergeServerChanges = (local: Task[], changes: ServerRecord[], pending: Mutation[]) => {
+  const tasks = new Map(local.map((task) => [task.id, task]));
+
+  changes.forEach((record) => {
+    const waiting = pending.filter((mutation) => mutation.taskId === record.id);
+    if (waiting.some((mutation) => mutation.type === "delete")) return;
+
+    if (!record.task) {
+      if (waiting.length === 0) tasks.delete(record.id);
+      return;
+    }
+
+    const overlay = Object.assign({}, ...waiting.map((mutation) => mutation.fields)) as Partial<Task>;
+    const merged = { ...record.task, ...overlay };
+    taskFields.forEach((field) => {
+      if (merged[field] === null) delete merged[field];
+    });
+    tasks.set(record.id, merged);
+  });
+
+  return sortTasks([...tasks.values()]);
+};
@@ -0,0 +1,84 @@
+import { seedMutations, type Mutation, type SyncRequest, type SyncResponse } from "./sync";
+import type { Task } from "./tasks";
+
+export type SyncStatus = "idle" | "syncing" | "offline" | "error";
+
+type SyncState = {
+  revision: number;
+  seeded: boolean;
+  lastSyncedAt?: string;
+};
+
+export type SyncResult =
+  | { status: "synced"; response: SyncResponse; pending: Mutation[] }
+  | { status: "offline" | "error" };
+
+const OUTBOX_STORAGE_KEY = "daily-rhythm-sync-outbox";
+const SYNC_STATE_STORAGE_KEY = "daily-rhythm-sync-state";
+const SYNC_ENDPOINT = "/api/tasks";
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const readOutbox = () => readJson<Mutation[]>(OUTBOX_STORAGE_KEY, []);
+
+export const readSyncState = () => readJson<SyncState>(SYNC_STATE_STORAGE_KEY, { revision: 0, seeded: false });
+
+const writeSyncState = (state: SyncState) => window.localStorage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(state));
+
+// The outbox lives in localStorage so every tab queues into the same list and nothing is lost offline.
+export const enqueueMutations = (mutations: Mutation[]) => {
+  if (mutations.length === 0) return readOutbox().length;
+  const outbox = [...readOutbox(), ...mutations];
+  window.localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+  return outbox.length;
+};
+
+// A device that has never synced uploads its whole plan once, without overriding what the server has.
+export const seedOutbox = (tasks: Task[]) => {
+  const state = readSyncState();
+  if (state.seeded) return;
+  enqueueMutations(seedMutations(tasks, 0));
+  writeSyncState({ ...state, seeded: true });
+};
+
+export const syncWithServer = async (): Promise<SyncResult> => {
+  const state = readSyncState();
+  const sent = readOutbox();
+
+  let response: Response;
+  try {
+    response = await fetch(SYNC_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ since: state.revision, mutations: sent } satisfies SyncRequest),
+    });
+  } catch {
+    return { status: "offline" };
+  }
+
+  if (!response.ok) {
+    return { status: "error" };
+  }
+
+  let result: SyncResponse;
+  try {
+    result = await response.json();
+  } catch {
+    // A proxy or captive portal can answer 200 with a page that is not ours.
+    return { status: "error" };
+  }
+
+  const sentIds = new Set(sent.map((mutation) => mutation.id));
+  const pending = readOutbox().filter((mutation) => !sentIds.has(mutation.id));
+  window.localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(pending));
+  writeSyncState({ ...readSyncState(), revision: result.revision, lastSyncedAt: new Date().toISOString() });
+
+  return { status: "synced", response: result, pending };
+};
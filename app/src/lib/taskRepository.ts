@@ -0,0 +1,174 @@
+import { createBackup, loadCollection, parseCollection, saveCollection, taskSchema, type LoadResult } from "./storage";
+import { createId, type Task } from "./tasks";
+
+export type TaskRepository = {
+  load: () => Promise<LoadResult<Task>>;
+  save: (tasks: Task[]) => Promise<void>;
+  subscribe: (listener: (tasks: Task[]) => void) => () => void;
+  close: () => void;
+};
+
+type SyncMessage = { type: "tasks-changed"; source: string };
+
+const DB_NAME = "daily-rhythm";
+const DB_VERSION = 1;
+const TASK_STORE = "tasks";
+const META_STORE = "meta";
+const SCHEMA_VERSION_KEY = "schemaVersion";
+const SYNC_CHANNEL = "daily-rhythm-sync";
+
+export const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TASK_STORE)) db.createObjectStore(TASK_STORE, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const fingerprint = (task: Task) => JSON.stringify(task);
+
+const createIndexedDbRepository = (db: IDBDatabase): TaskRepository => {
+  const tabId = createId();
+  const channel = new BroadcastChannel(SYNC_CHANNEL);
+  // What this tab last read or wrote, so saves only touch records that actually changed here.
+  let synced = new Map<string, string>();
+
+  const remember = (tasks: Task[]) => {
+    synced = new Map(tasks.map((task) => [task.id, fingerprint(task)]));
+  };
+
+  const writeAll = async (tasks: Task[], removed: string[]) => {
+    const transaction = db.transaction([TASK_STORE, META_STORE], "readwrite");
+    const store = transaction.objectStore(TASK_STORE);
+    tasks.forEach((task) => store.put(task));
+    removed.forEach((id) => store.delete(id));
+    transaction.objectStore(META_STORE).put(taskSchema.version, SCHEMA_VERSION_KEY);
+    await transactionDone(transaction);
+  };
+
+  const readAll = async () => {
+    const transaction = db.transaction([TASK_STORE, META_STORE], "readonly");
+    const [records, version] = await Promise.all([
+      requestResult(transaction.objectStore(TASK_STORE).getAll()),
+      requestResult(transaction.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)),
+    ]);
+    return { records, version: version as number | undefined };
+  };
+
+  // The first run moves whatever the localStorage backend held into the database.
+  const importFromLocalStorage = async () => {
+    const payload = window.localStorage.getItem(taskSchema.key);
+    const legacy = loadCollection<Task>(taskSchema);
+    // Older payloads were already backed up by their own schema migration.
+    if (payload && legacy.migratedFrom === undefined) {
+      createBackup("before-migration", { [taskSchema.key]: payload });
+    }
+    await writeAll(legacy.records, []);
+    window.localStorage.removeItem(taskSchema.key);
+    return legacy;
+  };
+
+  const load = async () => {
+    const { records, version } = await readAll();
+    if (version === undefined) {
+      const imported = await importFromLocalStorage();
+      remember(imported.records);
+      return imported;
+    }
+
+    const { dirty, ...result } = parseCollection<Task>(taskSchema, { version, records });
+    if (dirty) {
+      const kept = new Set(result.records.map((task) => task.id));
+      await writeAll(
+        result.records,
+        (records as { id?: unknown }[]).flatMap((record) =>
+          typeof record?.id === "string" && !kept.has(record.id) ? [record.id] : [],
+        ),
+      );
+    }
+    remember(result.records);
+    return result;
+  };
+
+  const save = async (tasks: Task[]) => {
+    const changed = tasks.filter((task) => synced.get(task.id) !== fingerprint(task));
+    const ids = new Set(tasks.map((task) => task.id));
+    const removed = [...synced.keys()].filter((id) => !ids.has(id));
+    if (changed.length === 0 && removed.length === 0) return;
+
+    await writeAll(changed, removed);
+    remember(tasks);
+    channel.postMessage({ type: "tasks-changed", source: tabId } satisfies SyncMessage);
+  };
+
+  const subscribe = (listener: (tasks: Task[]) => void) => {
+    const handleMessage = async (event: MessageEvent<SyncMessage>) => {
+      if (event.data?.type !== "tasks-changed" || event.data.source === tabId) return;
+      try {
+        const { records } = await load();
+        listener(records);
+      } catch (error) {
+        // This tab keeps what it shows; the next change from another tab reloads again.
+        console.error("Unable to reload tasks changed in another tab", error);
+      }
+    };
+    channel.addEventListener("message", handleMessage);
+    return () => channel.removeEventListener("message", handleMessage);
+  };
+
+  return {
+    load,
+    save,
+    subscribe,
+    close: () => {
+      channel.close();
+      db.close();
+    },
+  };
+};
+
+// Used where IndexedDB or BroadcastChannel are missing (older browsers, some private modes).
+const createLocalStorageRepository = (): TaskRepository => ({
+  load: async () => loadCollection<Task>(taskSchema),
+  save: async (tasks) => {
+    saveCollection(taskSchema, tasks);
+  },
+  subscribe: (listener) => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === taskSchema.key) listener(loadCollection<Task>(taskSchema).records);
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  },
+  close: () => undefined,
+});
+
+export const openTaskRepository = async (): Promise<TaskRepository> => {
+  if (typeof window === "undefined" || !("indexedDB" in window) || typeof BroadcastChannel === "undefined") {
+    return createLocalStorageRepository();
+  }
+
+  try {
+    return createIndexedDbRepository(await openDatabase());
+  } catch (error) {
+    console.warn("IndexedDB unavailable, falling back to localStorage", error);
+    return createLocalStorageRepository();
+  }
+};
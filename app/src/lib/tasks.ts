@@ -0,0 +1,216 @@
+import type { Priority } from "./categories";
+import type { ChecklistItem } from "./checklist";
+import type { RecurrenceRule } from "./recurrence";
+import type { RolloverPolicy } from "./rollover";
+import type { SoundId } from "./sounds";
+import { differsFromDevice, zoneAbbreviation, zonedInstant } from "./timeZones";
+
+export type Task = {
+  id: string;
+  title: string;
+  description: string;
+  date: string; // YYYY-MM-DD, first occurrence for recurring tasks
+  time: string; // HH:MM
+  timeZone?: string; // IANA zone the date and time are written in, the device's when unset
+  duration: number; // minutes
+  reminders: number[]; // minutes before start, one entry per reminder
+  deliveries: Record<string, ReminderDelivery>; // keyed by reminder offset
+  completed: boolean;
+  completedAt?: string; // ISO string, set when the task is checked off
+  focusMinutes?: number; // time actually spent in focus sessions
+  templateItemId?: string; // template item the task was planned from
+  rollover?: RolloverPolicy; // what happens when the task is left unfinished, "ask" when unset
+  categoryId?: string;
+  tags?: string[]; // lowercase, without the leading #
+  priority?: Priority; // "normal" when unset
+  checklist?: ChecklistItem[];
+  autoComplete?: boolean; // complete the task once every checklist item is ticked
+  sound?: SoundId; // overrides the category and default alert sounds
+  recurrence?: RecurrenceRule;
+  exceptions?: Record<string, OccurrenceOverride>; // keyed by occurrence date
+};
+
+export type ReminderDelivery = {
+  state: "delivered" | "missed" | "snoozed";
+  at: string; // ISO string
+  snoozedUntil?: string; // ISO string
+};
+
+export type TaskFields = Omit<Task, "id" | "recurrence" | "exceptions">;
+
+export type OccurrenceOverride = Partial<TaskFields> & {
+  skipped?: boolean;
+};
+
+export type TaskOccurrence = TaskFields & {
+  key: string;
+  taskId: string;
+  isRecurring: boolean;
+  skipped: boolean;
+};
+
+// Open alerts are the banners waiting for an answer; the rest stay in the notification center as history.
+export type AlertStatus = "open" | "snoozed" | "dismissed" | "completed" | "cancelled";
+
+export type Alert = {
+  id: string;
+  taskId: string;
+  occurrenceKey: string;
+  date: string; // occurrence date
+  offset: number; // reminder offset in minutes
+  title: string; // kept so the entry still reads well once the task is gone
+  message: string;
+  scheduledAt: string; // ISO string, the occurrence start the reminder was for
+  missed?: boolean;
+  firedAt: string; // ISO string
+  status: AlertStatus;
+  resolvedAt?: string; // ISO string, set once the alert leaves "open"
+  snoozedUntil?: string; // ISO string
+  note?: string; // why the alert was closed without an answer, e.g. the task was deleted
+};
+
+// Locale and clock preferences; unset fields fall back to the browser's own.
+export type DisplayFormat = {
+  locale?: string;
+  hour12?: boolean;
+};
+
+export const STORAGE_KEY = "daily-rhythm-tasks";
+
+export const minutesOptions = [0, 5, 10, 15, 30, 45, 60];
+
+export const snoozeOptions = [5, 10, 15];
+
+export const DEFAULT_DURATION_MINUTES = 30;
+
+export const durationOptions = [15, 30, 45, 60, 90, 120];
+
+export const formatReminderOffset = (offset: number) => (offset === 0 ? "at start" : `${offset} min before`);
+
+export const sortReminderOffsets = (offsets: number[]) => [...new Set(offsets)].sort((a, b) => b - a);
+
+type LegacyReminderFields = { remindBefore?: number; notified?: boolean };
+
+const legacyDeliveries = (notified: boolean | undefined, offset: number): Task["deliveries"] | undefined => {
+  if (notified === undefined) return undefined;
+  return notified ? { [offset]: { state: "delivered", at: new Date(0).toISOString() } } : {};
+};
+
+// Tasks stored before per-reminder delivery tracking carried a single `remindBefore`/`notified` pair.
+export const migrateLegacyTask = (task: Task & LegacyReminderFields): Task => {
+  const { remindBefore, notified, ...rest } = task;
+  const reminders = rest.reminders ?? [remindBefore ?? 15];
+
+  return {
+    ...rest,
+    reminders,
+    deliveries: rest.deliveries ?? legacyDeliveries(notified, reminders[0]) ?? {},
+    exceptions:
+      rest.exceptions &&
+      Object.fromEntries(
+        Object.entries(rest.exceptions).map(([date, override]) => {
+          const {
+            remindBefore: overrideRemindBefore,
+            notified: overrideNotified,
+            ...fields
+          } = override as OccurrenceOverride & LegacyReminderFields;
+          const overrideReminders =
+            fields.reminders ?? (overrideRemindBefore === undefined ? undefined : [overrideRemindBefore]);
+          const deliveries = fields.deliveries ?? legacyDeliveries(overrideNotified, (overrideReminders ?? reminders)[0]);
+          return [
+            date,
+            { ...fields, ...(overrideReminders && { reminders: overrideReminders }), ...(deliveries && { deliveries }) },
+          ];
+        }),
+      ),
+  };
+};
+
+// Tasks saved before durations existed are treated as default-length blocks.
+export const migrateTaskDuration = (task: Task): Task => ({ ...task, duration: task.duration ?? DEFAULT_DURATION_MINUTES });
+
+export const markCompleted = (completed: boolean, at = new Date()) => ({
+  completed,
+  completedAt: completed ? at.toISOString() : undefined,
+});
+
+export const formatDateInput = (value: Date) => {
+  const year = value.getFullYear();
+  const month = `${value.getMonth() + 1}`.padStart(2, "0");
+  const day = `${value.getDate()}`.padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+export const combineDateTime = (date: string, time: string, timeZone?: string) => {
+  if (timeZone) return new Date(zonedInstant(date, time, timeZone));
+  const [hours = "00", minutes = "00"] = time.split(":");
+  const [year, month, day] = date.split("-").map((part) => Number(part));
+  return new Date(year, (month ?? 1) - 1, day ?? 1, Number(hours), Number(minutes), 0, 0);
+};
+
+type Scheduled = Pick<Task, "date" | "time" | "timeZone">;
+
+// The moment the activity starts, which moves on the device's clock when it is set in another zone.
+export const startInstant = (task: Scheduled) => combineDateTime(task.date, task.time, task.timeZone);
+
+export const endInstant = (task: Scheduled & Pick<Task, "duration">) =>
+  new Date(startInstant(task).getTime() + task.duration * 60 * 1000);
+
+export const compareSchedule = (a: Scheduled, b: Scheduled) => startInstant(a).getTime() - startInstant(b).getTime();
+
+export const sortTasks = <T extends Scheduled>(data: T[]) => [...data].sort(compareSchedule);
+
+export const getSoonestTask = <T extends Pick<Task, "date" | "time" | "timeZone" | "completed">>(tasks: T[]) => {
+  const upcoming = tasks.filter((task) => !task.completed).sort(compareSchedule);
+  return upcoming[0] ?? null;
+};
+
+export const formatTimeLabel = (dateTime: Date, format: DisplayFormat = {}) =>
+  dateTime.toLocaleTimeString(format.locale ?? [], { hour: "2-digit", minute: "2-digit", hour12: format.hour12 });
+
+export const formatDateLabel = (date: string, format: DisplayFormat = {}) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const dateObj = new Date(year, (month ?? 1) - 1, day ?? 1);
+  return dateObj.toLocaleDateString(format.locale, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export const formatDateTimeLabel = (dateTime: Date, format: DisplayFormat = {}) =>
+  dateTime.toLocaleString(format.locale, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: format.hour12,
+  });
+
+export type ZoneHint = {
+  zone: string; // abbreviation of the task's zone, e.g. "EDT"
+  local: string; // start time on the device's clock, with the date when it falls on another day
+};
+
+// Null when the task has no zone of its own or its zone agrees with the device at that moment.
+export const zoneHint = (task: Scheduled, format: DisplayFormat = {}): ZoneHint | null => {
+  if (!task.timeZone) return null;
+  const start = startInstant(task);
+  if (!differsFromDevice(start.getTime(), task.timeZone)) return null;
+  const localDate = formatDateInput(start);
+  return {
+    zone: zoneAbbreviation(start.getTime(), task.timeZone, format.locale),
+    local: `${formatTimeLabel(start, format)}${localDate === task.date ? "" : `, ${formatDateLabel(localDate, format)}`}`,
+  };
+};
+
+export const normalizeTimeValue = (value: string) => {
+  if (!value) return "";
+  const [hours = "00", minutes = "00"] = value.split(":");
+  return `${hours.padStart(2, "0")}:${minutes.padStart(2, "0")}`;
+};
+
+export const createId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
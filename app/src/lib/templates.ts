@@ -0,0 +1,170 @@
+import { checklistFromTitles } from "./checklist";
+import { addDays, applyOccurrenceUpdate, expandTasks } from "./recurrence";
+import { DEFAULT_DURATION_MINUTES, createId, sortTasks, type Task, type TaskOccurrence } from "./tasks";
+import { deviceTimeZone } from "./timeZones";
+
+export type TemplateItem = {
+  id: string;
+  title: string;
+  description: string;
+  time: string; // HH:MM
+  duration: number; // minutes
+  reminders: number[]; // minutes before start
+  checklist?: string[]; // item titles, created unticked on each applied day
+};
+
+export type Template = {
+  id: string;
+  name: string;
+  items: TemplateItem[];
+};
+
+export type ApplyMode = "replace" | "merge";
+
+export const TEMPLATES_STORAGE_KEY = "daily-rhythm-templates";
+
+export const defaultTemplates: Template[] = [
+  {
+    id: "default-workday",
+    name: "Balanced workday",
+    items: [
+      {
+        id: "morning-stretch",
+        title: "Morning Stretch",
+        time: "07:00",
+        duration: 10,
+        description: "Loosen up with a 10 minute stretch routine.",
+        reminders: [10],
+      },
+      {
+        id: "focus-block-1",
+        title: "Focus Block #1",
+        time: "09:00",
+        duration: 90,
+        description: "Deep work session on priority project.",
+        reminders: [15],
+      },
+      {
+        id: "lunch-break",
+        title: "Lunch Break",
+        time: "12:30",
+        duration: 45,
+        description: "Step away from the desk and recharge.",
+        reminders: [10],
+      },
+      {
+        id: "afternoon-check-in",
+        title: "Afternoon Check-in",
+        time: "15:00",
+        duration: 15,
+        description: "Review progress and adjust the plan.",
+        reminders: [10],
+      },
+      {
+        id: "wrap-up",
+        title: "Wrap-up & Plan Tomorrow",
+        time: "18:00",
+        duration: 30,
+        description: "Log wins and prep tomorrow's priorities.",
+        reminders: [15],
+        checklist: ["Log today's wins", "Clear the inbox", "Pick tomorrow's top three"],
+      },
+    ],
+  },
+];
+
+export const datesInRange = (from: string, to: string) => {
+  const dates: string[] = [];
+  for (let cursor = from; cursor <= to; cursor = addDays(cursor, 1)) {
+    dates.push(cursor);
+  }
+  return dates;
+};
+
+const duplicateKey = (entry: { title: string; time: string }) => `${entry.title.trim().toLowerCase()}@${entry.time}`;
+
+export const createTasksFromTemplate = (template: Template, date: string): Task[] =>
+  template.items.map((item) => ({
+    id: createId(),
+    title: item.title,
+    description: item.description,
+    date,
+    time: item.time,
+    timeZone: deviceTimeZone(),
+    duration: item.duration,
+    reminders: item.reminders,
+    deliveries: {},
+    completed: false,
+    templateItemId: item.id,
+    checklist: item.checklist?.length ? checklistFromTitles(item.checklist) : undefined,
+  }));
+
+export const applyTemplate = (tasks: Task[], template: Template, dates: string[], mode: ApplyMode) => {
+  if (dates.length === 0) return tasks;
+
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+  const targetDates = new Set(dates);
+  let next = tasks;
+
+  if (mode === "replace") {
+    // Series keep running on other days; only their occurrences inside the range are skipped.
+    const seriesOccurrences = expandTasks(next, from, to).filter(
+      (occurrence) => occurrence.isRecurring && !occurrence.skipped && targetDates.has(occurrence.date),
+    );
+    next = seriesOccurrences.reduce(
+      (draft, occurrence) => applyOccurrenceUpdate(draft, occurrence, { skipped: true }),
+      next.filter((task) => task.recurrence || !targetDates.has(task.date)),
+    );
+  }
+
+  const existing = new Set(
+    expandTasks(next, from, to)
+      .filter((occurrence) => !occurrence.skipped)
+      .map((occurrence) => `${occurrence.date}|${duplicateKey(occurrence)}`),
+  );
+
+  const additions = dates.flatMap((date) =>
+    createTasksFromTemplate(template, date).filter((task) => !existing.has(`${date}|${duplicateKey(task)}`)),
+  );
+
+  return sortTasks([...next, ...additions]);
+};
+
+export const createTemplateFromDay = (name: string, occurrences: TaskOccurrence[]): Template => ({
+  id: createId(),
+  name,
+  items: occurrences
+    .filter((occurrence) => !occurrence.skipped)
+    .map((occurrence) => ({
+      id: createId(),
+      title: occurrence.title,
+      description: occurrence.description,
+      time: occurrence.time,
+      duration: occurrence.duration,
+      reminders: occurrence.reminders,
+      checklist: occurrence.checklist?.map((item) => item.title),
+    })),
+});
+
+export const duplicateTemplate = (template: Template): Template => ({
+  id: createId(),
+  name: `${template.name} (copy)`,
+  items: template.items.map((item) => ({ ...item, id: createId() })),
+});
+
+// Templates saved before multiple reminders stored a single `remindBefore` per item.
+export const migrateLegacyTemplate = (template: Template): Template => ({
+  ...template,
+  items: template.items.map((item) => {
+    const { remindBefore, ...rest } = item as TemplateItem & { remindBefore?: number };
+    return { ...rest, reminders: rest.reminders ?? [remindBefore ?? 15] };
+  }),
+});
+
+export const sortTemplateItems = (items: TemplateItem[]) => [...items].sort((a, b) => (a.time > b.time ? 1 : -1));
+
+export const migrateTemplateDuration = (template: Template): Template => ({
+  ...template,
+  items: template.items.map((item) => ({ ...item, duration: item.duration ?? DEFAULT_DURATION_MINUTES })),
+});
@@ -0,0 +1,13 @@
+import type { Task } from "./tasks";
+
+// The unit tests' one-off activity: a half-hour block with no reminders unless the test asks for them.
+export const makeTask = (fields: Partial<Task> & Pick<Task, "date" | "time">): Task => ({
+  id: `${fields.timeZone ?? "device"}-${fields.date}-${fields.time}`,
+  title: "Block",
+  description: "",
+  duration: 30,
+  reminders: [],
+  deliveries: {},
+  completed: false,
+  ...fields,
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { zoneOffsetMinutes, zonedInstant, zonedParts } from "./timeZones";
+
+const iso = (instant: number) => new Date(instant).toISOString();
+
+describe("zonedInstant", () => {
+  it("resolves ordinary times on either side of a spring-forward change in New York", () => {
+    expect(iso(zonedInstant("2026-03-08", "01:00", "America/New_York"))).toBe("2026-03-08T06:00:00.000Z");
+    expect(iso(zonedInstant("2026-03-08", "03:00", "America/New_York"))).toBe("2026-03-08T07:00:00.000Z");
+  });
+
+  it("moves a time skipped by spring-forward ahead by the gap", () => {
+    expect(iso(zonedInstant("2026-03-08", "02:30", "America/New_York"))).toBe("2026-03-08T07:30:00.000Z");
+    expect(iso(zonedInstant("2026-03-29", "02:30", "Europe/Berlin"))).toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("takes the earlier instant of a time repeated by fall-back", () => {
+    expect(iso(zonedInstant("2026-11-01", "01:30", "America/New_York"))).toBe("2026-11-01T05:30:00.000Z");
+    expect(iso(zonedInstant("2026-10-25", "02:30", "Europe/Berlin"))).toBe("2026-10-25T00:30:00.000Z");
+  });
+
+  it("uses the new offset once fall-back has passed", () => {
+    expect(iso(zonedInstant("2026-11-01", "03:00", "America/New_York"))).toBe("2026-11-01T08:00:00.000Z");
+    expect(iso(zonedInstant("2026-10-25", "03:00", "Europe/Berlin"))).toBe("2026-10-25T02:00:00.000Z");
+  });
+});
+
+describe("zoneOffsetMinutes", () => {
+  it("changes at the transition instant", () => {
+    const change = Date.parse("2026-03-29T01:00:00.000Z");
+    expect(zoneOffsetMinutes(change - 1000, "Europe/Berlin")).toBe(60);
+    expect(zoneOffsetMinutes(change, "Europe/Berlin")).toBe(120);
+    expect(zoneOffsetMinutes(Date.parse("2026-11-01T05:59:00.000Z"), "America/New_York")).toBe(-240);
+    expect(zoneOffsetMinutes(Date.parse("2026-11-01T06:00:00.000Z"), "America/New_York")).toBe(-300);
+  });
+});
+
+describe("zonedParts", () => {
+  it("reads the repeated hour twice on a fall-back day", () => {
+    expect(zonedParts(Date.parse("2026-11-01T05:30:00.000Z"), "America/New_York")).toEqual({ date: "2026-11-01", time: "01:30" });
+    expect(zonedParts(Date.parse("2026-11-01T06:30:00.000Z"), "America/New_York")).toEqual({ date: "2026-11-01", time: "01:30" });
+  });
+});
@@ -0,0 +1,97 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fallbackTimeZones = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Helsinki",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const timeZoneOptions = () =>
+  typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : fallbackTimeZones;
+
+const zonedFields = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((item) => item.type === type)?.value ?? "00";
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+};
+
+// Minutes the zone is ahead of UTC at that instant.
+export const zoneOffsetMinutes = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = zonedFields(instant, timeZone);
+  const asUtc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000);
+};
+
+// Wall-clock date and time the zone shows at that instant.
+export const zonedParts = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute } = zonedFields(instant, timeZone);
+  return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}` };
+};
+
+// Resolves a wall-clock time in the zone to an instant the same way `new Date(y, m, d, h, min)` does for the device:
+// a time skipped by a spring-forward gap moves ahead by the gap, and a time repeated by a fall-back overlap
+// takes its first (earlier) instant.
+export const zonedInstant = (date: string, time: string, timeZone: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours = 0, minutes = 0] = time.split(":").map(Number);
+  const wall = Date.UTC(year, (month ?? 1) - 1, day ?? 1, hours, minutes);
+
+  const before = zoneOffsetMinutes(wall - DAY_MS, timeZone);
+  const after = zoneOffsetMinutes(wall + DAY_MS, timeZone);
+  const matches = [...new Set([before, after])]
+    .map((offset) => wall - offset * 60000)
+    .filter((instant) => wall - zoneOffsetMinutes(instant, timeZone) * 60000 === instant);
+
+  return matches.length > 0 ? Math.min(...matches) : wall - before * 60000;
+};
+
+// True when the zone's clock reads differently from the device's at that instant.
+export const differsFromDevice = (instant: number, timeZone: string) =>
+  zoneOffsetMinutes(instant, timeZone) !== zoneOffsetMinutes(instant, deviceTimeZone());
+
+// Short zone name such as "EST" or "GMT+1", as the locale spells it at that instant.
+export const zoneAbbreviation = (instant: number, timeZone: string, locale?: string) =>
+  new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: "short" })
+    .formatToParts(new Date(instant))
+    .find((part) => part.type === "timeZoneName")?.value ?? timeZone;